@@ -27,10 +27,13 @@ export async function POST(request: Request) {
         where: {
           environmentId,
           status: 'PENDING',
+          // Tasks whose time window hasn't opened yet wait for a later run
+          OR: [{ earliestStart: null }, { earliestStart: { lte: new Date() } }],
         },
-        orderBy: {
-          priority: 'desc',
-        },
+        orderBy: [
+          { priority: 'desc' },
+          { dueBy: { sort: 'asc', nulls: 'last' } },
+        ],
       }),
       db.environment.findUnique({
         where: { id: environmentId },
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+
+const WS_PORT = process.env.SIMULATION_WS_PORT || "3003";
+
+// GET - Stock levels and movement ledger of a running simulation
+// Query params (environmentId, zoneId, objectType, objectId, limit) are passed through
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  try {
+    const res = await fetch(`http://localhost:${WS_PORT}/api/inventory?${searchParams}`, {
+      signal: AbortSignal.timeout(3000),
+    });
+    const data = await res.json();
+    return NextResponse.json(data, { status: res.status });
+  } catch {
+    return NextResponse.json(
+      {
+        status: "offline",
+        environmentId: searchParams.get("environmentId"),
+        zones: [],
+        types: {},
+        movements: [],
+      },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Task Schedule API
+ * CRUD operations for recurring task rules (cron + task template)
+ * Stored per environment; the simulation server loads them with the environment
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db as prisma } from '@/lib/db';
+
+// Five space-separated fields of numbers, *, ranges, steps and lists; the sim server checks the ranges
+const CRON_PATTERN = /^\s*[\d*,/-]+(\s+[\d*,/-]+){4}\s*$/;
+
+// GET - List schedules, optionally for one environment
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const environmentId = searchParams.get('environmentId');
+
+    const schedules = await prisma.taskSchedule.findMany({
+      where: environmentId ? { environmentId } : undefined,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return NextResponse.json({
+      success: true,
+      schedules,
+      count: schedules.length
+    });
+
+  } catch (error) {
+    console.error('Error fetching schedules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create schedule
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.environmentId || !body.name || !body.template) {
+      return NextResponse.json(
+        { success: false, error: 'environmentId, name and template are required' },
+        { status: 400 }
+      );
+    }
+    if (!CRON_PATTERN.test(body.cron ?? '')) {
+      return NextResponse.json(
+        { success: false, error: 'cron must have five fields: minute hour day-of-month month day-of-week' },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await prisma.taskSchedule.create({
+      data: {
+        name: body.name,
+        cron: body.cron.trim(),
+        enabled: body.enabled !== false,
+        priority: body.priority || 'NORMAL',
+        template: body.template,
+        environmentId: body.environmentId,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      schedule
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating schedule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update schedule
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { id, name, cron, enabled, priority, template } = body;
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule ID is required' },
+        { status: 400 }
+      );
+    }
+    if (cron !== undefined && !CRON_PATTERN.test(cron)) {
+      return NextResponse.json(
+        { success: false, error: 'cron must have five fields: minute hour day-of-month month day-of-week' },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await prisma.taskSchedule.update({
+      where: { id },
+      data: { name, cron: cron?.trim(), enabled, priority, template }
+    });
+
+    return NextResponse.json({
+      success: true,
+      schedule
+    });
+
+  } catch (error) {
+    console.error('Error updating schedule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete schedule
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule ID is required' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.taskSchedule.delete({
+      where: { id }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Schedule deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting schedule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete schedule' },
+      { status: 500 }
+    );
+  }
+}
@@ -42,6 +42,8 @@ export async function POST(request: Request) {
         endLocation: body.endLocation,
         items: body.items,
         estimatedTime: body.estimatedTime,
+        earliestStart: body.earliestStart ? new Date(body.earliestStart) : null,
+        dueBy: body.dueBy ? new Date(body.dueBy) : null,
         aiAssignment: body.aiAssignment,
         aiScore: body.aiScore,
       },
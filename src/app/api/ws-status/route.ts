@@ -28,6 +28,24 @@ export async function GET() {
           averageTaskTime: 0,
           fleetEfficiency: 0,
           pickSuccessRate: 0,
+          nearMisses: 0,
+          restrictedAreaViolations: 0,
+          onTimeTasks: 0,
+          lateTasks: 0,
+          onTimeRate: 1,
+          averageLateness: 0,
+          atRiskTasks: 0,
+          inspectionsPassed: 0,
+          inspectionsFailed: 0,
+          defectsDetected: 0,
+          defectsMissed: 0,
+          faultsInjected: 0,
+          taskRetries: 0,
+          faultsRaised: 0,
+          servicesCompleted: 0,
+          faultDowntime: 0,
+          maintenanceDowntime: 0,
+          fleetAvailability: 1,
         },
       },
       { status: 503 }
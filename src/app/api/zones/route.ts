@@ -58,6 +58,12 @@ export async function POST(request: NextRequest) {
             capacity: zone.capacity || 10,
             currentOccupancy: zone.currentOccupancy || 0,
             isActive: zone.isActive !== false,
+            maxRobots: zone.maxRobots ?? null,
+            direction: zone.direction ?? null,
+            activeFrom: zone.activeFrom ? new Date(zone.activeFrom) : null,
+            activeUntil: zone.activeUntil ? new Date(zone.activeUntil) : null,
+            chargingDocks: zone.chargingDocks ?? null,
+            chargingPower: zone.chargingPower ?? null,
             aiGenerated: zone.aiGenerated || false,
             confidence: zone.confidence,
             environmentId: zone.environmentId || environmentId,
@@ -152,7 +158,9 @@ function getDefaultColor(type: string): string {
     WORK_ZONE: '#8b5cf6',
     RESTRICTED_AREA: '#ef4444',
     CHARGING_STATION: '#06b6d4',
-    INSPECTION_POINT: '#ec4899'
+    INSPECTION_POINT: '#ec4899',
+    ONE_WAY_LANE: '#94a3b8',
+    INTERSECTION: '#facc15'
   };
   return colors[type] || '#6b7280';
 }
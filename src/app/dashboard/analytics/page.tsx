@@ -32,6 +32,7 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import { useSimulation } from '@/lib/simulation-context';
+import InventoryPanel from '@/components/simulation/InventoryPanel';
 
 export default function AnalyticsPage() {
   const { state, isConnected } = useSimulation();
@@ -530,6 +531,15 @@ export default function AnalyticsPage() {
           </CardContent>
         </Card>
       </motion.div>
+
+      {/* Inventory */}
+      <motion.div
+        initial={{ y: 20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ duration: 0.5, delay: 0.8 }}
+      >
+        <InventoryPanel />
+      </motion.div>
     </div>
   );
 }
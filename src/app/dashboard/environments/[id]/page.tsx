@@ -141,6 +141,12 @@ export default function EnvironmentDetailPage({ params }: { params: Promise<{ id
         </div>
         <div className="flex items-center space-x-2">
           <Badge className="bg-gradient-primary">{environment.type}</Badge>
+          <Button variant="outline" asChild>
+            <Link href={`/dashboard/simulation?environment=${id}`}>
+              <Play className="w-4 h-4 mr-2" />
+              Open Simulation
+            </Link>
+          </Button>
           <Button variant="outline" size="icon">
             <Settings className="w-4 h-4" />
           </Button>
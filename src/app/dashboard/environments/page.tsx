@@ -29,11 +29,11 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { useSimulation } from '@/lib/simulation-context';
+import { DEFAULT_ENVIRONMENT_ID, useSimulation } from '@/lib/simulation-context';
 
 // Single construction environment matching the actual simulation
 const defaultEnvironment = {
-  id: 'construction-site-alpha',
+  id: DEFAULT_ENVIRONMENT_ID,
   name: 'Construction Site Alpha',
   type: 'CONSTRUCTION_SITE',
   description: 'Construction site with material handling zones and robot fleet',
@@ -81,7 +81,7 @@ const getTypeBadgeColor = (type: string) => {
 };
 
 export default function EnvironmentsPage() {
-  const { state, isConnected } = useSimulation();
+  const { state, isConnected, environmentId } = useSimulation();
   const [searchQuery, setSearchQuery] = useState('');
 
   // Build live environment from simulation zones
@@ -97,7 +97,7 @@ export default function EnvironmentsPage() {
     );
 
     return {
-      id: 'live-simulation',
+      id: environmentId,
       name: state.name || 'Construction Site Alpha',
       type: 'LIVE_SIMULATION',
       description: `${state.zones.length} zones, ${state.objects.length} objects, ${state.robots.length} robots`,
@@ -110,7 +110,7 @@ export default function EnvironmentsPage() {
       materials: materialNames,
       zones: state.zones,
     };
-  }, [state, isConnected]);
+  }, [state, isConnected, environmentId]);
 
   // When connected show live env; otherwise show default
   const allEnvironments = useMemo(() => {
@@ -287,7 +287,7 @@ export default function EnvironmentsPage() {
                       <span>Last activity</span>
                       <span className="text-green-400">{env.lastActivity}</span>
                     </div>
-                    <Link href="/dashboard/simulation">
+                    <Link href={env.id === DEFAULT_ENVIRONMENT_ID ? '/dashboard/simulation' : `/dashboard/simulation?environment=${env.id}`}>
                       <Button className="w-full bg-gradient-to-r from-orange-500/20 to-amber-500/20 border border-orange-500/50 text-orange-400 hover:bg-orange-500/30">
                         <Map className="w-4 h-4 mr-2" />
                         Open Environment
@@ -163,6 +163,7 @@ export default function DashboardPage() {
       case 'PICKING': return 'bg-amber-500';
       case 'PLACING': return 'bg-purple-500';
       case 'CARRYING': return 'bg-green-500';
+      case 'SCANNING': return 'bg-teal-500';
       case 'CHARGING': return 'bg-cyan-500';
       case 'IDLE': return 'bg-slate-500';
       default: return 'bg-slate-600';
@@ -24,6 +24,9 @@ import {
   Cog,
   Wifi,
   WifiOff,
+  Wrench,
+  AlertTriangle,
+  Gauge,
 } from 'lucide-react';
 import Link from 'next/link';
 import {
@@ -34,6 +37,8 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Progress } from '@/components/ui/progress';
 import { useSimulation, MOCK_ROBOTS } from '@/lib/simulation-context';
+import ChaosPanel from '@/components/simulation/ChaosPanel';
+import MaintenancePanel from '@/components/simulation/MaintenancePanel';
 
 const getStatusColor = (status: string) => {
   switch (status.toUpperCase()) {
@@ -47,12 +52,16 @@ const getStatusColor = (status: string) => {
       return 'bg-purple-500';
     case 'CARRYING':
       return 'bg-green-500';
+    case 'SCANNING':
+      return 'bg-teal-500';
     case 'CHARGING':
       return 'bg-cyan-500';
     case 'IDLE':
       return 'bg-slate-500';
     case 'ERROR':
       return 'bg-red-500';
+    case 'MAINTENANCE':
+      return 'bg-orange-500';
     default:
       return 'bg-slate-600';
   }
@@ -70,12 +79,16 @@ const getStatusBadgeColor = (status: string) => {
       return 'border-purple-500/50 text-purple-400 bg-purple-500/10';
     case 'CARRYING':
       return 'border-green-500/50 text-green-400 bg-green-500/10';
+    case 'SCANNING':
+      return 'border-teal-500/50 text-teal-400 bg-teal-500/10';
     case 'CHARGING':
       return 'border-cyan-500/50 text-cyan-400 bg-cyan-500/10';
     case 'IDLE':
       return 'border-slate-500/50 text-slate-400 bg-slate-500/10';
     case 'ERROR':
       return 'border-red-500/50 text-red-400 bg-red-500/10';
+    case 'MAINTENANCE':
+      return 'border-orange-500/50 text-orange-400 bg-orange-500/10';
     default:
       return 'border-slate-500/50 text-slate-400 bg-slate-500/10';
   }
@@ -96,6 +109,12 @@ const getRobotIcon = (type: string) => {
   }
 };
 
+const RECOVERY_LABELS = {
+  AUTO_RESET: 'Resetting automatically',
+  OPERATOR_ACK: 'Needs operator acknowledgement',
+  TECHNICIAN: 'Technician visit',
+};
+
 const getBatteryColor = (battery: number) => {
   if (battery > 50) return 'bg-green-500';
   if (battery > 20) return 'bg-amber-500';
@@ -103,7 +122,8 @@ const getBatteryColor = (battery: number) => {
 };
 
 export default function RobotsPage() {
-  const { state, isConnected } = useSimulation();
+  const { state, isConnected, socket } = useSimulation();
+  const maintenance = state?.maintenance;
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
 
@@ -124,6 +144,11 @@ export default function RobotsPage() {
         capacity: 200,
         tasksCompleted: r.tasksCompleted,
         pickSuccessRate: Math.round(r.pickSuccessRate * 100),
+        fault: r.fault ?? null,
+        serviceDue: r.serviceDue ?? false,
+        hoursSinceService: ((r.operatingSeconds ?? 0) - (r.lastService?.operatingSeconds ?? 0)) / 3600,
+        distanceSinceService: r.distanceTraveled - (r.lastService?.distanceTraveled ?? 0),
+        availability: r.uptime ? r.uptime.up / Math.max(1, r.uptime.up + r.uptime.fault + r.uptime.maintenance) : null,
       }));
     }
     return MOCK_ROBOTS.map(r => ({
@@ -140,6 +165,11 @@ export default function RobotsPage() {
       capacity: 200,
       tasksCompleted: r.tasksCompleted,
       pickSuccessRate: Math.round(r.pickSuccessRate * 100),
+      fault: null,
+      serviceDue: false,
+      hoursSinceService: 0,
+      distanceSinceService: 0,
+      availability: null,
     }));
   }, [state]);
 
@@ -203,7 +233,7 @@ export default function RobotsPage() {
           />
         </div>
         <div className="flex items-center gap-2 flex-wrap">
-          {['all', 'MOVING', 'PICKING', 'PLACING', 'CARRYING', 'IDLE', 'CHARGING'].map((status) => (
+          {['all', 'MOVING', 'PICKING', 'PLACING', 'CARRYING', 'SCANNING', 'IDLE', 'CHARGING', 'ERROR', 'MAINTENANCE'].map((status) => (
             <Button
               key={status}
               variant="outline"
@@ -226,7 +256,7 @@ export default function RobotsPage() {
         initial={{ y: 20, opacity: 0 }}
         animate={{ y: 0, opacity: 1 }}
         transition={{ duration: 0.5, delay: 0.2 }}
-        className="grid grid-cols-2 md:grid-cols-4 gap-4"
+        className="grid grid-cols-2 md:grid-cols-5 gap-4"
       >
         <Card className="bg-slate-900/50 border-slate-800">
           <CardContent className="p-4">
@@ -245,7 +275,7 @@ export default function RobotsPage() {
               <span className="text-sm text-slate-400">Active</span>
             </div>
             <div className="text-2xl font-bold text-green-400">
-              {robots.filter((r) => ['MOVING', 'PICKING', 'PLACING', 'CARRYING'].includes(r.status)).length}
+              {robots.filter((r) => ['MOVING', 'PICKING', 'PLACING', 'CARRYING', 'SCANNING'].includes(r.status)).length}
             </div>
           </CardContent>
         </Card>
@@ -273,6 +303,21 @@ export default function RobotsPage() {
             </div>
           </CardContent>
         </Card>
+
+        <Card className="bg-slate-900/50 border-slate-800">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <Gauge className="w-4 h-4 text-orange-400" />
+              <span className="text-sm text-slate-400">Availability</span>
+            </div>
+            <div className="text-2xl font-bold text-orange-400">
+              {state ? `${Math.round(state.metrics.fleetAvailability * 100)}%` : '—'}
+            </div>
+            <div className="text-xs text-slate-500">
+              {robots.filter((r) => r.status === 'ERROR' || r.status === 'MAINTENANCE').length} down now
+            </div>
+          </CardContent>
+        </Card>
       </motion.div>
 
       {/* Robot Cards */}
@@ -330,6 +375,35 @@ export default function RobotsPage() {
                     </Badge>
                   </div>
 
+                  {/* Fault */}
+                  {robot.fault && (
+                    <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 space-y-2">
+                      <div className="flex items-center gap-2 text-sm text-red-400">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                        <span className="font-mono">{robot.fault.code}</span>
+                        <span className="truncate">{robot.fault.description}</span>
+                      </div>
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs text-slate-400">
+                          {robot.fault.recovery === 'TECHNICIAN' && robot.status === 'MAINTENANCE'
+                            ? 'Under repair'
+                            : RECOVERY_LABELS[robot.fault.recovery]}
+                        </span>
+                        {robot.fault.recovery === 'OPERATOR_ACK' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={!socket}
+                            onClick={() => socket?.emit('robot:acknowledge-fault', { robotId: robot.id })}
+                            className="h-7 border-red-500/50 text-red-400 hover:text-red-300"
+                          >
+                            Acknowledge
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Environment */}
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-slate-500">Environment</span>
@@ -361,8 +435,46 @@ export default function RobotsPage() {
                     </div>
                   </div>
 
+                  {/* Service interval */}
+                  {maintenance && (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-slate-500 flex items-center gap-1">
+                          <Wrench className="w-3 h-3" />
+                          Next Service
+                        </span>
+                        {robot.status === 'MAINTENANCE' && !robot.fault ? (
+                          <span className="text-orange-400">In service</span>
+                        ) : robot.serviceDue ? (
+                          <span className="text-orange-400">Due</span>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={!socket}
+                            onClick={() => socket?.emit('robot:service', { robotId: robot.id })}
+                            className="h-6 px-2 text-xs text-slate-400 hover:text-white"
+                          >
+                            Service now
+                          </Button>
+                        )}
+                      </div>
+                      <Progress
+                        value={Math.min(100, 100 * Math.max(
+                          robot.hoursSinceService / maintenance.intervalHours,
+                          robot.distanceSinceService / maintenance.intervalDistance
+                        ))}
+                        className="h-1.5"
+                      />
+                      <div className="flex justify-between text-xs text-slate-500">
+                        <span>{robot.hoursSinceService.toFixed(1)} / {maintenance.intervalHours} h</span>
+                        <span>{Math.round(robot.distanceSinceService)} / {maintenance.intervalDistance}</span>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Stats */}
-                  <div className="grid grid-cols-2 gap-3">
+                  <div className="grid grid-cols-3 gap-3">
                     <div className="text-center p-2 rounded bg-slate-800/30">
                       <div className="text-lg font-bold text-white">{robot.tasksCompleted}</div>
                       <div className="text-xs text-slate-500">Tasks Done</div>
@@ -371,6 +483,12 @@ export default function RobotsPage() {
                       <div className="text-lg font-bold text-green-400">{robot.pickSuccessRate}%</div>
                       <div className="text-xs text-slate-500">Success Rate</div>
                     </div>
+                    <div className="text-center p-2 rounded bg-slate-800/30">
+                      <div className="text-lg font-bold text-orange-400">
+                        {robot.availability === null ? '—' : `${Math.round(robot.availability * 100)}%`}
+                      </div>
+                      <div className="text-xs text-slate-500">Available</div>
+                    </div>
                   </div>
 
                   {/* Location */}
@@ -421,6 +539,10 @@ export default function RobotsPage() {
           </p>
         </motion.div>
       )}
+
+      {/* Service intervals and fault injection (live simulation only) */}
+      {isConnected && <MaintenancePanel />}
+      {isConnected && <ChaosPanel />}
     </div>
   );
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { use, useState, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -29,7 +29,7 @@ import {
 } from 'lucide-react';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
-import { useSimulation } from '@/lib/simulation-context';
+import { DEFAULT_ENVIRONMENT_ID, useSimulation } from '@/lib/simulation-context';
 
 // Dynamic imports to avoid SSR issues
 const ConstructionSimulation = dynamic(
@@ -95,11 +95,18 @@ interface Zone {
   bounds: { x: number; y: number; width: number; height: number };
   color: string;
   capacity?: number;
+  maxRobots?: number | null;
+  direction?: 'NORTH' | 'EAST' | 'SOUTH' | 'WEST' | null;
+  activeFrom?: string | null;
+  activeUntil?: string | null;
+  chargingDocks?: number | null;
+  chargingPower?: number | null;
   aiGenerated?: boolean;
   confidence?: number;
 }
 
-export default function SimulationPage() {
+export default function SimulationPage({ searchParams }: { searchParams: Promise<{ environment?: string }> }) {
+  const { environment: requestedEnvironment } = use(searchParams);
   const [uploadedMap, setUploadedMap] = useState<UploadedMap | null>(null);
   const [zones, setZones] = useState<Zone[]>([]);
   const [activeTab, setActiveTab] = useState<string>('3d-robot');
@@ -107,7 +114,14 @@ export default function SimulationPage() {
   const [floorPlanImage, setFloorPlanImage] = useState<string | null>(null);
 
   // WebSocket connection from SimulationProvider (shared context)
-  const { socket, state: simState } = useSimulation();
+  const { socket, state: simState, environmentId, joinEnvironment } = useSimulation();
+
+  // ?environment=<id> opens that environment's own simulation instance
+  useEffect(() => {
+    if (requestedEnvironment) {
+      joinEnvironment(requestedEnvironment);
+    }
+  }, [requestedEnvironment, joinEnvironment]);
 
   // Handle file upload - store the image for ZoneDrawingTool
   const handleMapUploaded = useCallback((file: { id: string; filePath: string; mapType: string }) => {
@@ -249,6 +263,12 @@ export default function SimulationPage() {
             <Sparkles className="w-3 h-3 mr-1" />
             Gemini AI
           </Badge>
+          {environmentId !== DEFAULT_ENVIRONMENT_ID && (
+            <Badge variant="outline" className="text-sky-400 border-sky-500/50" title={environmentId}>
+              <Map className="w-3 h-3 mr-1" />
+              {simState?.name || environmentId}
+            </Badge>
+          )}
           <Badge variant="outline" className="text-orange-400 border-orange-500/50">
             <Activity className="w-3 h-3 mr-1" />
             Live
@@ -419,6 +439,7 @@ export default function SimulationPage() {
               height={700}
               backgroundMap={uploadedMap?.filePath}
               externalZones={zones}
+              environmentId={environmentId}
             />
           </div>
         </TabsContent>
@@ -14,6 +14,7 @@ import {
   MoreVertical,
   ArrowRight,
   Clock,
+  Timer,
   MapPin,
   Bot,
   Play,
@@ -28,6 +29,8 @@ import {
   Loader2,
   Wifi,
   WifiOff,
+  GitBranch,
+  ShieldCheck,
 } from 'lucide-react';
 import Link from 'next/link';
 import {
@@ -52,7 +55,8 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
-import { useSimulation } from '@/lib/simulation-context';
+import { useSimulation, SimulationTask, simClock } from '@/lib/simulation-context';
+import TaskSchedulePanel from '@/components/simulation/TaskSchedulePanel';
 
 // All 17 object types matching the WebSocket server
 const OBJECT_TYPES = [
@@ -86,6 +90,9 @@ const ZONE_OPTIONS = [
   { value: 'zone-robot-home', label: 'Robot Home' },
 ];
 
+// Inspection detection probabilities offered in the Quality card
+const DETECTION_LEVELS = [0.5, 0.7, 0.85, 0.95, 1];
+
 const getStatusColor = (status: string) => {
   switch (status) {
     case 'IN_PROGRESS':
@@ -98,6 +105,8 @@ const getStatusColor = (status: string) => {
       return 'border-purple-500/50 text-purple-400 bg-purple-500/10';
     case 'FAILED':
       return 'border-red-500/50 text-red-400 bg-red-500/10';
+    case 'BLOCKED':
+      return 'border-orange-500/50 text-orange-400 bg-orange-500/10';
     default:
       return 'border-slate-500/50 text-slate-400 bg-slate-500/10';
   }
@@ -118,6 +127,19 @@ const getPriorityColor = (priority: string) => {
   }
 };
 
+// Step targets are an object/zone ID or, for waypoints, a position
+const describeTarget = (target?: string | { x: number; y: number }) => {
+  if (!target) return 'Unknown';
+  return typeof target === 'string' ? target : `(${Math.round(target.x)}, ${Math.round(target.y)})`;
+};
+
+/** A sim clock time relative to now, e.g. "in 5m" or "12m ago" */
+const describeOffset = (ms: number) => {
+  const minutes = Math.round(Math.abs(ms) / 60000);
+  const span = minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+  return ms >= 0 ? `in ${span}` : `${span} ago`;
+};
+
 export default function TasksPage() {
   const { state, isConnected, createTask, socket } = useSimulation();
   const [searchQuery, setSearchQuery] = useState('');
@@ -133,30 +155,58 @@ export default function TasksPage() {
     object: '',
     sourceZone: '',
     targetZone: '',
+    quantity: 6,
+    robotId: '',
+    chargeTo: 100,
     priority: 'NORMAL',
+    startInMinutes: '',
+    dueInMinutes: '',
     description: '',
   });
 
   // Use simulation data if connected
   const tasks = useMemo(() => {
     if (state?.tasks && state.tasks.length > 0) {
+      const now = simClock(state);
       return state.tasks.map(t => {
         const robot = state.robots.find(r => r.id === t.assignedRobotId);
         const obj = state.objects.find(o => o.id === t.objectId);
+        // Dependency graph edges in both directions, with the other end's status
+        const waitsFor = (t.dependsOn ?? []).map(id => ({
+          id,
+          status: state.tasks.find(d => d.id === id)?.status ?? 'UNKNOWN',
+        }));
+        const unblocks = state.tasks
+          .filter(d => d.dependsOn?.includes(t.id))
+          .map(d => ({ id: d.id, status: d.status }));
         return {
           id: t.id,
           type: t.type,
-          description: `Move ${obj?.name || t.objectId} to target zone`,
-          object: obj?.name || t.objectId,
-          sourceZone: t.steps[0]?.target || 'Unknown',
-          targetZone: t.steps[t.steps.length - 1]?.target || 'Unknown',
-          priority: 'NORMAL',
+          description: t.patrol
+            ? `${t.patrol.loop ? 'Loop' : 'Patrol'} ${t.patrol.checkpoints.length} checkpoints × ${t.patrol.repeat}`
+            : t.disposition === 'RETURN'
+              ? `Return ${obj?.name || t.objectId} to supplier`
+              : t.disposition === 'REWORK'
+                ? `Move ${obj?.name || t.objectId} to rework`
+                : `Move ${obj?.name || t.objectId} to target zone`,
+          object: t.patrol ? `${t.patrol.log.length} LiDAR scans` : obj?.name || t.objectId,
+          sourceZone: describeTarget(t.steps[0]?.target),
+          targetZone: describeTarget(t.steps[t.steps.length - 1]?.target),
+          priority: t.priority ?? 'NORMAL',
           status: t.status,
           robot: robot ? `${robot.id} (${robot.name})` : null,
           progress: Math.round((t.currentStep / Math.max(t.steps.length, 1)) * 100),
           estimatedTime: '~2 min',
           createdAt: new Date(t.createdAt).toLocaleTimeString(),
           aiScore: 0.9,
+          waitsFor,
+          unblocks,
+          failureReason: t.failureReason ?? null,
+          earliestStart: t.earliestStart ? describeOffset(t.earliestStart - now) : null,
+          dueBy: t.dueBy ? describeOffset(t.dueBy - now) : null,
+          // Seconds past the deadline for a completed task, 0 if it was on time
+          lateBy: t.dueBy && t.completedAt ? Math.max(0, Math.round((t.completedAt - t.dueBy) / 1000)) : null,
+          inspection: t.inspection ?? null,
         };
       });
     }
@@ -164,6 +214,8 @@ export default function TasksPage() {
     return [];
   }, [state]);
 
+  const inspections = (state?.metrics.inspectionsPassed ?? 0) + (state?.metrics.inspectionsFailed ?? 0);
+
   const filteredTasks = tasks.filter(
     (task) =>
       (task.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -195,7 +247,7 @@ export default function TasksPage() {
 
           if (matchingObjects.length > 0) {
             for (const obj of matchingObjects) {
-              createTask(obj.id, targetZoneId);
+              createTask(obj.id, targetZoneId, { priority: task.priority });
             }
           }
         }
@@ -208,19 +260,45 @@ export default function TasksPage() {
     setDialogOpen(false);
   };
 
+  // Transport moves a batch zone to zone (material optional); charge only needs a robot
+  const manualTaskIncomplete =
+    newTask.type === 'CHARGE' ? !newTask.robotId :
+    newTask.type === 'TRANSPORT' ? !newTask.sourceZone || !newTask.targetZone :
+    !newTask.object || !newTask.sourceZone || !newTask.targetZone;
+
   const handleManualCreateTask = async () => {
-    if (!newTask.object || !newTask.targetZone) return;
+    if (manualTaskIncomplete) return;
 
     setIsCreatingTask(true);
+    // Offsets from now on the sim clock, which runs at the simulation's own speed
+    const now = state ? simClock(state) : Date.now();
+    const times = {
+      earliestStart: newTask.startInMinutes ? now + Number(newTask.startInMinutes) * 60000 : null,
+      dueBy: newTask.dueInMinutes ? now + Number(newTask.dueInMinutes) * 60000 : null,
+    };
     try {
-      if (isConnected && state?.objects) {
+      if (newTask.type === 'TRANSPORT') {
+        socket?.emit('task:transport', {
+          sourceZoneId: newTask.sourceZone,
+          targetZoneId: newTask.targetZone,
+          objectType: newTask.object || undefined,
+          quantity: newTask.quantity,
+          priority: newTask.priority,
+          ...times,
+        });
+      } else if (newTask.type === 'CHARGE') {
+        socket?.emit('task:charge', { robotId: newTask.robotId, targetLevel: newTask.chargeTo, priority: newTask.priority, ...times });
+      } else if (isConnected && state?.objects) {
         // Find an AVAILABLE object of the selected type, preferring objects in the source zone
         const availableObjects = state.objects.filter(
           (o: any) => o.status === 'AVAILABLE' && o.type === newTask.object
         );
 
         if (availableObjects.length > 0) {
-          createTask(availableObjects[0].id, newTask.targetZone);
+          createTask(availableObjects[0].id, newTask.targetZone, {
+            priority: newTask.priority as SimulationTask['priority'],
+            ...times,
+          });
         }
       }
     } catch (err) {
@@ -233,7 +311,12 @@ export default function TasksPage() {
       object: '',
       sourceZone: '',
       targetZone: '',
+      quantity: 6,
+      robotId: '',
+      chargeTo: 100,
       priority: 'NORMAL',
+      startInMinutes: '',
+      dueInMinutes: '',
       description: '',
     });
   };
@@ -352,6 +435,7 @@ export default function TasksPage() {
                       <SelectItem value="SORT_MATERIALS">Sort Materials</SelectItem>
                       <SelectItem value="ASSEMBLE">Assemble</SelectItem>
                       <SelectItem value="INSPECT">Inspect</SelectItem>
+                      <SelectItem value="CHARGE">Charge</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -371,53 +455,124 @@ export default function TasksPage() {
                   </Select>
                 </div>
 
-                <div className="space-y-2">
-                  <Label className="text-slate-400">Object to Pick</Label>
-                  <Select value={newTask.object} onValueChange={(v) => setNewTask({...newTask, object: v})}>
-                    <SelectTrigger className="bg-slate-800 border-slate-700">
-                      <SelectValue placeholder="Select object..." />
-                    </SelectTrigger>
-                    <SelectContent className="bg-slate-900 border-slate-700 max-h-60">
-                      {OBJECT_TYPES.map((obj) => {
-                        const count = state?.objects?.filter(
-                          (o: any) => o.status === 'AVAILABLE' && o.type === obj.value
-                        ).length || 0;
-                        return (
-                          <SelectItem key={obj.value} value={obj.value}>
-                            {obj.label}{isConnected ? ` (${count})` : ''}
-                          </SelectItem>
-                        );
-                      })}
-                    </SelectContent>
-                  </Select>
-                </div>
+                {newTask.type === 'CHARGE' ? (
+                  <>
+                    <div className="space-y-2">
+                      <Label className="text-slate-400">Robot</Label>
+                      <Select value={newTask.robotId} onValueChange={(v) => setNewTask({...newTask, robotId: v})}>
+                        <SelectTrigger className="bg-slate-800 border-slate-700">
+                          <SelectValue placeholder="Select robot..." />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-900 border-slate-700">
+                          {state?.robots.map((robot) => (
+                            <SelectItem key={robot.id} value={robot.id}>
+                              {robot.name} ({Math.round(robot.battery)}%)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label className="text-slate-400">Charge To (%)</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={newTask.chargeTo}
+                        onChange={(e) => setNewTask({...newTask, chargeTo: Math.min(100, Math.max(1, Math.round(Number(e.target.value) || 100)))})}
+                        className="bg-slate-800 border-slate-700"
+                      />
+                    </div>
+                  </>
+                ) : (
+                  <>
+                  <div className="space-y-2">
+                    <Label className="text-slate-400">{newTask.type === 'TRANSPORT' ? 'Material (Optional)' : 'Object to Pick'}</Label>
+                    <Select value={newTask.object} onValueChange={(v) => setNewTask({...newTask, object: v})}>
+                      <SelectTrigger className="bg-slate-800 border-slate-700">
+                        <SelectValue placeholder="Select object..." />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-900 border-slate-700 max-h-60">
+                        {OBJECT_TYPES.map((obj) => {
+                          const count = state?.objects?.filter(
+                            (o: any) => o.status === 'AVAILABLE' && o.type === obj.value
+                          ).length || 0;
+                          return (
+                            <SelectItem key={obj.value} value={obj.value}>
+                              {obj.label}{isConnected ? ` (${count})` : ''}
+                            </SelectItem>
+                          );
+                        })}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {newTask.type === 'TRANSPORT' && (
+                    <div className="space-y-2">
+                      <Label className="text-slate-400">Quantity</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={newTask.quantity}
+                        onChange={(e) => setNewTask({...newTask, quantity: Math.max(1, Math.round(Number(e.target.value) || 1))})}
+                        className="bg-slate-800 border-slate-700"
+                      />
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label className="text-slate-400">Source Zone</Label>
+                    <Select value={newTask.sourceZone} onValueChange={(v) => setNewTask({...newTask, sourceZone: v})}>
+                      <SelectTrigger className="bg-slate-800 border-slate-700">
+                        <SelectValue placeholder="Select zone..." />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-900 border-slate-700">
+                        {ZONE_OPTIONS.map((zone) => (
+                          <SelectItem key={zone.value} value={zone.value}>{zone.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className={`space-y-2 ${newTask.type === 'TRANSPORT' ? '' : 'col-span-2'}`}>
+                    <Label className="text-slate-400">Target Zone</Label>
+                    <Select value={newTask.targetZone} onValueChange={(v) => setNewTask({...newTask, targetZone: v})}>
+                      <SelectTrigger className="bg-slate-800 border-slate-700">
+                        <SelectValue placeholder="Select destination..." />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-900 border-slate-700">
+                        {ZONE_OPTIONS.map((zone) => (
+                          <SelectItem key={zone.value} value={zone.value}>{zone.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  </>
+                )}
 
                 <div className="space-y-2">
-                  <Label className="text-slate-400">Source Zone</Label>
-                  <Select value={newTask.sourceZone} onValueChange={(v) => setNewTask({...newTask, sourceZone: v})}>
-                    <SelectTrigger className="bg-slate-800 border-slate-700">
-                      <SelectValue placeholder="Select zone..." />
-                    </SelectTrigger>
-                    <SelectContent className="bg-slate-900 border-slate-700">
-                      {ZONE_OPTIONS.map((zone) => (
-                        <SelectItem key={zone.value} value={zone.value}>{zone.label}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <Label className="text-slate-400">Start In (sim minutes)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="Now"
+                    value={newTask.startInMinutes}
+                    onChange={(e) => setNewTask({...newTask, startInMinutes: e.target.value})}
+                    className="bg-slate-800 border-slate-700"
+                  />
                 </div>
 
-                <div className="space-y-2 col-span-2">
-                  <Label className="text-slate-400">Target Zone</Label>
-                  <Select value={newTask.targetZone} onValueChange={(v) => setNewTask({...newTask, targetZone: v})}>
-                    <SelectTrigger className="bg-slate-800 border-slate-700">
-                      <SelectValue placeholder="Select destination..." />
-                    </SelectTrigger>
-                    <SelectContent className="bg-slate-900 border-slate-700">
-                      {ZONE_OPTIONS.map((zone) => (
-                        <SelectItem key={zone.value} value={zone.value}>{zone.label}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                <div className="space-y-2">
+                  <Label className="text-slate-400">Due In (sim minutes)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="No deadline"
+                    value={newTask.dueInMinutes}
+                    onChange={(e) => setNewTask({...newTask, dueInMinutes: e.target.value})}
+                    className="bg-slate-800 border-slate-700"
+                  />
                 </div>
 
                 <div className="space-y-2 col-span-2">
@@ -433,7 +588,7 @@ export default function TasksPage() {
 
               <Button 
                 onClick={handleManualCreateTask}
-                disabled={isCreatingTask || !newTask.object || !newTask.sourceZone || !newTask.targetZone}
+                disabled={isCreatingTask || manualTaskIncomplete}
                 className="w-full bg-slate-700 hover:bg-slate-600"
               >
                 {isCreatingTask ? (
@@ -471,7 +626,7 @@ export default function TasksPage() {
           />
         </div>
         <div className="flex items-center gap-2 flex-wrap">
-          {['all', 'PENDING', 'ASSIGNED', 'IN_PROGRESS', 'COMPLETED'].map((status) => (
+          {['all', 'BLOCKED', 'PENDING', 'ASSIGNED', 'IN_PROGRESS', 'COMPLETED', 'FAILED'].map((status) => (
             <Button
               key={status}
               variant="outline"
@@ -494,7 +649,7 @@ export default function TasksPage() {
         initial={{ y: 20, opacity: 0 }}
         animate={{ y: 0, opacity: 1 }}
         transition={{ duration: 0.5, delay: 0.2 }}
-        className="grid grid-cols-2 md:grid-cols-4 gap-4"
+        className="grid grid-cols-2 md:grid-cols-6 gap-4"
       >
         <Card className="bg-slate-900/50 border-slate-800">
           <CardContent className="p-4">
@@ -538,8 +693,56 @@ export default function TasksPage() {
             </div>
           </CardContent>
         </Card>
+        <Card className="bg-slate-900/50 border-slate-800">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <Timer className="w-4 h-4 text-cyan-400" />
+              <span className="text-sm text-slate-400">On Time</span>
+            </div>
+            <div className="text-2xl font-bold text-cyan-400">
+              {Math.round((state?.metrics.onTimeRate ?? 1) * 100)}%
+            </div>
+            <div className="text-xs text-slate-500">
+              {state?.metrics.lateTasks ?? 0} late, {state?.metrics.atRiskTasks ?? 0} at risk
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="bg-slate-900/50 border-slate-800">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <ShieldCheck className="w-4 h-4 text-emerald-400" />
+              <span className="text-sm text-slate-400">Inspections Passed</span>
+            </div>
+            <div className="text-2xl font-bold text-emerald-400">
+              {inspections > 0 ? `${Math.round((state!.metrics.inspectionsPassed / inspections) * 100)}%` : '—'}
+            </div>
+            <div className="flex items-center gap-1 text-xs text-slate-500">
+              <span>{state?.metrics.defectsDetected ?? 0} defects found, detecting</span>
+              <Select
+                value={String(state?.quality?.detectionProbability ?? 0.85)}
+                onValueChange={(v) => socket?.emit('quality:configure', { detectionProbability: Number(v) })}
+                disabled={!socket}
+              >
+                <SelectTrigger className="h-5 w-16 px-1 text-xs bg-slate-800 border-slate-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-900 border-slate-700">
+                  {DETECTION_LEVELS.map(level => (
+                    <SelectItem key={level} value={String(level)}>{Math.round(level * 100)}%</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
       </motion.div>
 
+      {/* Recurring Tasks */}
+      <TaskSchedulePanel
+        objectTypes={OBJECT_TYPES}
+        zoneOptions={state?.zones.length ? state.zones.map(z => ({ value: z.id, label: z.name })) : ZONE_OPTIONS}
+      />
+
       {/* Task Cards */}
       <div className="space-y-4">
         {filteredTasks.map((task, index) => (
@@ -587,6 +790,65 @@ export default function TasksPage() {
                         <span className="text-blue-400">{task.robot}</span>
                       </div>
                     )}
+
+                    {(task.waitsFor.length > 0 || task.unblocks.length > 0) && (
+                      <div className="space-y-1 text-xs">
+                        {task.waitsFor.length > 0 && (
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <GitBranch className="w-3 h-3 text-orange-400" />
+                            <span className="text-slate-500">Waits for</span>
+                            {task.waitsFor.map(dep => (
+                              <Badge key={dep.id} variant="outline" className={`font-mono ${getStatusColor(dep.status)}`}>
+                                {dep.id}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        {task.unblocks.length > 0 && (
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <ArrowRight className="w-3 h-3 text-slate-500" />
+                            <span className="text-slate-500">Unblocks</span>
+                            {task.unblocks.map(dep => (
+                              <Badge key={dep.id} variant="outline" className={`font-mono ${getStatusColor(dep.status)}`}>
+                                {dep.id}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {(task.earliestStart || task.dueBy) && (
+                      <div className="flex items-center gap-2 text-xs">
+                        <Clock className="w-3 h-3 text-slate-500" />
+                        {task.earliestStart && <span className="text-slate-500">Starts {task.earliestStart}</span>}
+                        {task.dueBy && <span className="text-slate-400">Due {task.dueBy}</span>}
+                        {task.lateBy !== null && (
+                          <Badge variant="outline" className={task.lateBy > 0 ? getStatusColor('FAILED') : getStatusColor('COMPLETED')}>
+                            {task.lateBy > 0 ? `Late by ${task.lateBy}s` : 'On time'}
+                          </Badge>
+                        )}
+                      </div>
+                    )}
+
+                    {task.inspection && (
+                      <div className="flex items-center gap-2 text-xs flex-wrap">
+                        <ShieldCheck className="w-3 h-3 text-slate-500" />
+                        <Badge variant="outline" className={getStatusColor(task.inspection.result === 'PASS' ? 'COMPLETED' : 'FAILED')}>
+                          {task.inspection.result}
+                        </Badge>
+                        <span className="text-slate-500">{task.inspection.objectIds.length} checked</span>
+                        {task.inspection.findings.map(finding => (
+                          <Badge key={finding.objectId} variant="outline" className="border-red-500/50 text-red-400">
+                            {finding.defects.map(d => d.toLowerCase().replace(/_/g, ' ')).join(', ')} → {finding.disposition === 'RETURN' ? 'return' : 'rework'}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+
+                    {task.status === 'FAILED' && task.failureReason && (
+                      <p className="text-xs text-red-400">{task.failureReason}</p>
+                    )}
                   </div>
 
                   {/* Right: Progress & Actions */}
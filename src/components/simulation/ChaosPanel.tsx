@@ -0,0 +1,175 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Flame, Zap } from 'lucide-react';
+import { ChaosSettings, FaultKind, simClock, useSimulation } from '@/lib/simulation-context';
+
+const FAULTS: { kind: FaultKind; label: string; description: string; perPick?: boolean; timed?: boolean }[] = [
+  { kind: 'BREAKDOWN', label: 'Breakdown', description: 'Robot stops with a fault code until its recovery is done' },
+  { kind: 'DROPPED_OBJECT', label: 'Dropped Load', description: 'A carrying robot loses its load mid-route' },
+  { kind: 'PICK_FAILURE', label: 'Pick Failure', description: 'A pick misses and the task retries', perPick: true },
+  { kind: 'LIDAR_DROPOUT', label: 'LiDAR Dropout', description: 'No scan data; the robot creeps at 30% speed', timed: true },
+  { kind: 'BLOCKED_AISLE', label: 'Blocked Aisle', description: 'A barrier drops on a route in use', timed: true },
+  { kind: 'BATTERY_CELL_FAILURE', label: 'Battery Cell', description: 'A dead cell cuts battery capacity by 25%' },
+];
+
+/** Sim clock ms ⇄ datetime-local value, like restricted-area windows */
+function toLocalInput(time: number | null): string {
+  if (time === null) return '';
+  const date = new Date(time);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): number | null {
+  return value ? Date.parse(value) : null;
+}
+
+/**
+ * Chaos mode for stress-testing recovery: each fault strikes at random with
+ * its own probability inside an optional time window, or can be injected on
+ * the spot. Settings live on the simulation server only.
+ */
+export default function ChaosPanel() {
+  const { state, socket } = useSimulation();
+  const chaos = state?.chaos;
+  const recent = (state?.faults ?? []).slice().sort((a, b) => b.startedAt - a.startedAt).slice(0, 8);
+  const robotName = (id: string | null) => state?.robots.find(r => r.id === id)?.name ?? id;
+
+  const configure = (kind: FaultKind, changes: Partial<ChaosSettings['faults'][FaultKind]>) => {
+    socket?.emit('chaos:configure', { faults: { [kind]: changes } });
+  };
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-white flex items-center gap-2">
+              <Flame className="w-5 h-5 text-red-400" />
+              Chaos Mode
+            </CardTitle>
+            <CardDescription className="text-slate-400">
+              Inject faults to see how the fleet recovers. Failed tasks retry up to their limit before failing for good.
+            </CardDescription>
+          </div>
+          <Switch
+            checked={chaos?.enabled ?? false}
+            disabled={!socket || !chaos}
+            onCheckedChange={(enabled) => socket?.emit('chaos:configure', { enabled })}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2 text-xs">
+          <Badge variant="outline" className="border-red-500/50 text-red-400">
+            {state?.metrics.faultsInjected ?? 0} faults injected
+          </Badge>
+          <Badge variant="outline" className="border-amber-500/50 text-amber-400">
+            {state?.metrics.taskRetries ?? 0} task retries
+          </Badge>
+          <Badge variant="outline" className="border-slate-600 text-slate-300">
+            {state?.robots.filter(r => r.status === 'ERROR').length ?? 0} robots down
+          </Badge>
+          {state && (
+            <Badge variant="outline" className="border-slate-600 text-slate-400 ml-auto">
+              Sim clock {new Date(simClock(state)).toLocaleString()}
+            </Badge>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {FAULTS.map(({ kind, label, description, perPick, timed }) => {
+            const setting = chaos?.faults[kind];
+            return (
+              <div key={kind} className="grid grid-cols-2 md:grid-cols-12 gap-2 items-end p-3 rounded-lg bg-slate-800/50 border border-slate-700">
+                <div className="col-span-2 md:col-span-3">
+                  <div className="text-white text-sm font-medium">{label}</div>
+                  <div className="text-xs text-slate-500">{description}</div>
+                </div>
+                <div className="space-y-1 md:col-span-2">
+                  <Label className="text-slate-400 text-xs">{perPick ? '% per pick' : '% per minute'}</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.5}
+                    value={setting ? Math.round(setting.probability * 1000) / 10 : ''}
+                    disabled={!setting}
+                    onChange={(e) => configure(kind, { probability: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100 })}
+                    className="h-8 bg-slate-800 border-slate-700"
+                  />
+                </div>
+                <div className="space-y-1 md:col-span-2">
+                  <Label className="text-slate-400 text-xs">Lasts (s)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={timed && setting ? setting.durationSeconds : ''}
+                    disabled={!timed || !setting}
+                    onChange={(e) => configure(kind, { durationSeconds: Math.max(0, Number(e.target.value) || 0) })}
+                    className="h-8 bg-slate-800 border-slate-700"
+                  />
+                </div>
+                <div className="space-y-1 md:col-span-2">
+                  <Label className="text-slate-400 text-xs">From</Label>
+                  <Input
+                    type="datetime-local"
+                    value={toLocalInput(setting?.activeFrom ?? null)}
+                    disabled={!setting}
+                    onChange={(e) => configure(kind, { activeFrom: fromLocalInput(e.target.value) })}
+                    className="h-8 bg-slate-800 border-slate-700"
+                  />
+                </div>
+                <div className="space-y-1 md:col-span-2">
+                  <Label className="text-slate-400 text-xs">Until</Label>
+                  <Input
+                    type="datetime-local"
+                    value={toLocalInput(setting?.activeUntil ?? null)}
+                    disabled={!setting}
+                    onChange={(e) => configure(kind, { activeUntil: fromLocalInput(e.target.value) })}
+                    className="h-8 bg-slate-800 border-slate-700"
+                  />
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!socket}
+                  onClick={() => socket?.emit('fault:inject', { kind })}
+                  className="h-8 md:col-span-1 border-red-500/50 text-red-400 hover:text-red-300"
+                >
+                  <Zap className="w-3 h-3 mr-1" />
+                  Inject
+                </Button>
+              </div>
+            );
+          })}
+          <p className="text-xs text-slate-500">From and Until are read on the simulation clock, which runs at the sim speed and stops while paused, and so do fault durations.</p>
+        </div>
+
+        {recent.length > 0 ? (
+          <div className="space-y-1">
+            {recent.map(fault => (
+              <div key={fault.id} className="flex items-center gap-2 text-xs py-1 px-2 rounded bg-slate-800/50">
+                <Badge
+                  variant="outline"
+                  className={fault.active ? 'border-red-500/50 text-red-400' : 'border-slate-600 text-slate-500'}
+                >
+                  {fault.active ? 'ACTIVE' : 'ENDED'}
+                </Badge>
+                <span className="text-slate-300 truncate">{fault.detail}</span>
+                {fault.robotId && <span className="text-slate-500 ml-auto flex-shrink-0">{robotName(fault.robotId)}</span>}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">No faults yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
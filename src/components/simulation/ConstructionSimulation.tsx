@@ -4,6 +4,7 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Slider } from '@/components/ui/slider';
 import {
@@ -24,9 +25,17 @@ import {
   Layers,
   Tag,
   Sparkles,
+  History,
+  X,
+  Construction,
+  Trash2,
+  Route,
+  BatteryCharging,
 } from 'lucide-react';
 import { io, Socket } from 'socket.io-client';
 import { getWebSocketUrl } from '@/lib/websocket-url';
+import { StateStream, subscribeStateStream } from '@/lib/state-stream';
+import { DEFAULT_ENVIRONMENT_ID, simClock } from '@/lib/simulation-context';
 import {
   Select,
   SelectContent,
@@ -56,6 +65,12 @@ interface GripperState {
   gripForce: number;
 }
 
+interface CargoBay {
+  objects: string[];
+  slots: number;
+  maxVolume: number;
+}
+
 interface ArmState {
   joints: number[];
   endEffectorPose: Vector2D;
@@ -63,7 +78,7 @@ interface ArmState {
   targetPose: Vector2D | null;
 }
 
-type RobotStatus = 'IDLE' | 'MOVING' | 'PICKING' | 'PLACING' | 'CARRYING' | 'CHARGING' | 'ERROR';
+type RobotStatus = 'IDLE' | 'MOVING' | 'PICKING' | 'PLACING' | 'CARRYING' | 'SCANNING' | 'CHARGING' | 'ERROR' | 'MAINTENANCE';
 
 interface Robot {
   id: string;
@@ -74,11 +89,15 @@ interface Robot {
   speed: number;
   maxSpeed: number;
   angularSpeed: number;
+  acceleration: number;
+  currentSpeed: number;
+  payloadCapacity: number; // kg
   battery: number;
   maxBattery: number;
   batteryDrainRate: number;
   arm: ArmState | null;
   gripper: GripperState | null;
+  cargo: CargoBay | null;
   status: RobotStatus;
   currentTaskId: string | null;
   path: Vector2D[];
@@ -86,6 +105,8 @@ interface Robot {
   tasksCompleted: number;
   distanceTraveled: number;
   pickSuccessRate: number;
+  fault: { code: string; description: string; recovery: 'AUTO_RESET' | 'OPERATOR_ACK' | 'TECHNICIAN' } | null;
+  serviceDue: boolean;
   lidarPoints: Vector2D[];
   cameraView: string | null;
 }
@@ -123,6 +144,8 @@ interface ConstructionObject {
   pickedBy: string | null;
   targetZone: string | null;
   color: string;
+  condition: number;
+  qcStatus: 'UNINSPECTED' | 'PASSED' | 'FAILED';
 }
 
 type ZoneType =
@@ -133,7 +156,11 @@ type ZoneType =
   | 'WORK_ZONE'
   | 'RESTRICTED_AREA'
   | 'INSPECTION_POINT'
-  | 'ROBOT_HOME';
+  | 'ROBOT_HOME'
+  | 'ONE_WAY_LANE'
+  | 'INTERSECTION';
+
+type LaneDirection = 'NORTH' | 'EAST' | 'SOUTH' | 'WEST';
 
 interface Zone {
   id: string;
@@ -144,6 +171,16 @@ interface Zone {
   capacity: number;
   currentOccupancy: number;
   objects: string[];
+  slots?: { objectId: string; taskId: string | null; bounds: { x: number; y: number; width: number; height: number } }[];
+  maxRobots?: number | null;
+  direction?: LaneDirection | null;
+  activeFrom?: number | null;
+  activeUntil?: number | null;
+  robots?: string[];
+  queue?: string[];
+  docks?: (string | null)[];
+  chargeQueue?: string[];
+  chargingPower?: number | null;
 }
 
 interface Obstacle {
@@ -160,17 +197,28 @@ type TaskType =
   | 'SORT_MATERIALS'
   | 'ASSEMBLE'
   | 'INSPECT'
-  | 'CHARGE';
+  | 'CHARGE'
+  | 'PATROL';
 
-type TaskStatus = 'PENDING' | 'ASSIGNED' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+type TaskStatus = 'BLOCKED' | 'PENDING' | 'ASSIGNED' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
 type TaskPriority = 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT';
 
 interface TaskStep {
-  action: 'MOVE_TO' | 'PICK_OBJECT' | 'PLACE_OBJECT' | 'WAIT' | 'ROTATE' | 'INSPECT';
+  action: 'MOVE_TO' | 'PICK_OBJECT' | 'PLACE_OBJECT' | 'WAIT' | 'ROTATE' | 'INSPECT' | 'SCAN' | 'LOAD' | 'CHARGE';
   target: Vector2D | string;
   completed: boolean;
   startTime: number | null;
   endTime: number | null;
+  duration?: number;
+  checkpoint?: { index: number; pass: number };
+  level?: number;
+}
+
+interface PatrolRoute {
+  checkpoints: { position: Vector2D; name?: string; dwellSeconds: number }[];
+  loop: boolean;
+  repeat: number;
+  log: { checkpoint: number; pass: number; scan: { timestamp: number; points: Vector2D[] } }[];
 }
 
 interface Task {
@@ -184,10 +232,17 @@ interface Task {
   targetZone: string | null;
   steps: TaskStep[];
   currentStep: number;
+  dependsOn: string[];
   createdAt: number;
   startedAt: number | null;
   completedAt: number | null;
   estimatedDuration: number;
+  earliestStart: number | null;
+  dueBy: number | null;
+  patrol: PatrolRoute | null;
+  inspection: { result: 'PASS' | 'FAIL'; objectIds: string[]; findings: { objectId: string; disposition: 'REWORK' | 'RETURN' }[] } | null;
+  disposition: 'REWORK' | 'RETURN' | null;
+  reservedFor: string | null;
   aiScore: number;
   aiReasoning: string;
 }
@@ -204,7 +259,10 @@ interface SimulationState {
   obstacles: Obstacle[];
   tasks: Task[];
   tick: number;
+  simTime: number;
+  clockStart?: number;
   timeMultiplier: number;
+  seed: number | null;
   metrics: {
     totalTasksCreated: number;
     totalTasksCompleted: number;
@@ -212,9 +270,58 @@ interface SimulationState {
     averageTaskTime: number;
     fleetEfficiency: number;
     pickSuccessRate: number;
+    nearMisses: number;
+    restrictedAreaViolations: number;
+    onTimeTasks: number;
+    lateTasks: number;
+    onTimeRate: number;
+    averageLateness: number;
+    atRiskTasks: number;
+    inspectionsPassed: number;
+    inspectionsFailed: number;
+    defectsDetected: number;
+    defectsMissed: number;
+    faultsInjected: number;
+    taskRetries: number;
+    faultsRaised: number;
+    servicesCompleted: number;
+    faultDowntime: number;
+    maintenanceDowntime: number;
+    fleetAvailability: number;
   };
 }
 
+// Session replay (matching server session-recorder types)
+interface SessionHeader {
+  id: string;
+  environmentId: string;
+  name: string;
+  seed: number | null;
+  startedAt: number;
+}
+
+interface SessionCommand {
+  tick: number;
+  simTime: number;
+  wallTime: number;
+  socketId: string | null;
+  event: string;
+  payload: unknown;
+}
+
+interface SessionFrame {
+  tick: number;
+  simTime: number;
+  wallTime: number;
+  state: SimulationState;
+}
+
+interface SessionLog {
+  header: SessionHeader;
+  commands: SessionCommand[];
+  frames: SessionFrame[];
+}
+
 // ============================================
 // COLORS & CONSTANTS
 // ============================================
@@ -225,8 +332,10 @@ const STATUS_COLORS: Record<RobotStatus, string> = {
   PICKING: '#f59e0b',
   PLACING: '#8b5cf6',
   CARRYING: '#22c55e',
+  SCANNING: '#14b8a6',
   CHARGING: '#06b6d4',
-  ERROR: '#ef4444'
+  ERROR: '#ef4444',
+  MAINTENANCE: '#f97316'
 };
 
 const ZONE_COLORS: Record<ZoneType, string> = {
@@ -238,8 +347,55 @@ const ZONE_COLORS: Record<ZoneType, string> = {
   RESTRICTED_AREA: 'rgba(239, 68, 68, 0.3)',
   INSPECTION_POINT: 'rgba(236, 72, 153, 0.3)',
   ROBOT_HOME: 'rgba(16, 185, 129, 0.3)',
+  ONE_WAY_LANE: 'rgba(148, 163, 184, 0.25)',
+  INTERSECTION: 'rgba(250, 204, 21, 0.25)',
+};
+
+const LANE_ANGLES: Record<LaneDirection, number> = {
+  NORTH: -Math.PI / 2,
+  EAST: 0,
+  SOUTH: Math.PI / 2,
+  WEST: Math.PI,
 };
 
+/** Whether a restricted area keeps robots out at `now` on the server's sim clock */
+function isKeepOutActive(zone: Pick<Zone, 'type' | 'activeFrom' | 'activeUntil'>, now: number): boolean {
+  if (zone.type !== 'RESTRICTED_AREA') return false;
+  return (zone.activeFrom == null || now >= zone.activeFrom) && (zone.activeUntil == null || now < zone.activeUntil);
+}
+
+/** Centre of charging dock `index`, laid out as the server does: evenly along the station's longer side */
+function dockPosition(zone: Pick<Zone, 'bounds' | 'docks'>, index: number): Vector2D {
+  const { x, y, width, height } = zone.bounds;
+  const along = (index + 0.5) / (zone.docks?.length || 1);
+  return width >= height
+    ? { x: x + width * along, y: y + height / 2 }
+    : { x: x + width / 2, y: y + height * along };
+}
+
+/** Objects a robot has on board: in its gripper or its cargo bay */
+function carriedObjectIds(robot: Robot): string[] {
+  const held = robot.gripper?.heldObject ? [robot.gripper.heldObject] : [];
+  return robot.cargo ? [...held, ...robot.cargo.objects] : held;
+}
+
+// Obstacle types available in the obstacle editor
+const OBSTACLE_TYPES: Array<{ type: Obstacle['type']; label: string }> = [
+  { type: 'TEMPORARY_BARRIER', label: 'Temporary Barrier' },
+  { type: 'EQUIPMENT', label: 'Equipment / Pallet' },
+  { type: 'SCAFFOLDING', label: 'Scaffolding' },
+  { type: 'PILLAR', label: 'Pillar' },
+  { type: 'WALL', label: 'Wall' },
+];
+
+// In-progress mouse drag of the obstacle editor: drawing a new obstacle or moving one
+interface ObstacleDrag {
+  kind: 'draw' | 'move';
+  start: Vector2D;
+  current: Vector2D;
+  obstacleId?: string;
+}
+
 // Material types available for Add Material feature
 const MATERIAL_TYPES: Array<{ type: ObjectType; label: string; color: string }> = [
   { type: 'STEEL_BEAM', label: 'Steel Beam', color: '#64748b' },
@@ -261,6 +417,34 @@ const MATERIAL_TYPES: Array<{ type: ObjectType; label: string; color: string }>
   { type: 'MIXED_MATERIAL', label: 'Mixed Material', color: '#71717a' },
 ];
 
+// ============================================
+// REPLAY HELPERS
+// ============================================
+
+/** Latest frame at or before `time` (binary search — frames are in simTime order) */
+function findReplayFrame(frames: SessionFrame[], time: number): SessionFrame | null {
+  let lo = 0;
+  let hi = frames.length - 1;
+  let found: SessionFrame | null = frames[0] ?? null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (frames[mid].simTime <= time) {
+      found = frames[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+function formatSimTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
 // ============================================
 // OBJECT SHAPE DRAWING FUNCTIONS
 // ============================================
@@ -455,6 +639,12 @@ interface ExternalZone {
   bounds: { x: number; y: number; width: number; height: number };
   color: string;
   capacity?: number;
+  maxRobots?: number | null;
+  direction?: LaneDirection | null;
+  activeFrom?: string | null; // ISO timestamps of a restricted area's keep-out window
+  activeUntil?: string | null;
+  chargingDocks?: number | null;
+  chargingPower?: number | null;
   aiGenerated?: boolean;
   confidence?: number;
 }
@@ -464,9 +654,10 @@ interface SimulationCanvasProps {
   height?: number;
   backgroundMap?: string; // URL to uploaded map image
   externalZones?: ExternalZone[];
+  environmentId?: string; // simulation instance to join on the server
 }
 
-export default function ConstructionSimulation({ width = 1000, height = 800, backgroundMap, externalZones }: SimulationCanvasProps) {
+export default function ConstructionSimulation({ width = 1000, height = 800, backgroundMap, externalZones, environmentId = DEFAULT_ENVIRONMENT_ID }: SimulationCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const canvasContainerRef = useRef<HTMLDivElement>(null);
   const backgroundImageRef = useRef<HTMLImageElement | null>(null);
@@ -474,6 +665,8 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
   const [isConnected, setIsConnected] = useState(false);
   const [state, setState] = useState<SimulationState | null>(null);
   const zonesSyncedRef = useRef(false);
+  const stateStreamRef = useRef<StateStream | null>(null);
+  const environmentIdRef = useRef(DEFAULT_ENVIRONMENT_ID);
   
   // UI State
   const [zoom, setZoom] = useState(1);
@@ -493,13 +686,38 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
   const [taskObjectId, setTaskObjectId] = useState<string>('');
   const [taskTargetZone, setTaskTargetZone] = useState<string>('');
   const [taskRobotId, setTaskRobotId] = useState<string>('auto');
+  const [taskPriority, setTaskPriority] = useState<TaskPriority>('NORMAL');
   const [bulkMode, setBulkMode] = useState(false);
   const [selectedBulkObjects, setSelectedBulkObjects] = useState<string[]>([]);
+  const [batchPickups, setBatchPickups] = useState(false);
 
   // Add Material state
   const [addMaterialType, setAddMaterialType] = useState<string>('');
   const [addMaterialZone, setAddMaterialZone] = useState<string>('');
 
+  // Obstacle editor state
+  const [obstacleMode, setObstacleMode] = useState(false);
+  const [newObstacleType, setNewObstacleType] = useState<Obstacle['type']>('TEMPORARY_BARRIER');
+  const [selectedObstacle, setSelectedObstacle] = useState<string | null>(null);
+  const [obstacleDrag, setObstacleDrag] = useState<ObstacleDrag | null>(null);
+
+  // Patrol planner state — checkpoints are clicked onto the map in visiting order
+  const [patrolMode, setPatrolMode] = useState(false);
+  const [patrolPoints, setPatrolPoints] = useState<Vector2D[]>([]);
+  const [patrolLoop, setPatrolLoop] = useState(true);
+  const [patrolRepeat, setPatrolRepeat] = useState(1);
+  const [patrolDwell, setPatrolDwell] = useState(5);
+
+  // Replay state — while replaying, live broadcasts are buffered in liveStateRef
+  const [replayMode, setReplayMode] = useState(false);
+  const [replaySessions, setReplaySessions] = useState<SessionHeader[]>([]);
+  const [replaySession, setReplaySession] = useState<SessionLog | null>(null);
+  const [replayTime, setReplayTime] = useState(0);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  const replayModeRef = useRef(false);
+  const replayTimeRef = useRef(0);
+  const liveStateRef = useRef<SimulationState | null>(null);
+
   // ============================================
   // ZONE SYNC: Send external zones to WebSocket server
   // ============================================
@@ -542,6 +760,12 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
           bounds: pixelBounds,
           color: z.color,
           capacity: z.capacity || 15,
+          maxRobots: z.maxRobots ?? null,
+          direction: z.direction ?? null,
+          activeFrom: z.activeFrom ? Date.parse(z.activeFrom) : null,
+          activeUntil: z.activeUntil ? Date.parse(z.activeUntil) : null,
+          chargingDocks: z.chargingDocks ?? null,
+          chargingPower: z.chargingPower ?? null,
         };
       });
 
@@ -570,6 +794,8 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
       reconnectionDelay: 1000,
       timeout: 20000,
       autoConnect: true,
+      // Read on every (re)connect so the server puts us back in the same environment
+      auth: (cb) => cb({ environmentId: environmentIdRef.current }),
     });
 
     socketInstance.on('connect', () => {
@@ -588,8 +814,33 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
       console.log('🔌 Disconnected:', reason);
     });
 
-    socketInstance.on('simulation:state', (data: SimulationState) => {
-      setState(data);
+    const handleLiveState = (data: SimulationState) => {
+      liveStateRef.current = data;
+      if (!replayModeRef.current) {
+        setState(data);
+      }
+    };
+
+    // Full state arrives once on connect; after that only binary deltas are streamed
+    socketInstance.on('simulation:state', handleLiveState);
+    stateStreamRef.current = subscribeStateStream<SimulationState>(
+      socketInstance,
+      { encoding: 'msgpack', lidar: false },
+      handleLiveState,
+    );
+
+    socketInstance.on('replay:sessions', (data: { sessions: SessionHeader[] }) => {
+      setReplaySessions(data.sessions);
+    });
+
+    socketInstance.on('replay:session', (session: SessionLog) => {
+      setReplaySession(session);
+      setReplayPlaying(false);
+      const start = session.frames[0]?.simTime ?? 0;
+      replayTimeRef.current = start;
+      setReplayTime(start);
+      const frame = findReplayFrame(session.frames, start);
+      if (frame) setState(frame.state);
     });
 
     socketInstance.on('simulation:started', () => {
@@ -624,10 +875,83 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
     setSocket(socketInstance);
 
     return () => {
+      stateStreamRef.current?.close();
+      stateStreamRef.current = null;
       socketInstance.disconnect();
     };
   }, []);
 
+  // Follow the page's environment
+  useEffect(() => {
+    if (!socket || environmentIdRef.current === environmentId) return;
+    environmentIdRef.current = environmentId;
+    socket.emit('simulation:join', { environmentId });
+  }, [socket, environmentId]);
+
+  // ============================================
+  // SESSION REPLAY
+  // ============================================
+
+  const seekReplay = useCallback((session: SessionLog, time: number) => {
+    replayTimeRef.current = time;
+    setReplayTime(time);
+    const frame = findReplayFrame(session.frames, time);
+    if (frame) setState(frame.state);
+  }, []);
+
+  // Advance the playhead in simulated time while playing
+  useEffect(() => {
+    if (!replayPlaying || !replaySession) return;
+    const end = replaySession.frames[replaySession.frames.length - 1]?.simTime ?? 0;
+    let last = performance.now();
+    const interval = setInterval(() => {
+      const now = performance.now();
+      const next = Math.min(end, replayTimeRef.current + (now - last));
+      last = now;
+      seekReplay(replaySession, next);
+      if (next >= end) setReplayPlaying(false);
+    }, 100);
+    return () => clearInterval(interval);
+  }, [replayPlaying, replaySession, seekReplay]);
+
+  // LiDAR scans are only streamed while they are being drawn
+  const handleToggleLidar = () => {
+    setShowLidar(!showLidar);
+    stateStreamRef.current?.update({ lidar: !showLidar });
+  };
+
+  const handleOpenReplay = () => {
+    replayModeRef.current = true;
+    setReplayMode(true);
+    socket?.emit('replay:list');
+  };
+
+  const handleCloseReplay = () => {
+    replayModeRef.current = false;
+    setReplayMode(false);
+    setReplayPlaying(false);
+    setReplaySession(null);
+    setState(liveStateRef.current);
+  };
+
+  const handleLoadReplay = (sessionId: string) => {
+    socket?.emit('replay:load', { sessionId });
+  };
+
+  const replayStart = replaySession?.frames[0]?.simTime ?? 0;
+  const replayEnd = replaySession?.frames[replaySession.frames.length - 1]?.simTime ?? 0;
+  const replaySpan = Math.max(1, replayEnd - replayStart);
+  const pastReplayCommands = replaySession?.commands.filter(c => c.simTime <= replayTime) ?? [];
+
+  const handleReplaySeek = (time: number) => {
+    if (replaySession) seekReplay(replaySession, time);
+  };
+
+  const handleToggleReplayPlay = () => {
+    if (!replayPlaying && replayTime >= replayEnd) handleReplaySeek(replayStart);
+    setReplayPlaying(!replayPlaying);
+  };
+
   // ============================================
   // BACKGROUND MAP LOADING
   // ============================================
@@ -717,9 +1041,22 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
             } else {
               pixelBounds = z.bounds;
             }
-            return { ...z, bounds: pixelBounds, currentOccupancy: 0, capacity: z.capacity || 15 };
+            return {
+              ...z,
+              type: z.type as ZoneType,
+              bounds: pixelBounds,
+              currentOccupancy: 0,
+              capacity: z.capacity || 15,
+              activeFrom: z.activeFrom ? Date.parse(z.activeFrom) : null,
+              activeUntil: z.activeUntil ? Date.parse(z.activeUntil) : null,
+              queue: [],
+              slots: [],
+              docks: z.type === 'CHARGING_STATION' ? new Array<string | null>(z.chargingDocks ?? 2).fill(null) : undefined,
+              chargeQueue: [],
+            };
           })
         : state.zones;
+      const now = simClock(state);
 
       for (const zone of zonesToRender) {
         ctx.fillStyle = ZONE_COLORS[zone.type] || 'rgba(100, 100, 100, 0.2)';
@@ -738,20 +1075,97 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
           zone.bounds.x + zone.bounds.width / 2, 
           zone.bounds.y + 15
         );
+        const incoming = zone.slots?.filter(slot => slot.taskId !== null) ?? [];
         ctx.fillText(
-          `${zone.currentOccupancy}/${zone.capacity}`,
+          `${zone.currentOccupancy}/${zone.capacity}${incoming.length > 0 ? ` (+${incoming.length} incoming)` : ''}`,
           zone.bounds.x + zone.bounds.width / 2,
           zone.bounds.y + zone.bounds.height - 8
         );
+
+        // Slots held for objects on their way in
+        if (incoming.length > 0) {
+          ctx.strokeStyle = zone.color;
+          ctx.lineWidth = 1;
+          ctx.setLineDash([4, 3]);
+          for (const slot of incoming) {
+            ctx.strokeRect(slot.bounds.x, slot.bounds.y, slot.bounds.width, slot.bounds.height);
+          }
+          ctx.setLineDash([]);
+        }
+
+        // One-way lane: chevrons along the direction of travel
+        if (zone.type === 'ONE_WAY_LANE' && zone.direction) {
+          const cx = zone.bounds.x + zone.bounds.width / 2;
+          const cy = zone.bounds.y + zone.bounds.height / 2;
+          ctx.save();
+          ctx.translate(cx, cy);
+          ctx.rotate(LANE_ANGLES[zone.direction]);
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+          ctx.lineWidth = 3;
+          for (const offset of [-20, 0, 20]) {
+            ctx.beginPath();
+            ctx.moveTo(offset - 6, -8);
+            ctx.lineTo(offset + 4, 0);
+            ctx.lineTo(offset - 6, 8);
+            ctx.stroke();
+          }
+          ctx.restore();
+        }
+
+        // Restricted area while its keep-out is in force: red hatching
+        if (isKeepOutActive(zone, now)) {
+          const { x, y, width: w, height: h } = zone.bounds;
+          ctx.save();
+          ctx.beginPath();
+          ctx.rect(x, y, w, h);
+          ctx.clip();
+          ctx.strokeStyle = 'rgba(239, 68, 68, 0.45)';
+          ctx.lineWidth = 2;
+          ctx.beginPath();
+          for (let d = -h; d < w; d += 16) {
+            ctx.moveTo(x + d, y + h);
+            ctx.lineTo(x + d + h, y);
+          }
+          ctx.stroke();
+          ctx.restore();
+        }
+
+        // Charging docks: filled while a robot holds the dock (charging or on its way)
+        zone.docks?.forEach((holder, index) => {
+          const dock = dockPosition(zone, index);
+          ctx.fillStyle = holder ? 'rgba(6, 182, 212, 0.6)' : 'rgba(15, 23, 42, 0.6)';
+          ctx.fillRect(dock.x - 10, dock.y - 10, 20, 20);
+          ctx.strokeStyle = '#06b6d4';
+          ctx.lineWidth = 1.5;
+          ctx.strokeRect(dock.x - 10, dock.y - 10, 20, 20);
+        });
+
+        // Entry queue at limited zones (intersections, gates) and robots waiting for a charging dock
+        const queue = [...(zone.queue ?? []), ...(zone.chargeQueue ?? [])];
+        if (queue.length > 0) {
+          const label = `⏳ ${queue.length} waiting`;
+          ctx.font = 'bold 11px Inter';
+          const labelWidth = ctx.measureText(label).width + 10;
+          ctx.fillStyle = 'rgba(234, 179, 8, 0.9)';
+          ctx.fillRect(zone.bounds.x + zone.bounds.width - labelWidth - 4, zone.bounds.y + 4, labelWidth, 16);
+          ctx.fillStyle = '#0f172a';
+          ctx.textAlign = 'right';
+          ctx.fillText(label, zone.bounds.x + zone.bounds.width - 9, zone.bounds.y + 16);
+        }
       }
     }
 
     // Draw obstacles
     for (const obstacle of state.obstacles) {
+      // An obstacle being dragged in the editor follows the mouse until released
+      const dragging = obstacleDrag?.kind === 'move' && obstacleDrag.obstacleId === obstacle.id;
+      const x = obstacle.pose.x + (dragging ? obstacleDrag.current.x - obstacleDrag.start.x : 0);
+      const y = obstacle.pose.y + (dragging ? obstacleDrag.current.y - obstacleDrag.start.y : 0);
+
       ctx.fillStyle = obstacle.isTemporary ? '#4b5563' : '#374151';
       ctx.fillRect(
-        obstacle.pose.x - obstacle.dimensions.width / 2,
-        obstacle.pose.y - obstacle.dimensions.height / 2,
+        x - obstacle.dimensions.width / 2,
+        y - obstacle.dimensions.height / 2,
         obstacle.dimensions.width,
         obstacle.dimensions.height
       );
@@ -759,12 +1173,33 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
       // Obstacle border
       ctx.strokeStyle = obstacle.isTemporary ? '#f59e0b' : '#6b7280';
       ctx.lineWidth = 2;
+      if (obstacle.id === selectedObstacle) {
+        ctx.strokeStyle = '#facc15';
+        ctx.lineWidth = 3;
+        ctx.setLineDash([6, 4]);
+      }
       ctx.strokeRect(
-        obstacle.pose.x - obstacle.dimensions.width / 2,
-        obstacle.pose.y - obstacle.dimensions.height / 2,
+        x - obstacle.dimensions.width / 2,
+        y - obstacle.dimensions.height / 2,
         obstacle.dimensions.width,
         obstacle.dimensions.height
       );
+      ctx.setLineDash([]);
+    }
+
+    // New obstacle being drawn
+    if (obstacleDrag?.kind === 'draw') {
+      ctx.fillStyle = 'rgba(245, 158, 11, 0.25)';
+      ctx.strokeStyle = '#f59e0b';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 4]);
+      const draftX = Math.min(obstacleDrag.start.x, obstacleDrag.current.x);
+      const draftY = Math.min(obstacleDrag.start.y, obstacleDrag.current.y);
+      const draftWidth = Math.abs(obstacleDrag.current.x - obstacleDrag.start.x);
+      const draftHeight = Math.abs(obstacleDrag.current.y - obstacleDrag.start.y);
+      ctx.fillRect(draftX, draftY, draftWidth, draftHeight);
+      ctx.strokeRect(draftX, draftY, draftWidth, draftHeight);
+      ctx.setLineDash([]);
     }
 
     // Draw construction objects with realistic shapes
@@ -777,6 +1212,20 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
       
       // Draw realistic object shape based on type
       drawObjectShape(ctx, obj.type, obj.dimensions.width, obj.dimensions.height, obj.color);
+
+      // Rejected by inspection, waiting for rework or return
+      if (obj.qcStatus === 'FAILED') {
+        ctx.strokeStyle = '#ef4444';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([4, 3]);
+        ctx.strokeRect(
+          -obj.dimensions.width / 2 - 2,
+          -obj.dimensions.height / 2 - 2,
+          obj.dimensions.width + 4,
+          obj.dimensions.height + 4
+        );
+        ctx.setLineDash([]);
+      }
       
       // Selection highlight
       if (selectedObject === obj.id) {
@@ -828,6 +1277,38 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
       }
     }
 
+    // Draw patrol routes: open patrols and the one being planned
+    const drawRoute = (points: Vector2D[], loop: boolean, color: string) => {
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([3, 6]);
+      ctx.beginPath();
+      points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      if (loop && points.length > 2) ctx.closePath();
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.font = 'bold 10px sans-serif';
+      points.forEach((p, i) => {
+        ctx.beginPath();
+        ctx.moveTo(p.x, p.y - 7);
+        ctx.lineTo(p.x + 7, p.y);
+        ctx.lineTo(p.x, p.y + 7);
+        ctx.lineTo(p.x - 7, p.y);
+        ctx.closePath();
+        ctx.fill();
+        ctx.fillText(String(i + 1), p.x + 9, p.y - 9);
+      });
+    };
+    for (const task of state.tasks) {
+      if (task.patrol && (task.status === 'IN_PROGRESS' || task.status === 'ASSIGNED' || task.status === 'PENDING')) {
+        drawRoute(task.patrol.checkpoints.map(c => c.position), task.patrol.loop, 'rgba(167, 139, 250, 0.7)');
+      }
+    }
+    if (patrolMode && patrolPoints.length > 0) {
+      drawRoute(patrolPoints, patrolLoop, '#a78bfa');
+    }
+
     // Draw LiDAR points
     if (showLidar) {
       for (const robot of state.robots) {
@@ -873,12 +1354,20 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
       ctx.lineWidth = selectedRobot === robot.id ? 3 : 2;
       ctx.stroke();
       
-      // Draw held object indicator
-      if (robot.gripper?.heldObject) {
+      // Draw held object indicator, with a count when a carrier has several on board
+      const onBoard = carriedObjectIds(robot).length;
+      if (onBoard > 0) {
         ctx.fillStyle = '#22c55e';
         ctx.beginPath();
         ctx.arc(size / 2, 0, 8, 0, Math.PI * 2);
         ctx.fill();
+        if (onBoard > 1) {
+          ctx.fillStyle = '#052e16';
+          ctx.font = 'bold 9px sans-serif';
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillText(String(onBoard), size / 2, 0);
+        }
       }
       
       ctx.restore();
@@ -945,7 +1434,7 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
       ctx.fillText(`Speed: ${state.timeMultiplier}x`, 35, 91);
     }
 
-  }, [state, zoom, pan, showLidar, showPaths, showZones, showRobotLabels, selectedRobot, selectedObject, isConnected]);
+  }, [state, zoom, pan, showLidar, showPaths, showZones, showRobotLabels, selectedRobot, selectedObject, selectedObstacle, obstacleDrag, patrolMode, patrolPoints, patrolLoop, isConnected]);
 
   // Animation loop
   useEffect(() => {
@@ -967,13 +1456,25 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
   // EVENT HANDLERS
   // ============================================
 
+  const toWorldPoint = (e: React.MouseEvent): Vector2D => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left - pan.x) / zoom,
+      y: (e.clientY - rect.top - pan.y) / zoom,
+    };
+  };
+
   const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
-    if (!canvas || !state) return;
+    // Clicks in the obstacle editor are handled as drags (mouse down/up)
+    if (!canvas || !state || obstacleMode) return;
+
+    const { x, y } = toWorldPoint(e);
 
-    const rect = canvas.getBoundingClientRect();
-    const x = (e.clientX - rect.left - pan.x) / zoom;
-    const y = (e.clientY - rect.top - pan.y) / zoom;
+    if (patrolMode && !replayMode) {
+      setPatrolPoints(prev => [...prev, { x, y }]);
+      return;
+    }
 
     // Check if clicked on a robot
     for (const robot of state.robots) {
@@ -999,7 +1500,7 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
     }
 
     // If nothing clicked, and a robot is selected, move it there
-    if (selectedRobot && socket) {
+    if (selectedRobot && socket && !replayMode) {
       socket.emit('robot:move', { robotId: selectedRobot, target: { x, y } });
     }
 
@@ -1011,6 +1512,15 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
     if (e.button === 1 || (e.button === 0 && e.shiftKey)) {
       setIsPanning(true);
       setLastMousePos({ x: e.clientX, y: e.clientY });
+    } else if (e.button === 0 && obstacleMode && state && !replayMode) {
+      // Press on an obstacle selects (and starts moving) it, anywhere else starts drawing one
+      const point = toWorldPoint(e);
+      const hit = state.obstacles.find(o =>
+        Math.abs(point.x - o.pose.x) <= o.dimensions.width / 2 &&
+        Math.abs(point.y - o.pose.y) <= o.dimensions.height / 2
+      );
+      setSelectedObstacle(hit?.id ?? null);
+      setObstacleDrag({ kind: hit ? 'move' : 'draw', start: point, current: point, obstacleId: hit?.id });
     }
   };
 
@@ -1020,11 +1530,67 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
       const dy = e.clientY - lastMousePos.y;
       setPan(prev => ({ x: prev.x + dx, y: prev.y + dy }));
       setLastMousePos({ x: e.clientX, y: e.clientY });
+    } else if (obstacleDrag) {
+      const current = toWorldPoint(e);
+      setObstacleDrag(prev => prev ? { ...prev, current } : null);
     }
   };
 
   const handleMouseUp = () => {
     setIsPanning(false);
+    if (!obstacleDrag || !socket) return;
+    setObstacleDrag(null);
+
+    const { kind, start, current, obstacleId } = obstacleDrag;
+    const dx = current.x - start.x;
+    const dy = current.y - start.y;
+    if (kind === 'draw' && Math.abs(dx) >= 10 && Math.abs(dy) >= 10) {
+      socket.emit('obstacle:create', {
+        type: newObstacleType,
+        pose: { x: start.x + dx / 2, y: start.y + dy / 2 },
+        dimensions: { width: Math.abs(dx), height: Math.abs(dy) },
+        isTemporary: true,
+      });
+    } else if (kind === 'move' && Math.hypot(dx, dy) > 2) {
+      const obstacle = state?.obstacles.find(o => o.id === obstacleId);
+      if (obstacle) {
+        socket.emit('obstacle:update', {
+          id: obstacle.id,
+          pose: { x: obstacle.pose.x + dx, y: obstacle.pose.y + dy },
+        });
+      }
+    }
+  };
+
+  const handleToggleObstacleMode = () => {
+    setObstacleMode(prev => !prev);
+    setPatrolMode(false);
+    setSelectedObstacle(null);
+    setObstacleDrag(null);
+  };
+
+  const handleTogglePatrolMode = () => {
+    setPatrolMode(prev => !prev);
+    setObstacleMode(false);
+    setPatrolPoints([]);
+  };
+
+  const handleStartPatrol = () => {
+    if (!socket || patrolPoints.length === 0) return;
+    socket.emit('task:patrol', {
+      checkpoints: patrolPoints,
+      loop: patrolLoop,
+      repeat: patrolRepeat,
+      dwellSeconds: patrolDwell,
+    });
+    setPatrolPoints([]);
+  };
+
+  const handleRemoveObstacle = () => {
+    if (socket && selectedObstacle) {
+      socket.emit('obstacle:remove', { obstacleId: selectedObstacle });
+      setSelectedObstacle(null);
+    }
   };
 
   const handleWheel = useCallback((e: WheelEvent) => {
@@ -1059,7 +1625,8 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
         socket.emit('task:create-bulk', { 
           objectIds: selectedBulkObjects, 
           targetZoneId: taskTargetZone,
-          autoAssign: true 
+          autoAssign: true,
+          batch: batchPickups
         });
         setSelectedBulkObjects([]);
         setTaskTargetZone('');
@@ -1068,11 +1635,13 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
         socket.emit('task:create', { 
           objectId: taskObjectId, 
           targetZoneId: taskTargetZone,
-          robotId: taskRobotId 
+          robotId: taskRobotId,
+          priority: taskPriority
         });
         setTaskObjectId('');
         setTaskTargetZone('');
         setTaskRobotId('auto');
+        setTaskPriority('NORMAL');
       }
     }
   };
@@ -1126,7 +1695,7 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
                 <Button
                   size="sm"
                   onClick={handleStart}
-                  disabled={!isConnected || state?.status === 'RUNNING'}
+                  disabled={!isConnected || replayMode || state?.status === 'RUNNING'}
                   className="bg-green-600 hover:bg-green-700 active:bg-green-800 active:scale-95 transition-all"
                 >
                   <Play className="w-4 h-4 mr-1" /> Start
@@ -1134,7 +1703,7 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
                 <Button
                   size="sm"
                   onClick={handlePause}
-                  disabled={!isConnected || state?.status !== 'RUNNING'}
+                  disabled={!isConnected || replayMode || state?.status !== 'RUNNING'}
                   className="bg-yellow-600 hover:bg-yellow-700 active:bg-yellow-800 active:scale-95 transition-all"
                 >
                   <Pause className="w-4 h-4 mr-1" /> Pause
@@ -1142,7 +1711,7 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
                 <Button
                   size="sm"
                   onClick={handleStop}
-                  disabled={!isConnected || state?.status === 'STOPPED'}
+                  disabled={!isConnected || replayMode || state?.status === 'STOPPED'}
                   variant="destructive"
                   className="active:scale-95 transition-all"
                 >
@@ -1151,12 +1720,42 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
                 <Button
                   size="sm"
                   onClick={handleReset}
-                  disabled={!isConnected}
+                  disabled={!isConnected || replayMode}
                   variant="outline"
                   className="active:scale-95 transition-all"
                 >
                   <RotateCcw className="w-4 h-4 mr-1" /> Reset
                 </Button>
+                <Button
+                  size="sm"
+                  onClick={replayMode ? handleCloseReplay : handleOpenReplay}
+                  disabled={!isConnected}
+                  variant={replayMode ? 'default' : 'outline'}
+                  title="Replay recorded sessions"
+                  className={`active:scale-95 transition-all ${replayMode ? 'bg-amber-600 hover:bg-amber-700' : ''}`}
+                >
+                  <History className="w-4 h-4 mr-1" /> Replay
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleToggleObstacleMode}
+                  disabled={!isConnected || replayMode}
+                  variant={obstacleMode ? 'default' : 'outline'}
+                  title="Add, move and remove obstacles"
+                  className={`active:scale-95 transition-all ${obstacleMode ? 'bg-orange-600 hover:bg-orange-700' : ''}`}
+                >
+                  <Construction className="w-4 h-4 mr-1" /> Obstacles
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleTogglePatrolMode}
+                  disabled={!isConnected || replayMode}
+                  variant={patrolMode ? 'default' : 'outline'}
+                  title="Plan a waypoint patrol"
+                  className={`active:scale-95 transition-all ${patrolMode ? 'bg-violet-600 hover:bg-violet-700' : ''}`}
+                >
+                  <Route className="w-4 h-4 mr-1" /> Patrol
+                </Button>
               </div>
 
               {/* Speed Control */}
@@ -1194,7 +1793,7 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
                 <Button
                   size="sm"
                   variant={showLidar ? 'default' : 'outline'}
-                  onClick={() => setShowLidar(!showLidar)}
+                  onClick={handleToggleLidar}
                   title="Toggle LiDAR"
                   className={`active:scale-95 transition-all ${showLidar ? 'bg-blue-600 hover:bg-blue-700' : ''}`}
                 >
@@ -1251,6 +1850,208 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
           </CardContent>
         </Card>
 
+        {/* Obstacle Editor — draw, drag and remove obstacles on the live map */}
+        {obstacleMode && !replayMode && (
+          <Card className="bg-slate-900/50 border-orange-700/50">
+            <CardContent className="py-2 px-3">
+              <div className="flex items-center gap-2">
+                <Construction className="w-4 h-4 text-orange-400" />
+                <span className="text-sm font-medium text-white">Obstacle Editor</span>
+                <Select value={newObstacleType} onValueChange={(value) => setNewObstacleType(value as Obstacle['type'])}>
+                  <SelectTrigger className="w-48 h-8 text-xs bg-slate-800 border-slate-700">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-900 border-slate-700">
+                    {OBSTACLE_TYPES.map(option => (
+                      <SelectItem key={option.type} value={option.type}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-xs text-slate-400 flex-1 truncate">
+                  {selectedObstacle
+                    ? `Selected ${selectedObstacle} — drag to move`
+                    : 'Drag on the map to place an obstacle, click one to select it'}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleRemoveObstacle}
+                  disabled={!selectedObstacle}
+                  className="h-8 text-red-400 hover:text-red-300"
+                >
+                  <Trash2 className="w-4 h-4 mr-1" /> Remove
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={handleToggleObstacleMode}
+                  title="Close obstacle editor"
+                  className="h-8 text-slate-400"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Patrol Planner — click checkpoints onto the map, then send a robot round them */}
+        {patrolMode && !replayMode && (
+          <Card className="bg-slate-900/50 border-violet-700/50">
+            <CardContent className="py-2 px-3">
+              <div className="flex items-center gap-2">
+                <Route className="w-4 h-4 text-violet-400" />
+                <span className="text-sm font-medium text-white">Patrol Planner</span>
+                <span className="text-xs text-slate-400 flex-1 truncate">
+                  {patrolPoints.length > 0
+                    ? `${patrolPoints.length} checkpoint${patrolPoints.length === 1 ? '' : 's'}`
+                    : 'Click the map to add checkpoints in visiting order'}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setPatrolLoop(prev => !prev)}
+                  title={patrolLoop ? 'Return to the first checkpoint after the last' : 'Sweep back and forth along the route'}
+                  className="h-8 text-xs"
+                >
+                  {patrolLoop ? 'Loop' : 'Back & forth'}
+                </Button>
+                <span className="text-xs text-slate-400">Passes</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={patrolRepeat}
+                  onChange={(e) => setPatrolRepeat(Math.min(100, Math.max(1, Math.round(Number(e.target.value) || 1))))}
+                  className="w-16 h-8 text-xs bg-slate-800 border-slate-700"
+                />
+                <span className="text-xs text-slate-400">Dwell (s)</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={patrolDwell}
+                  onChange={(e) => setPatrolDwell(Math.max(0, Number(e.target.value) || 0))}
+                  className="w-16 h-8 text-xs bg-slate-800 border-slate-700"
+                />
+                <Button
+                  size="sm"
+                  onClick={handleStartPatrol}
+                  disabled={patrolPoints.length === 0}
+                  className="h-8 bg-violet-600 hover:bg-violet-700"
+                >
+                  <Play className="w-4 h-4 mr-1" /> Start
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setPatrolPoints([])}
+                  disabled={patrolPoints.length === 0}
+                  className="h-8 text-red-400 hover:text-red-300"
+                >
+                  <Trash2 className="w-4 h-4 mr-1" /> Clear
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={handleTogglePatrolMode}
+                  title="Close patrol planner"
+                  className="h-8 text-slate-400"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Session Replay — timeline over a recorded session log */}
+        {replayMode && (
+          <Card className="bg-slate-900/50 border-amber-700/50">
+            <CardContent className="py-2 px-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <History className="w-4 h-4 text-amber-400" />
+                <span className="text-sm font-medium text-white">Session Replay</span>
+                <Select value={replaySession?.header.id ?? ''} onValueChange={handleLoadReplay}>
+                  <SelectTrigger className="flex-1 h-8 text-xs bg-slate-800 border-slate-700">
+                    <SelectValue placeholder={replaySessions.length > 0 ? 'Select session...' : 'No recorded sessions'} />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-900 border-slate-700 max-h-60">
+                    {replaySessions.map(session => (
+                      <SelectItem key={session.id} value={session.id}>
+                        {new Date(session.startedAt).toLocaleString()} — {session.name}
+                        {session.seed !== null ? ` (seed ${session.seed})` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={handleCloseReplay}
+                  title="Back to live simulation"
+                  className="h-8 text-slate-400"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+              {replaySession && replaySession.frames.length > 0 && (
+                <>
+                  <div className="flex items-center gap-3">
+                    <Button
+                      size="sm"
+                      onClick={handleToggleReplayPlay}
+                      className="h-8 bg-amber-600 hover:bg-amber-700 active:scale-95 transition-all"
+                    >
+                      {replayPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    </Button>
+                    <span className="text-xs text-slate-400 font-mono w-12">{formatSimTime(replayTime - replayStart)}</span>
+                    <div className="relative flex-1">
+                      {/* Command markers */}
+                      <div className="absolute -top-2 left-0 right-0 h-1.5 pointer-events-none">
+                        {replaySession.commands.map((command, i) => (
+                          <div
+                            key={i}
+                            className="absolute w-0.5 h-1.5 bg-amber-400/70"
+                            style={{ left: `${((command.simTime - replayStart) / replaySpan) * 100}%` }}
+                          />
+                        ))}
+                      </div>
+                      <Slider
+                        value={[replayTime]}
+                        min={replayStart}
+                        max={replayEnd}
+                        step={100}
+                        onValueChange={(value) => handleReplaySeek(value[0])}
+                        className="[&_[data-slot=slider-track]]:bg-slate-700 [&_[data-slot=slider-range]]:bg-amber-500 [&_[data-slot=slider-thumb]]:border-amber-500 [&_[data-slot=slider-thumb]]:bg-slate-900"
+                      />
+                    </div>
+                    <span className="text-xs text-slate-400 font-mono w-12 text-right">{formatSimTime(replayEnd - replayStart)}</span>
+                  </div>
+                  <ScrollArea className="h-20 border border-slate-800 rounded-md p-1">
+                    {pastReplayCommands.length > 0 ? (
+                      [...pastReplayCommands].reverse().map((command, i) => (
+                        <div
+                          key={i}
+                          onClick={() => handleReplaySeek(command.simTime)}
+                          className="flex items-center gap-2 text-xs py-0.5 px-1.5 rounded cursor-pointer hover:bg-slate-800"
+                        >
+                          <span className="text-slate-500 font-mono w-12">{formatSimTime(command.simTime - replayStart)}</span>
+                          <span className="text-amber-300 font-mono">{command.event}</span>
+                          <span className="text-slate-500 truncate">
+                            {command.payload ? JSON.stringify(command.payload) : ''}
+                          </span>
+                        </div>
+                      ))
+                    ) : (
+                      <div className="text-center text-slate-500 py-2 text-xs">No commands yet at this point</div>
+                    )}
+                  </ScrollArea>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Task & Material Controls — compact inline cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
           {/* Create Task */}
@@ -1272,7 +2073,18 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
                     <span className="text-xs text-slate-400">{selectedBulkObjects.length} selected</span>
-                    <Button variant="ghost" size="sm" onClick={selectAllAvailableObjects} className="text-xs h-5">Select All</Button>
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setBatchPickups(!batchPickups)}
+                        className={`text-xs h-5 ${batchPickups ? 'text-purple-400' : 'text-slate-400'}`}
+                        title="Combine objects from the same zone into one trip for carriers"
+                      >
+                        Batch {batchPickups ? 'On' : 'Off'}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={selectAllAvailableObjects} className="text-xs h-5">Select All</Button>
+                    </div>
                   </div>
                   <ScrollArea className="h-24 border border-slate-700 rounded-md p-1">
                     {availableObjects.map(obj => (
@@ -1314,6 +2126,17 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
                       ))}
                     </SelectContent>
                   </Select>
+                  <Select value={taskPriority} onValueChange={(v) => setTaskPriority(v as TaskPriority)}>
+                    <SelectTrigger className="w-[90px] h-8 text-xs bg-slate-800 border-slate-700">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-900 border-slate-700">
+                      <SelectItem value="URGENT">Urgent</SelectItem>
+                      <SelectItem value="HIGH">High</SelectItem>
+                      <SelectItem value="NORMAL">Normal</SelectItem>
+                      <SelectItem value="LOW">Low</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
               )}
               <div className="flex items-center gap-2 mt-2">
@@ -1334,7 +2157,7 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
                   disabled={bulkMode ? (selectedBulkObjects.length === 0 || !taskTargetZone) : (!taskObjectId || !taskTargetZone)}
                 >
                   <Package className="w-4 h-4 mr-1" />
-                  {bulkMode ? `${selectedBulkObjects.length} Tasks` : 'Task'}
+                  {bulkMode ? `${selectedBulkObjects.length} ${batchPickups ? 'Objects' : 'Tasks'}` : 'Task'}
                 </Button>
                 <Button
                   size="sm"
@@ -1443,7 +2266,7 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
             {/* Metrics Bar */}
             <Card className="bg-slate-900/50 border-slate-800">
               <CardContent className="py-2">
-                <div className="grid grid-cols-6 gap-4">
+                <div className="grid grid-cols-10 gap-4">
                   <div className="text-center">
                     <div className="text-xl font-bold text-white">{state.robots.length}</div>
                     <div className="text-xs text-slate-400">Robots</div>
@@ -1476,6 +2299,24 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
                     </div>
                     <div className="text-xs text-slate-400">Avg Time</div>
                   </div>
+                  <div className="text-center">
+                    <div className="text-xl font-bold text-red-400">{state.metrics.nearMisses ?? 0}</div>
+                    <div className="text-xs text-slate-400">Near Misses</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-xl font-bold text-red-400">{state.metrics.restrictedAreaViolations ?? 0}</div>
+                    <div className="text-xs text-slate-400">Keep-Out Violations</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-xl font-bold text-green-400">
+                      {Math.round((state.metrics.onTimeRate ?? 1) * 100)}%
+                    </div>
+                    <div className="text-xs text-slate-400">On Time</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-xl font-bold text-orange-400">{state.metrics.atRiskTasks ?? 0}</div>
+                    <div className="text-xs text-slate-400">At Risk</div>
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -1496,6 +2337,12 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
                       const task = state.tasks.find(t => t.assignedRobotId === robot.id && t.status === 'IN_PROGRESS');
                       const targetObj = task?.objectId ? state.objects.find(o => o.id === task.objectId) : null;
                       const targetZoneData = task?.targetZone ? activeZones.find(z => z.id === task.targetZone) : null;
+                      const queuedAt = state.zones.find(z => z.queue?.includes(robot.id));
+                      const chargeQueuedAt = state.zones.find(z => z.chargeQueue?.includes(robot.id));
+                      const carried = carriedObjectIds(robot);
+                      const carriedWeight = state.objects.filter(o => carried.includes(o.id)).reduce((sum, o) => sum + o.weight, 0);
+                      const chargeOrdered = state.tasks.some(t => t.type === 'CHARGE' && t.reservedFor === robot.id &&
+                        !['COMPLETED', 'FAILED', 'CANCELLED'].includes(t.status));
                       return (
                         <div
                           key={robot.id}
@@ -1509,22 +2356,56 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
                             style={{ backgroundColor: STATUS_COLORS[robot.status] || '#4b5563' }}
                           />
                           <span className="font-mono font-medium text-white w-20 flex-shrink-0 truncate">{robot.name}</span>
-                          {robot.status === 'IDLE' ? (
+                          {queuedAt ? (
+                            <span className="text-amber-400 truncate">
+                              queued at {queuedAt.name} (#{queuedAt.queue!.indexOf(robot.id) + 1})
+                            </span>
+                          ) : chargeQueuedAt ? (
+                            <span className="text-amber-400 truncate">
+                              waiting for a dock at {chargeQueuedAt.name} (#{chargeQueuedAt.chargeQueue!.indexOf(robot.id) + 1})
+                            </span>
+                          ) : robot.status === 'IDLE' ? (
                             <span className="text-slate-500">standby</span>
                           ) : robot.status === 'PICKING' ? (
                             <span className="text-yellow-400 truncate">picking {targetObj?.name || 'object'}</span>
                           ) : robot.status === 'CARRYING' ? (
-                            <span className="text-green-400 truncate">carrying → {targetZoneData?.name || '...'}</span>
+                            <span className="text-green-400 truncate">
+                              carrying {carried.length > 1 ? `${carried.length} objects ` : ''}
+                              {carried.length > 0 ? `${carriedWeight}/${robot.payloadCapacity} kg ` : ''}→ {targetZoneData?.name || '...'}
+                            </span>
                           ) : robot.status === 'PLACING' ? (
                             <span className="text-purple-400 truncate">placing at {targetZoneData?.name || '...'}</span>
+                          ) : robot.status === 'SCANNING' ? (
+                            <span className="text-teal-400">scanning at checkpoint</span>
                           ) : robot.status === 'MOVING' ? (
-                            <span className="text-blue-400 truncate">moving to target</span>
+                            <span className="text-blue-400 truncate">
+                              {robot.serviceDue && !robot.currentTaskId ? 'heading for service' : 'moving to target'}
+                            </span>
                           ) : robot.status === 'CHARGING' ? (
                             <span className="text-cyan-400">charging</span>
+                          ) : robot.status === 'MAINTENANCE' ? (
+                            <span className="text-orange-400 truncate">
+                              {robot.fault ? `repairing ${robot.fault.code}` : 'in maintenance'}
+                            </span>
                           ) : (
-                            <span className="text-slate-400">{robot.status.toLowerCase()}</span>
+                            <span className="text-red-400 truncate" title={robot.fault?.description}>
+                              {robot.fault ? `fault ${robot.fault.code}` : 'broken down'}
+                            </span>
                           )}
                           <span className="text-slate-600 ml-auto flex-shrink-0">{robot.battery}%</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Send to charge"
+                            disabled={!socket || chargeOrdered}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              socket?.emit('task:charge', { robotId: robot.id });
+                            }}
+                            className="h-5 w-5 p-0 flex-shrink-0 text-cyan-400 hover:text-cyan-300"
+                          >
+                            <BatteryCharging className="w-3.5 h-3.5" />
+                          </Button>
                         </div>
                       );
                     })}
@@ -1538,13 +2419,13 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
                     <Activity className="w-4 h-4 text-green-400 animate-pulse" />
                     <span className="text-sm font-medium text-white">Active Tasks</span>
                     <Badge variant="outline" className="text-yellow-400 border-yellow-500/50 text-xs ml-auto">
-                      {state.tasks.filter(t => t.status === 'IN_PROGRESS' || t.status === 'PENDING').length} queued
+                      {state.tasks.filter(t => t.status === 'IN_PROGRESS' || t.status === 'PENDING' || t.status === 'BLOCKED').length} queued
                     </Badge>
                   </div>
-                  {state.tasks.filter(t => t.status === 'IN_PROGRESS' || t.status === 'PENDING').length > 0 ? (
+                  {state.tasks.filter(t => t.status === 'IN_PROGRESS' || t.status === 'PENDING' || t.status === 'BLOCKED').length > 0 ? (
                     <div className="space-y-1">
                       {state.tasks
-                        .filter(t => t.status === 'IN_PROGRESS' || t.status === 'PENDING')
+                        .filter(t => t.status === 'IN_PROGRESS' || t.status === 'PENDING' || t.status === 'BLOCKED')
                         .slice(0, 6)
                         .map(task => {
                           const robot = task.assignedRobotId ? state.robots.find(r => r.id === task.assignedRobotId) : null;
@@ -1552,14 +2433,24 @@ export default function ConstructionSimulation({ width = 1000, height = 800, bac
                             <div key={task.id} className="flex items-center gap-2 text-xs py-1 px-2 rounded bg-slate-800/50">
                               <div
                                 className="w-2 h-2 rounded-full flex-shrink-0"
-                                style={{ backgroundColor: task.status === 'IN_PROGRESS' ? '#3b82f6' : '#6b7280' }}
+                                style={{ backgroundColor: task.status === 'IN_PROGRESS' ? '#3b82f6' : task.status === 'BLOCKED' ? '#f59e0b' : '#6b7280' }}
                               />
                               <span className="text-white font-medium truncate">
-                                {task.type.replace(/_/g, ' ')}
-                              </span>
-                              <span className="text-slate-500 flex-shrink-0">
-                                {task.currentStep + 1}/{task.steps.length}
+                                {task.disposition === 'RETURN' ? 'RETURN TO SUPPLIER' : task.disposition ?? task.type.replace(/_/g, ' ')}
                               </span>
+                              {task.status === 'BLOCKED' ? (
+                                <span className="text-amber-400 flex-shrink-0">
+                                  waits for {task.dependsOn.filter(id => state.tasks.find(t => t.id === id)?.status !== 'COMPLETED').length}
+                                </span>
+                              ) : task.patrol ? (
+                                <span className="text-violet-400 flex-shrink-0">
+                                  {task.patrol.log.length} scans
+                                </span>
+                              ) : (
+                                <span className="text-slate-500 flex-shrink-0">
+                                  {task.currentStep + 1}/{task.steps.length}
+                                </span>
+                              )}
                               {robot && (
                                 <span className="text-blue-400 ml-auto flex-shrink-0 truncate max-w-[80px]">
                                   {robot.name}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRight, Boxes } from 'lucide-react';
+import { useSimulation } from '@/lib/simulation-context';
+
+const ALL_TYPES = 'ALL';
+
+function typeLabel(type: string): string {
+  return type.toLowerCase().replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+}
+
+/**
+ * Live stock levels: what sits in each zone's slots, by object type, and
+ * what is on a robot or set down loose. The ledger below lists the latest
+ * pickups, drop-offs and deliveries; the full history is at /api/inventory.
+ */
+export default function InventoryPanel() {
+  const { state } = useSimulation();
+  const [objectType, setObjectType] = useState(ALL_TYPES);
+
+  const inventory = useMemo(() => {
+    const objects = new Map((state?.objects ?? []).map(o => [o.id, o]));
+    const counts = (type: string | undefined) => objectType === ALL_TYPES || type === objectType;
+
+    const stocked = new Set<string>();
+    const zones = (state?.zones ?? []).map(zone => {
+      const byType: Record<string, number> = {};
+      for (const id of zone.objects ?? []) {
+        stocked.add(id);
+        const type = objects.get(id)?.type;
+        if (type && counts(type)) byType[type] = (byType[type] ?? 0) + 1;
+      }
+      return {
+        id: zone.id,
+        name: zone.name,
+        capacity: zone.capacity,
+        occupancy: zone.currentOccupancy,
+        incoming: (zone.slots?.length ?? zone.currentOccupancy) - zone.currentOccupancy,
+        byType: Object.entries(byType).sort((a, b) => b[1] - a[1]),
+      };
+    }).filter(zone => zone.occupancy > 0 || zone.incoming > 0);
+
+    let inStock = 0, inTransit = 0, loose = 0;
+    for (const obj of objects.values()) {
+      if (!counts(obj.type)) continue;
+      if (stocked.has(obj.id)) inStock++;
+      else if (obj.status === 'PICKED') inTransit++;
+      else loose++;
+    }
+
+    const types = [...new Set(Array.from(objects.values(), o => o.type))].sort();
+    const movements = (state?.movements ?? [])
+      .filter(m => counts(m.objectType))
+      .slice(-8)
+      .reverse();
+    return { zones, types, inStock, inTransit, loose, movements };
+  }, [state?.objects, state?.zones, state?.movements, objectType]);
+
+  const zoneName = (id: string | null) => state?.zones.find(z => z.id === id)?.name ?? id;
+  const robotName = (id: string | null) => state?.robots.find(r => r.id === id)?.name ?? id;
+  const objectName = (id: string) => state?.objects.find(o => o.id === id)?.name ?? id;
+  const place = (zoneId: string | null, robotId: string | null) =>
+    zoneId ? zoneName(zoneId) : robotId ? robotName(robotId) : 'Off site';
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-white flex items-center gap-2">
+              <Boxes className="w-5 h-5 text-cyan-400" />
+              Inventory
+            </CardTitle>
+            <CardDescription className="text-slate-400">Stock per zone and object type, with the latest movements</CardDescription>
+          </div>
+          <Select value={objectType} onValueChange={setObjectType}>
+            <SelectTrigger className="w-48 h-8 text-xs bg-slate-800 border-slate-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-900 border-slate-700">
+              <SelectItem value={ALL_TYPES}>All object types</SelectItem>
+              {inventory.types.map(type => (
+                <SelectItem key={type} value={type}>{typeLabel(type)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2 text-xs">
+          <Badge variant="outline" className="border-cyan-500/50 text-cyan-400">
+            {inventory.inStock} in stock
+          </Badge>
+          <Badge variant="outline" className="border-amber-500/50 text-amber-400">
+            {inventory.inTransit} in transit
+          </Badge>
+          <Badge variant="outline" className="border-slate-600 text-slate-300">
+            {inventory.loose} outside a zone
+          </Badge>
+        </div>
+
+        {inventory.zones.length > 0 ? (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {inventory.zones.map(zone => (
+              <div key={zone.id} className="p-4 rounded-lg bg-slate-800/50 border border-slate-700">
+                <div className="flex justify-between items-baseline mb-3">
+                  <h4 className="font-medium text-white text-sm truncate">{zone.name}</h4>
+                  <span className="text-xs text-slate-400 flex-shrink-0 ml-2">
+                    {zone.occupancy}/{zone.capacity}
+                    {zone.incoming > 0 && ` (+${zone.incoming})`}
+                  </span>
+                </div>
+                <div className="space-y-1">
+                  {zone.byType.length > 0 ? zone.byType.map(([type, count]) => (
+                    <div key={type} className="flex justify-between text-sm">
+                      <span className="text-slate-400 truncate">{typeLabel(type)}</span>
+                      <span className="text-white font-bold">{count}</span>
+                    </div>
+                  )) : (
+                    <p className="text-xs text-slate-500">None of this type</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">No stock on site.</p>
+        )}
+
+        {inventory.movements.length > 0 && (
+          <div className="space-y-1">
+            {inventory.movements.map(movement => (
+              <div key={movement.id} className="flex items-center gap-2 text-xs py-1 px-2 rounded bg-slate-800/50">
+                <span className="text-slate-300 truncate">{objectName(movement.objectId)}</span>
+                <span className="text-slate-500 ml-auto flex-shrink-0">{place(movement.fromZoneId, movement.toZoneId ? movement.robotId : null)}</span>
+                <ArrowRight className="w-3 h-3 text-slate-600 flex-shrink-0" />
+                <span className="text-slate-400 flex-shrink-0">{place(movement.toZoneId, movement.fromZoneId ? movement.robotId : null)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
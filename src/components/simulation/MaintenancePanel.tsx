@@ -0,0 +1,78 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Wrench } from 'lucide-react';
+import { MaintenanceSettings, useSimulation } from '@/lib/simulation-context';
+
+const SETTINGS: { key: keyof MaintenanceSettings; label: string; step: number }[] = [
+  { key: 'intervalHours', label: 'Every (hours run)', step: 0.5 },
+  { key: 'intervalDistance', label: 'Every (distance)', step: 1000 },
+  { key: 'serviceMinutes', label: 'Service takes (min)', step: 5 },
+];
+
+/** Robot-seconds as hours and minutes */
+function formatDowntime(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+/**
+ * Service intervals and downtime. A robot is called in for service when it has
+ * run its hours or distance since the last one, whichever comes first; it
+ * finishes its current task, then takes no work until the service is done.
+ */
+export default function MaintenancePanel() {
+  const { state, socket } = useSimulation();
+  const maintenance = state?.maintenance;
+  const metrics = state?.metrics;
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-white flex items-center gap-2">
+          <Wrench className="w-5 h-5 text-orange-400" />
+          Maintenance
+        </CardTitle>
+        <CardDescription className="text-slate-400">
+          Robots due for service finish their task, drive to a Robot Home bay and are out of dispatch until serviced.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2 text-xs">
+          <Badge variant="outline" className="border-orange-500/50 text-orange-400">
+            {Math.round((metrics?.fleetAvailability ?? 1) * 100)}% available
+          </Badge>
+          <Badge variant="outline" className="border-red-500/50 text-red-400">
+            {metrics?.faultsRaised ?? 0} faults • {formatDowntime(metrics?.faultDowntime ?? 0)} down
+          </Badge>
+          <Badge variant="outline" className="border-slate-600 text-slate-300">
+            {metrics?.servicesCompleted ?? 0} services • {formatDowntime(metrics?.maintenanceDowntime ?? 0)} in maintenance
+          </Badge>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {SETTINGS.map(({ key, label, step }) => (
+            <div key={key} className="space-y-1">
+              <Label className="text-slate-400 text-xs">{label}</Label>
+              <Input
+                type="number"
+                min={step}
+                step={step}
+                value={maintenance?.[key] ?? ''}
+                disabled={!socket || !maintenance}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (value > 0) socket?.emit('maintenance:configure', { [key]: value });
+                }}
+                className="h-8 bg-slate-800 border-slate-700"
+              />
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,383 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CalendarClock, Plus, Trash2 } from 'lucide-react';
+import { DEFAULT_ENVIRONMENT_ID, TaskSchedule, useSimulation } from '@/lib/simulation-context';
+
+interface Option {
+  value: string;
+  label: string;
+}
+
+interface TaskSchedulePanelProps {
+  objectTypes: Option[];
+  zoneOptions: Option[];
+}
+
+const CRON_PRESETS: Option[] = [
+  { value: '0 * * * *', label: 'Every hour' },
+  { value: '0 */2 * * *', label: 'Every 2 hours' },
+  { value: '0 7 * * *', label: 'Every morning (07:00)' },
+  { value: '30 6 * * 1-5', label: 'Weekdays (06:30)' },
+  { value: '0 22 * * *', label: 'Every night (22:00)' },
+];
+
+const EMPTY_FORM = {
+  name: '',
+  cron: '0 7 * * *',
+  kind: 'RESTOCK' as TaskSchedule['template']['kind'],
+  objectType: '',
+  quantity: 5,
+  sweeps: 1,
+  chargeTo: 100,
+  zoneId: '',
+  priority: 'NORMAL' as TaskSchedule['priority'],
+  startInMinutes: '',
+  dueInMinutes: '',
+};
+
+const PERIMETER_INSET = 40;
+
+/** A looping route through the four corners of the site, just inside the fence */
+function perimeterRoute(dimensions: { width: number; height: number }) {
+  const { width, height } = dimensions;
+  return [
+    { x: PERIMETER_INSET, y: PERIMETER_INSET, name: 'NW corner' },
+    { x: width - PERIMETER_INSET, y: PERIMETER_INSET, name: 'NE corner' },
+    { x: width - PERIMETER_INSET, y: height - PERIMETER_INSET, name: 'SE corner' },
+    { x: PERIMETER_INSET, y: height - PERIMETER_INSET, name: 'SW corner' },
+  ];
+}
+
+/** Cron fields are evaluated in UTC, so run times are shown in UTC too */
+function formatRunTime(time: number | null): string {
+  return time === null ? '—' : `${new Date(time).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+/**
+ * Recurring task rules for the current environment. Rules are stored through
+ * /api/schedules (except for the built-in default site) and pushed to the
+ * simulation server, which fires them on its own clock.
+ */
+export default function TaskSchedulePanel({ objectTypes, zoneOptions }: TaskSchedulePanelProps) {
+  const { state, socket, environmentId } = useSimulation();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const schedules = state?.schedules ?? [];
+  const persisted = environmentId !== DEFAULT_ENVIRONMENT_ID;
+
+  const labelOf = (options: Option[], value: string) => options.find(o => o.value === value)?.label ?? value;
+
+  const describeWindow = ({ startInMinutes, dueInMinutes }: TaskSchedule['template']) => [
+    startInMinutes ? `starts ${startInMinutes}m after firing` : null,
+    dueInMinutes ? `due ${dueInMinutes}m after firing` : null,
+  ].filter(Boolean).join(', ');
+
+  const describeTemplate = (template: TaskSchedule['template']) => {
+    switch (template.kind) {
+      case 'RESTOCK':
+        return `Restock ${template.quantity} × ${labelOf(objectTypes, template.objectType)} → ${labelOf(zoneOptions, template.targetZoneId)}`;
+      case 'INSPECT':
+        return `Inspect ${labelOf(zoneOptions, template.zoneId)}`;
+      case 'PATROL':
+        return `Patrol ${template.checkpoints.length} checkpoints${template.loop ? ' (loop)' : ''} × ${template.repeat ?? 1}`;
+      case 'TRANSPORT':
+        return `Transport ${template.quantity ?? 'all'} × ${template.objectType ? labelOf(objectTypes, template.objectType) : 'materials'}: ${labelOf(zoneOptions, template.sourceZoneId)} → ${labelOf(zoneOptions, template.targetZoneId)}`;
+      case 'CHARGE':
+        return `Charge ${template.robotId ?? 'lowest battery robot'} to ${template.targetLevel ?? 100}%`;
+    }
+  };
+
+  // Patrols follow the site perimeter and charging goes to the nearest station, so only restock and inspect rules need a zone
+  const incomplete = !form.name.trim() ||
+    ((form.kind === 'RESTOCK' || form.kind === 'INSPECT') && !form.zoneId) ||
+    (form.kind === 'RESTOCK' && !form.objectType) ||
+    (form.kind === 'PATROL' && !state?.dimensions);
+
+  const pushToSimulation = (schedule: Pick<TaskSchedule, 'name' | 'cron' | 'enabled' | 'priority' | 'template'> & { id?: string }) => {
+    socket?.emit('schedule:upsert', schedule);
+  };
+
+  const handleCreate = async () => {
+    if (incomplete) return;
+
+    // Each firing's tasks get their window relative to that firing
+    const window = {
+      startInMinutes: form.startInMinutes ? Number(form.startInMinutes) : null,
+      dueInMinutes: form.dueInMinutes ? Number(form.dueInMinutes) : null,
+    };
+    let template: TaskSchedule['template'];
+    if (form.kind === 'RESTOCK') {
+      template = { kind: 'RESTOCK', objectType: form.objectType, quantity: form.quantity, targetZoneId: form.zoneId, ...window };
+    } else if (form.kind === 'INSPECT') {
+      template = { kind: 'INSPECT', zoneId: form.zoneId, ...window };
+    } else if (form.kind === 'CHARGE') {
+      template = { kind: 'CHARGE', targetLevel: form.chargeTo, ...window };
+    } else {
+      template = { kind: 'PATROL', checkpoints: perimeterRoute(state!.dimensions!), loop: true, repeat: form.sweeps, ...window };
+    }
+    const schedule = { name: form.name.trim(), cron: form.cron, enabled: true, priority: form.priority, template };
+
+    setSaving(true);
+    let id: string | undefined;
+    if (persisted) {
+      try {
+        const res = await fetch('/api/schedules', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...schedule, environmentId }),
+        });
+        const data = await res.json();
+        if (data.success) id = data.schedule.id;
+        else console.error('Saving schedule failed:', data.error);
+      } catch (err) {
+        console.error('Saving schedule failed:', err);
+      }
+    }
+    pushToSimulation({ ...schedule, id });
+    setSaving(false);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleToggle = async (schedule: TaskSchedule, enabled: boolean) => {
+    if (persisted) {
+      await fetch('/api/schedules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: schedule.id, enabled }),
+      }).catch(err => console.error('Updating schedule failed:', err));
+    }
+    pushToSimulation({ ...schedule, enabled });
+  };
+
+  const handleDelete = async (schedule: TaskSchedule) => {
+    if (persisted) {
+      await fetch(`/api/schedules?id=${encodeURIComponent(schedule.id)}`, { method: 'DELETE' })
+        .catch(err => console.error('Deleting schedule failed:', err));
+    }
+    socket?.emit('schedule:remove', { scheduleId: schedule.id });
+  };
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-white flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-cyan-400" />
+          Recurring Tasks
+        </CardTitle>
+        <CardDescription className="text-slate-400">
+          Cron rules fired on the simulation clock (UTC). A rule is skipped while tasks from its last run are still open.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {schedules.length > 0 ? (
+          <div className="space-y-2">
+            {schedules.map(schedule => (
+              <div key={schedule.id} className="flex items-center gap-3 p-3 rounded-lg bg-slate-800/50 border border-slate-700">
+                <Switch
+                  checked={schedule.enabled}
+                  onCheckedChange={(checked) => handleToggle(schedule, checked)}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-white font-medium truncate">{schedule.name}</span>
+                    <Badge variant="outline" className="font-mono border-slate-600 text-slate-300">{schedule.cron}</Badge>
+                    <Badge variant="outline" className="border-slate-600 text-slate-400">{schedule.priority}</Badge>
+                  </div>
+                  <div className="text-xs text-slate-400 truncate">
+                    {describeTemplate(schedule.template)}
+                    {describeWindow(schedule.template) && ` · ${describeWindow(schedule.template)}`}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    Next {schedule.enabled ? formatRunTime(schedule.nextRunAt) : 'paused'} · Last {formatRunTime(schedule.lastRunAt)}
+                  </div>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="text-slate-500 hover:text-red-400"
+                  onClick={() => handleDelete(schedule)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">No recurring tasks yet.</p>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+          <div className="space-y-1 md:col-span-2">
+            <Label className="text-slate-400 text-xs">Name</Label>
+            <Input
+              placeholder="Morning cement restock"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="bg-slate-800 border-slate-700"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-slate-400 text-xs">Runs</Label>
+            <Select value={form.cron} onValueChange={(v) => setForm({ ...form, cron: v })}>
+              <SelectTrigger className="bg-slate-800 border-slate-700">
+                <SelectValue placeholder="Custom" />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700">
+                {CRON_PRESETS.map(preset => (
+                  <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-slate-400 text-xs">Cron</Label>
+            <Input
+              value={form.cron}
+              onChange={(e) => setForm({ ...form, cron: e.target.value })}
+              className="bg-slate-800 border-slate-700 font-mono"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-slate-400 text-xs">Task</Label>
+            <Select value={form.kind} onValueChange={(v) => setForm({ ...form, kind: v as typeof form.kind })}>
+              <SelectTrigger className="bg-slate-800 border-slate-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700">
+                <SelectItem value="RESTOCK">Restock</SelectItem>
+                <SelectItem value="INSPECT">Inspect</SelectItem>
+                <SelectItem value="PATROL">Perimeter Patrol</SelectItem>
+                <SelectItem value="CHARGE">Charge Lowest Battery</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-slate-400 text-xs">Priority</Label>
+            <Select value={form.priority} onValueChange={(v) => setForm({ ...form, priority: v as typeof form.priority })}>
+              <SelectTrigger className="bg-slate-800 border-slate-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700">
+                <SelectItem value="URGENT">Urgent</SelectItem>
+                <SelectItem value="HIGH">High</SelectItem>
+                <SelectItem value="NORMAL">Normal</SelectItem>
+                <SelectItem value="LOW">Low</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 md:col-span-3">
+            <Label className="text-slate-400 text-xs">Start In (sim minutes after firing)</Label>
+            <Input
+              type="number"
+              min={0}
+              placeholder="At once"
+              value={form.startInMinutes}
+              onChange={(e) => setForm({ ...form, startInMinutes: e.target.value })}
+              className="bg-slate-800 border-slate-700"
+            />
+          </div>
+          <div className="space-y-1 md:col-span-3">
+            <Label className="text-slate-400 text-xs">Due In (sim minutes after firing)</Label>
+            <Input
+              type="number"
+              min={1}
+              placeholder="No deadline"
+              value={form.dueInMinutes}
+              onChange={(e) => setForm({ ...form, dueInMinutes: e.target.value })}
+              className="bg-slate-800 border-slate-700"
+            />
+          </div>
+
+          {form.kind === 'RESTOCK' && (
+            <>
+              <div className="space-y-1 md:col-span-2">
+                <Label className="text-slate-400 text-xs">Material</Label>
+                <Select value={form.objectType} onValueChange={(v) => setForm({ ...form, objectType: v })}>
+                  <SelectTrigger className="bg-slate-800 border-slate-700">
+                    <SelectValue placeholder="Select material..." />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-900 border-slate-700 max-h-60">
+                    {objectTypes.map(obj => (
+                      <SelectItem key={obj.value} value={obj.value}>{obj.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-slate-400 text-xs">Quantity</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={form.quantity}
+                  onChange={(e) => setForm({ ...form, quantity: Math.max(1, Math.round(Number(e.target.value) || 1)) })}
+                  className="bg-slate-800 border-slate-700"
+                />
+              </div>
+            </>
+          )}
+          {form.kind === 'PATROL' ? (
+            <div className="space-y-1 md:col-span-5">
+              <Label className="text-slate-400 text-xs">Sweeps</Label>
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                value={form.sweeps}
+                onChange={(e) => setForm({ ...form, sweeps: Math.min(100, Math.max(1, Math.round(Number(e.target.value) || 1))) })}
+                className="bg-slate-800 border-slate-700"
+              />
+            </div>
+          ) : form.kind === 'CHARGE' ? (
+            <div className="space-y-1 md:col-span-5">
+              <Label className="text-slate-400 text-xs">Charge To (%)</Label>
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                value={form.chargeTo}
+                onChange={(e) => setForm({ ...form, chargeTo: Math.min(100, Math.max(1, Math.round(Number(e.target.value) || 100))) })}
+                className="bg-slate-800 border-slate-700"
+              />
+            </div>
+          ) : (
+            <div className={`space-y-1 ${form.kind === 'RESTOCK' ? 'md:col-span-2' : 'md:col-span-5'}`}>
+              <Label className="text-slate-400 text-xs">{form.kind === 'RESTOCK' ? 'Deliver To' : 'Zone'}</Label>
+              <Select value={form.zoneId} onValueChange={(v) => setForm({ ...form, zoneId: v })}>
+                <SelectTrigger className="bg-slate-800 border-slate-700">
+                  <SelectValue placeholder="Select zone..." />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-900 border-slate-700">
+                  {zoneOptions.map(zone => (
+                    <SelectItem key={zone.value} value={zone.value}>{zone.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <Button
+            onClick={handleCreate}
+            disabled={saving || !socket || incomplete}
+            className="bg-gradient-to-r from-cyan-600 to-blue-600"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -47,8 +47,30 @@ const ZONE_TYPES = [
   { value: 'CHARGING_STATION', label: 'Charging Station', color: '#06b6d4' },
   { value: 'ROBOT_HOME', label: 'Robot Home', color: '#10b981' },
   { value: 'INSPECTION_POINT', label: 'Inspection Point', color: '#ec4899' },
+  { value: 'ONE_WAY_LANE', label: 'One-Way Lane', color: '#94a3b8' },
+  { value: 'INTERSECTION', label: 'Intersection', color: '#facc15' },
 ];
 
+const LANE_DIRECTIONS = [
+  { value: 'NORTH', label: '↑ North' },
+  { value: 'EAST', label: '→ East' },
+  { value: 'SOUTH', label: '↓ South' },
+  { value: 'WEST', label: '← West' },
+];
+
+type LaneDirection = 'NORTH' | 'EAST' | 'SOUTH' | 'WEST';
+
+/** ISO timestamp as the local "YYYY-MM-DDTHH:mm" value a datetime-local input expects */
+function toLocalInput(iso: string | null | undefined): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
 interface Zone {
   id: string;
   name: string;
@@ -56,6 +78,12 @@ interface Zone {
   bounds: { x: number; y: number; width: number; height: number };
   color: string;
   capacity?: number;
+  maxRobots?: number | null; // concurrent robots allowed inside (intersections default to 1)
+  direction?: LaneDirection | null; // one-way lanes only
+  activeFrom?: string | null; // restricted areas only: ISO keep-out window on the sim clock, open-ended when null
+  activeUntil?: string | null;
+  chargingDocks?: number | null; // charging stations only: docks robots charge at, 2 when unset
+  chargingPower?: number | null; // charging stations only: kW per dock, 7.5 when unset
   aiGenerated?: boolean;
   confidence?: number;
 }
@@ -232,11 +260,13 @@ export default function ZoneDrawingTool({
           bounds.y + bounds.height / 2
         );
         
-        // Type label
+        // Type label (with lane direction or robot limit where set)
+        const direction = LANE_DIRECTIONS.find(d => d.value === zone.direction);
+        const trafficLabel = direction ? ` ${direction.label.split(' ')[0]}` : zone.maxRobots ? ` · max ${zone.maxRobots}` : '';
         ctx.font = '10px Inter, sans-serif';
         ctx.fillStyle = zone.color;
         ctx.fillText(
-          zone.type.replace(/_/g, ' '),
+          zone.type.replace(/_/g, ' ') + trafficLabel,
           bounds.x + bounds.width / 2,
           bounds.y + bounds.height / 2 + 14
         );
@@ -375,7 +405,10 @@ export default function ZoneDrawingTool({
       type: newZoneType,
       bounds: currentRect,
       color: typeInfo?.color || '#6366f1',
-      capacity: 10
+      capacity: 10,
+      ...(newZoneType === 'ONE_WAY_LANE' && {
+        direction: currentRect.width >= currentRect.height ? 'EAST' as const : 'SOUTH' as const
+      }),
     };
     
     // Save to history
@@ -657,7 +690,8 @@ export default function ZoneDrawingTool({
                       setEditingZone(prev => prev ? { 
                         ...prev, 
                         type: value,
-                        color: typeInfo?.color || prev.color
+                        color: typeInfo?.color || prev.color,
+                        direction: value === 'ONE_WAY_LANE' ? prev.direction ?? 'EAST' : null
                       } : null);
                     }}
                   >
@@ -688,6 +722,87 @@ export default function ZoneDrawingTool({
                     className="bg-slate-800 border-slate-700"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label>Max Robots Inside</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder={editingZone.type === 'INTERSECTION' ? '1' : 'Unlimited'}
+                    value={editingZone.maxRobots ?? ''}
+                    onChange={(e) => setEditingZone(prev => prev ? { ...prev, maxRobots: parseInt(e.target.value) || null } : null)}
+                    className="bg-slate-800 border-slate-700"
+                  />
+                </div>
+                {editingZone.type === 'ONE_WAY_LANE' && (
+                  <div className="space-y-2">
+                    <Label>Direction of Travel</Label>
+                    <Select
+                      value={editingZone.direction ?? 'EAST'}
+                      onValueChange={(value) => setEditingZone(prev => prev ? { ...prev, direction: value as LaneDirection } : null)}
+                    >
+                      <SelectTrigger className="bg-slate-800 border-slate-700">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LANE_DIRECTIONS.map(direction => (
+                          <SelectItem key={direction.value} value={direction.value}>
+                            {direction.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {editingZone.type === 'RESTRICTED_AREA' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-2">
+                      <Label>Keep Out From</Label>
+                      <Input
+                        type="datetime-local"
+                        value={toLocalInput(editingZone.activeFrom)}
+                        onChange={(e) => setEditingZone(prev => prev ? { ...prev, activeFrom: fromLocalInput(e.target.value) } : null)}
+                        className="bg-slate-800 border-slate-700"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Keep Out Until</Label>
+                      <Input
+                        type="datetime-local"
+                        value={toLocalInput(editingZone.activeUntil)}
+                        onChange={(e) => setEditingZone(prev => prev ? { ...prev, activeUntil: fromLocalInput(e.target.value) } : null)}
+                        className="bg-slate-800 border-slate-700"
+                      />
+                    </div>
+                    <p className="col-span-2 text-xs text-slate-400">Leave both empty to keep robots out at all times. Times are read on the simulation clock, which runs at the sim speed and stops while paused.</p>
+                  </div>
+                )}
+                {editingZone.type === 'CHARGING_STATION' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-2">
+                      <Label>Charging Docks</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        placeholder="2"
+                        value={editingZone.chargingDocks ?? ''}
+                        onChange={(e) => setEditingZone(prev => prev ? { ...prev, chargingDocks: parseInt(e.target.value) || null } : null)}
+                        className="bg-slate-800 border-slate-700"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Power per Dock (kW)</Label>
+                      <Input
+                        type="number"
+                        min={0.5}
+                        step={0.5}
+                        placeholder="7.5"
+                        value={editingZone.chargingPower ?? ''}
+                        onChange={(e) => setEditingZone(prev => prev ? { ...prev, chargingPower: parseFloat(e.target.value) || null } : null)}
+                        className="bg-slate-800 border-slate-700"
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
             )}
             <DialogFooter>
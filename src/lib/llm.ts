@@ -102,6 +102,7 @@ export function generateSchedulingPrompt(
 - Task ID: ${t.id}
   Type: ${t.type}
   Priority: ${t.priority}
+  Due By: ${t.dueBy ? new Date(t.dueBy).toISOString() : 'None'}
   Start Location: (${t.startLocation.x}, ${t.startLocation.y})
   End Location: (${t.endLocation.x}, ${t.endLocation.y})
   Items: ${t.items ? t.items.length : 0}`).join('\n');
@@ -115,9 +116,10 @@ Rules:
 1. Only assign tasks to robots with battery >= 30%
 2. Prefer robots that are IDLE over MOVING robots
 3. Prioritize tasks: URGENT > HIGH > NORMAL > LOW
-4. Consider distance: assign closer robots when possible
-5. Balance workload across the fleet
-6. If a robot is already busy, don't assign new tasks
+4. Among equal priorities, schedule the earliest Due By first; a task finished after its Due By counts as failed
+5. Consider distance: assign closer robots when possible
+6. Balance workload across the fleet
+7. If a robot is already busy, don't assign new tasks
 
 Output format:
 Respond with a JSON array of assignments:
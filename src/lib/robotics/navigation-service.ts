@@ -41,6 +41,14 @@ interface Zone {
   id: string;
   type: string;
   bounds: { x: number; y: number; width: number; height: number };
+  activeFrom?: number | null; // RESTRICTED_AREA keep-out window (epoch ms); null = open-ended
+  activeUntil?: number | null;
+}
+
+/** Whether a RESTRICTED_AREA keeps robots out at `now`: always, or only inside its time window */
+export function isKeepOutActive(zone: Zone, now: number = Date.now()): boolean {
+  if (zone.type !== 'RESTRICTED_AREA') return false;
+  return (zone.activeFrom == null || now >= zone.activeFrom) && (zone.activeUntil == null || now < zone.activeUntil);
 }
 
 // ============================================
@@ -181,11 +189,9 @@ export class MapProcessor {
       for (let y = startY; y < endY && y < grid.length; y++) {
         for (let x = startX; x < endX && x < grid[0].length; x++) {
           if (y >= 0 && x >= 0 && grid[y][x] === 0) {
-            // Mark zones with special values (negative = traversable zones)
+            // Mark zones with special values (negative = traversable zones).
+            // RESTRICTED_AREA is a hard keep-out enforced by AStarPathfinder, so its time window applies
             switch (zone.type) {
-              case 'RESTRICTED_AREA':
-                grid[y][x] = 0.9; // Almost blocked
-                break;
               case 'CHARGING_STATION':
                 grid[y][x] = -0.1; // Prefer paths through charging
                 break;
@@ -206,21 +212,33 @@ export class MapProcessor {
 export class AStarPathfinder {
   private grid: number[][];
   private resolution: number;
+  private keepOutZones: Zone[];
+  private activeKeepOut: Zone[] = [];
 
-  constructor(grid: number[][], resolution: number = 1) {
+  /** `keepOutZones` are RESTRICTED_AREA zones; each is untraversable while its time window is open */
+  constructor(grid: number[][], resolution: number = 1, keepOutZones: Zone[] = []) {
     this.grid = grid;
     this.resolution = resolution;
+    this.keepOutZones = keepOutZones.filter(z => z.type === 'RESTRICTED_AREA');
   }
 
   /**
    * Find path from start to goal using A* algorithm
-   * Returns array of waypoints in world coordinates
+   * Returns array of waypoints in world coordinates.
+   * A goal inside an active keep-out zone, or one only reachable through it,
+   * returns just `[start]` — the robot stays put rather than enter.
    */
   findPath(start: Pose2D, goal: Pose2D): Pose2D[] {
     // Convert world coords to grid coords
     const startGrid = this.worldToGrid(start);
     const goalGrid = this.worldToGrid(goal);
 
+    this.activeKeepOut = this.keepOutZones.filter(z => isKeepOutActive(z));
+    if (this.isKeptOut(goal)) {
+      console.warn('Goal is inside a restricted area');
+      return [start];
+    }
+
     // Validate start and goal
     if (!this.isValidCell(startGrid.x, startGrid.y)) {
       console.warn('Invalid start position');
@@ -290,7 +308,11 @@ export class AStarPathfinder {
       }
     }
 
-    // No path found - return direct path
+    // No path found - return direct path, unless it would cut through a restricted area
+    if (this.activeKeepOut.length > 0) {
+      console.warn('No path found around restricted areas');
+      return [start];
+    }
     console.warn('No path found, returning direct route');
     return [start, goal];
   }
@@ -316,9 +338,17 @@ export class AStarPathfinder {
 
   private isWalkable(x: number, y: number): boolean {
     if (!this.isValidCell(x, y)) return false;
+    if (this.isKeptOut(this.gridToWorld(x, y))) return false;
     return this.grid[y][x] < 0.5; // Less than 50% occupied
   }
 
+  private isKeptOut(point: { x: number; y: number }): boolean {
+    return this.activeKeepOut.some(z =>
+      point.x >= z.bounds.x && point.x <= z.bounds.x + z.bounds.width &&
+      point.y >= z.bounds.y && point.y <= z.bounds.y + z.bounds.height
+    );
+  }
+
   private heuristic(a: { x: number; y: number }, b: { x: number; y: number }): number {
     // Euclidean distance
     return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
@@ -457,7 +487,7 @@ export class NavigationService implements INavigationService {
           }
         }
       }
-      this.pathfinder = new AStarPathfinder(this.map.grid, this.map.resolution);
+      this.pathfinder = new AStarPathfinder(this.map.grid, this.map.resolution, this.zones);
     }
   }
 
@@ -476,7 +506,7 @@ export class NavigationService implements INavigationService {
 
   async loadMap(imageUrl: string, resolution: number = 0.05): Promise<void> {
     this.map = await MapProcessor.processImageToGrid(imageUrl, resolution);
-    this.pathfinder = new AStarPathfinder(this.map.grid, this.map.resolution);
+    this.pathfinder = new AStarPathfinder(this.map.grid, this.map.resolution, this.zones);
     console.log(`Map loaded: ${this.map.width}x${this.map.height}, resolution=${resolution}m/px`);
   }
 
@@ -488,14 +518,14 @@ export class NavigationService implements INavigationService {
       height: grid.height,
       origin: { x: grid.origin.x, y: grid.origin.y },
     };
-    this.pathfinder = new AStarPathfinder(this.map.grid, this.map.resolution);
+    this.pathfinder = new AStarPathfinder(this.map.grid, this.map.resolution, this.zones);
   }
 
   setZones(zones: Zone[]): void {
     this.zones = zones;
     if (this.map) {
       MapProcessor.addZonesToGrid(this.map.grid, zones, this.map.resolution);
-      this.pathfinder = new AStarPathfinder(this.map.grid, this.map.resolution);
+      this.pathfinder = new AStarPathfinder(this.map.grid, this.map.resolution, zones);
     }
   }
 
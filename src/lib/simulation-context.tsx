@@ -1,8 +1,9 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { getWebSocketUrl } from './websocket-url';
+import { subscribeStateStream } from './state-stream';
 
 // ============================================
 // TYPES
@@ -14,21 +15,45 @@ export interface Robot {
   type: string;
   status: string;
   battery: number;
+  payloadCapacity: number; // kg
   pose: { x: number; y: number; rotation: number };
   currentTaskId: string | null;
   tasksCompleted: number;
   distanceTraveled: number;
   pickSuccessRate: number;
+  fault?: RobotFault | null;
+  operatingSeconds?: number; // time spent working, towards the service interval
+  lastService?: { at: number | null; operatingSeconds: number; distanceTraveled: number };
+  serviceDue?: boolean; // takes no new work until serviced
+  serviceEndsAt?: number | null; // sim clock ms
+  uptime?: { up: number; fault: number; maintenance: number }; // seconds
+}
+
+/** A robot fault code and how it clears (matching the server's RobotFault) */
+export interface RobotFault {
+  code: string;
+  description: string;
+  recovery: 'AUTO_RESET' | 'OPERATOR_ACK' | 'TECHNICIAN';
+  raisedAt: number;
+  clearsAt: number | null; // sim clock ms; null until acknowledged
+}
+
+/** Service intervals (matching the server's MaintenanceSettings) */
+export interface MaintenanceSettings {
+  intervalHours: number;
+  intervalDistance: number;
+  serviceMinutes: number;
 }
 
 export interface SimulationTask {
   id: string;
   type: string;
   status: string;
+  priority?: 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT';
   objectId: string;
   targetZone: string | null;
   assignedRobotId: string | null;
-  steps: Array<{ action: string; target: string; completed: boolean }>;
+  steps: Array<{ action: string; target: string | { x: number; y: number }; completed: boolean }>;
   currentStep: number;
   createdAt: number;
   startedAt: number | null;
@@ -36,6 +61,78 @@ export interface SimulationTask {
   retryCount?: number;
   maxRetries?: number;
   failureReason?: string | null;
+  dependsOn?: string[]; // tasks that must complete first; status is BLOCKED until then
+  earliestStart?: number | null; // sim clock ms; not dispatched before
+  dueBy?: number | null; // sim clock ms; late if completed after
+  estimatedDuration?: number; // seconds
+  patrol?: {
+    checkpoints: Array<{ position: { x: number; y: number }; name?: string; dwellSeconds: number }>;
+    loop: boolean;
+    repeat: number;
+    log: Array<{ checkpoint: number; pass: number; scan: { robotId: string; timestamp: number } }>;
+  } | null;
+  inspection?: {
+    result: 'PASS' | 'FAIL';
+    inspectedAt: number;
+    objectIds: string[];
+    findings: Array<{ objectId: string; defects: string[]; disposition: 'REWORK' | 'RETURN'; followUpTaskId: string | null }>;
+  } | null;
+  disposition?: 'REWORK' | 'RETURN' | null; // rework or return-to-supplier task
+  reservedFor?: string | null; // robot a CHARGE task is issued for
+}
+
+/** Recurring task rule (matching the server's TaskSchedule) */
+export interface TaskSchedule {
+  id: string;
+  name: string;
+  cron: string; // minute hour day-of-month month day-of-week, UTC on the sim clock
+  enabled: boolean;
+  priority: 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT';
+  template: { startInMinutes?: number | null; dueInMinutes?: number | null } & ( // task window, in sim minutes from each firing
+    | { kind: 'RESTOCK'; objectType: string; quantity: number; targetZoneId: string; sourceZoneId?: string | null }
+    | { kind: 'INSPECT'; zoneId: string }
+    | { kind: 'PATROL'; checkpoints: Array<{ x: number; y: number; name?: string }>; loop?: boolean; repeat?: number; dwellSeconds?: number }
+    | { kind: 'TRANSPORT'; sourceZoneId: string; targetZoneId: string; objectType?: string; quantity?: number }
+    | { kind: 'CHARGE'; robotId?: string; targetLevel?: number }
+  );
+  nextRunAt: number | null;
+  lastRunAt: number | null;
+  taskIds: string[];
+}
+
+export type FaultKind = 'BREAKDOWN' | 'DROPPED_OBJECT' | 'PICK_FAILURE' | 'LIDAR_DROPOUT' | 'BLOCKED_AISLE' | 'BATTERY_CELL_FAILURE';
+
+/** Chaos mode settings (matching the server's ChaosSettings); windows are ms on the sim clock */
+export interface ChaosSettings {
+  enabled: boolean;
+  faults: Record<FaultKind, { probability: number; durationSeconds: number; activeFrom: number | null; activeUntil: number | null }>;
+}
+
+/** An injected fault, in effect while `active` */
+export interface Fault {
+  id: string;
+  kind: FaultKind;
+  robotId: string | null;
+  obstacleId: string | null;
+  detail: string;
+  startedAt: number;
+  endsAt: number | null;
+  active: boolean;
+}
+
+/** Optional fields of `task:create`; times are ms on the sim clock */
+export interface TaskOptions {
+  robotId?: string;
+  priority?: SimulationTask['priority'];
+  earliestStart?: number | null;
+  dueBy?: number | null;
+}
+
+/** A spot in a zone sized to one object; taskId is set while the object is on its way */
+export interface ZoneSlot {
+  objectId: string;
+  taskId: string | null;
+  bounds: { x: number; y: number; width: number; height: number };
 }
 
 export interface Zone {
@@ -47,6 +144,16 @@ export interface Zone {
   capacity: number;
   currentOccupancy: number;
   objects?: string[];
+  slots?: ZoneSlot[];
+  maxRobots?: number | null;
+  direction?: 'NORTH' | 'EAST' | 'SOUTH' | 'WEST' | null;
+  activeFrom?: number | null;
+  activeUntil?: number | null;
+  robots?: string[];
+  queue?: string[];
+  docks?: (string | null)[];
+  chargeQueue?: string[];
+  chargingPower?: number | null;
 }
 
 export interface SimulationObject {
@@ -57,6 +164,20 @@ export interface SimulationObject {
   color: string;
   weight: number;
   pose: { x: number; y: number; rotation: number };
+  condition?: number; // 0-1
+  qcStatus?: 'UNINSPECTED' | 'PASSED' | 'FAILED';
+}
+
+/** One change of an object's location; a null zone is a robot carrying it, or off site */
+export interface InventoryMovement {
+  id: string;
+  objectId: string;
+  objectType: string;
+  fromZoneId: string | null;
+  toZoneId: string | null;
+  robotId: string | null;
+  taskId: string | null;
+  at: number; // sim clock ms
 }
 
 export interface SimulationState {
@@ -66,10 +187,18 @@ export interface SimulationState {
   dimensions?: { width: number; height: number };
   tick: number;
   timeMultiplier: number;
+  simTime?: number; // simulated ms since the run started
+  clockStart?: number; // what the sim clock read at the start
   robots: Robot[];
   objects: SimulationObject[];
   zones: Zone[];
   tasks: SimulationTask[];
+  schedules?: TaskSchedule[];
+  quality?: { detectionProbability: number; defectRate: number };
+  chaos?: ChaosSettings;
+  faults?: Fault[];
+  maintenance?: MaintenanceSettings;
+  movements?: InventoryMovement[]; // latest ledger entries, oldest first
   metrics: {
     totalTasksCreated: number;
     totalTasksCompleted: number;
@@ -77,6 +206,24 @@ export interface SimulationState {
     fleetEfficiency: number;
     averageTaskTime: number;
     pickSuccessRate: number;
+    nearMisses: number;
+    restrictedAreaViolations: number;
+    onTimeTasks: number;
+    lateTasks: number;
+    onTimeRate: number;
+    averageLateness: number;
+    atRiskTasks: number;
+    inspectionsPassed: number;
+    inspectionsFailed: number;
+    defectsDetected: number;
+    defectsMissed: number;
+    faultsInjected: number;
+    taskRetries: number;
+    faultsRaised: number;
+    servicesCompleted: number;
+    faultDowntime: number; // robot-seconds
+    maintenanceDowntime: number; // robot-seconds
+    fleetAvailability: number; // 0-1
   };
 }
 
@@ -84,24 +231,31 @@ interface SimulationContextType {
   state: SimulationState | null;
   isConnected: boolean;
   socket: Socket | null;
+  environmentId: string;
   // Actions
+  joinEnvironment: (environmentId: string) => void;
   startSimulation: () => void;
   pauseSimulation: () => void;
   stopSimulation: () => void;
   resetSimulation: () => void;
-  createTask: (objectId: string, targetZoneId: string, robotId?: string) => void;
+  createTask: (objectId: string, targetZoneId: string, options?: TaskOptions) => void;
 }
 
 // ============================================
 // CONTEXT
 // ============================================
 
+// Simulation instance the server uses when no environment is requested
+export const DEFAULT_ENVIRONMENT_ID = 'default';
+
 const SimulationContext = createContext<SimulationContextType | undefined>(undefined);
 
 export function SimulationProvider({ children }: { children: ReactNode }) {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [state, setState] = useState<SimulationState | null>(null);
+  const [environmentId, setEnvironmentId] = useState(DEFAULT_ENVIRONMENT_ID);
+  const environmentIdRef = useRef(DEFAULT_ENVIRONMENT_ID);
 
   useEffect(() => {
     // Connect to WebSocket server (auto-detects Codespaces, localhost, production)
@@ -117,6 +271,8 @@ export function SimulationProvider({ children }: { children: ReactNode }) {
       reconnectionDelay: 1000,
       timeout: 20000,
       autoConnect: true,
+      // Read on every (re)connect so the server puts us back in the same environment
+      auth: (cb) => cb({ environmentId: environmentIdRef.current }),
     });
 
     socketInstance.on('connect', () => {
@@ -132,6 +288,13 @@ export function SimulationProvider({ children }: { children: ReactNode }) {
       setState(newState);
     });
 
+    // Dashboard pages never draw LiDAR, so the stream leaves it out
+    const stateStream = subscribeStateStream<SimulationState>(
+      socketInstance,
+      { encoding: 'json', lidar: false },
+      setState,
+    );
+
     socketInstance.on('task:failed', (data: { taskId: string; reason: string; retryCount: number; objectId: string }) => {
       console.warn(`⚠️ Task ${data.taskId} failed (attempt ${data.retryCount}): ${data.reason}`);
     });
@@ -144,17 +307,26 @@ export function SimulationProvider({ children }: { children: ReactNode }) {
     setSocket(socketInstance);
 
     return () => {
+      stateStream.close();
       socketInstance.disconnect();
     };
   }, []);
 
+  // Switch to another environment's simulation instance
+  const joinEnvironment = (id: string) => {
+    if (!socket || id === environmentIdRef.current) return;
+    environmentIdRef.current = id;
+    setEnvironmentId(id);
+    socket.emit('simulation:join', { environmentId: id });
+  };
+
   const startSimulation = () => socket?.emit('simulation:start');
   const pauseSimulation = () => socket?.emit('simulation:pause');
   const stopSimulation = () => socket?.emit('simulation:stop');
   const resetSimulation = () => socket?.emit('simulation:reset');
   
-  const createTask = (objectId: string, targetZoneId: string, robotId?: string) => {
-    socket?.emit('task:create', { objectId, targetZoneId, robotId });
+  const createTask = (objectId: string, targetZoneId: string, options: TaskOptions = {}) => {
+    socket?.emit('task:create', { objectId, targetZoneId, ...options });
   };
 
   return (
@@ -163,6 +335,8 @@ export function SimulationProvider({ children }: { children: ReactNode }) {
         state,
         isConnected,
         socket,
+        environmentId,
+        joinEnvironment,
         startSimulation,
         pauseSimulation,
         stopSimulation,
@@ -183,6 +357,14 @@ export function useSimulation() {
   return context;
 }
 
+/**
+ * What the simulation's clock reads now (epoch ms). It runs with simulated
+ * time, not the wall clock, so times sent to the server must be on it.
+ */
+export function simClock(state: Pick<SimulationState, 'simTime' | 'clockStart'>): number {
+  return (state.clockStart ?? Date.now()) + (state.simTime ?? 0);
+}
+
 // Mock data matching actual WebSocket server robots
 export const MOCK_ROBOTS: Robot[] = [
   {
@@ -191,6 +373,7 @@ export const MOCK_ROBOTS: Robot[] = [
     type: 'MOBILE_MANIPULATOR',
     status: 'IDLE',
     battery: 100,
+    payloadCapacity: 35,
     pose: { x: 100, y: 250, rotation: 0 },
     currentTaskId: null,
     tasksCompleted: 0,
@@ -203,6 +386,7 @@ export const MOCK_ROBOTS: Robot[] = [
     type: 'MOBILE_MANIPULATOR',
     status: 'IDLE',
     battery: 85,
+    payloadCapacity: 35,
     pose: { x: 300, y: 450, rotation: 90 },
     currentTaskId: null,
     tasksCompleted: 0,
@@ -215,6 +399,7 @@ export const MOCK_ROBOTS: Robot[] = [
     type: 'FORKLIFT',
     status: 'IDLE',
     battery: 90,
+    payloadCapacity: 500,
     pose: { x: 600, y: 250, rotation: 180 },
     currentTaskId: null,
     tasksCompleted: 0,
@@ -227,6 +412,7 @@ export const MOCK_ROBOTS: Robot[] = [
     type: 'AMR_TRANSPORT',
     status: 'IDLE',
     battery: 75,
+    payloadCapacity: 100,
     pose: { x: 750, y: 400, rotation: 270 },
     currentTaskId: null,
     tasksCompleted: 0,
@@ -237,7 +423,7 @@ export const MOCK_ROBOTS: Robot[] = [
 
 // Mock zones matching actual WebSocket server
 export const MOCK_ZONES: Zone[] = [
-  { id: 'zone-material-storage', name: 'Material Storage', type: 'MATERIAL_STORAGE', bounds: { x: 50, y: 50, width: 200, height: 150 }, color: '#6366f1', capacity: 20, currentOccupancy: 30 },
+  { id: 'zone-material-storage', name: 'Material Storage', type: 'MATERIAL_STORAGE', bounds: { x: 50, y: 50, width: 200, height: 150 }, color: '#6366f1', capacity: 20, currentOccupancy: 18 },
   { id: 'zone-assembly', name: 'Assembly Area', type: 'ASSEMBLY_AREA', bounds: { x: 400, y: 300, width: 250, height: 200 }, color: '#22c55e', capacity: 10, currentOccupancy: 0 },
   { id: 'zone-staging', name: 'Staging Zone', type: 'STAGING_ZONE', bounds: { x: 700, y: 100, width: 180, height: 150 }, color: '#f59e0b', capacity: 15, currentOccupancy: 10 },
   { id: 'zone-charging', name: 'Charging Station', type: 'CHARGING_STATION', bounds: { x: 800, y: 600, width: 150, height: 150 }, color: '#06b6d4', capacity: 4, currentOccupancy: 0 },
@@ -0,0 +1,152 @@
+import { decode } from '@msgpack/msgpack';
+import type { Socket } from 'socket.io-client';
+
+/**
+ * Client side of the simulation server's delta state stream
+ * (see websocket-services/state-stream.ts for the protocol).
+ */
+
+// ============================================
+// TYPES (matching server state-stream types)
+// ============================================
+
+interface Entity {
+  id: string;
+}
+
+export interface EntityDelta<T extends Entity = Entity> {
+  upsert: T[];
+  remove: string[];
+}
+
+export interface StateDelta {
+  seq: number;
+  tick: number;
+  simTime: number;
+  meta?: Record<string, unknown>;
+  metrics?: Record<string, unknown>;
+  robots?: EntityDelta;
+  objects?: EntityDelta;
+  zones?: EntityDelta;
+  obstacles?: EntityDelta;
+  tasks?: EntityDelta;
+  schedules?: EntityDelta;
+  faults?: EntityDelta;
+  movements?: EntityDelta;
+}
+
+export interface StreamOptions {
+  encoding: 'json' | 'msgpack';
+  lidar: boolean;
+}
+
+const ENTITY_KEYS = ['robots', 'objects', 'zones', 'obstacles', 'tasks', 'schedules', 'faults', 'movements'] as const;
+
+// ============================================
+// DECODING
+// ============================================
+
+export function decodeStateDelta(data: StateDelta | ArrayBuffer | Uint8Array): StateDelta {
+  return data instanceof ArrayBuffer || ArrayBuffer.isView(data)
+    ? decode(data) as StateDelta
+    : data;
+}
+
+function applyEntities(list: Entity[] | undefined, delta: EntityDelta | undefined): Entity[] | undefined {
+  if (!delta) return list;
+
+  const removed = new Set(delta.remove);
+  const upserts = new Map(delta.upsert.map(e => [e.id, e]));
+  const next = (list ?? [])
+    .filter(e => !removed.has(e.id))
+    .map(e => {
+      const updated = upserts.get(e.id);
+      if (!updated) return e;
+      upserts.delete(e.id);
+      return updated;
+    });
+
+  // New entities keep the server's insertion order at the end of the list
+  return [...next, ...upserts.values()];
+}
+
+/** Returns a new state with the delta applied; unchanged entity lists keep their identity */
+export function applyStateDelta<S extends object>(state: S, delta: StateDelta): S {
+  const next: Record<string, unknown> = {
+    ...state,
+    ...delta.meta,
+    tick: delta.tick,
+    simTime: delta.simTime,
+  };
+  if (delta.metrics) next.metrics = delta.metrics;
+
+  for (const key of ENTITY_KEYS) {
+    if (delta[key]) {
+      next[key] = applyEntities(next[key] as Entity[] | undefined, delta[key]);
+    }
+  }
+  return next as S;
+}
+
+// ============================================
+// SUBSCRIPTION
+// ============================================
+
+/**
+ * Subscribe a socket to the delta stream and call `onState` with the rebuilt
+ * state after the snapshot and every delta. Re-subscribes on reconnect and
+ * whenever a delta is missed.
+ */
+export function subscribeStateStream<S extends object>(
+  socket: Socket,
+  options: StreamOptions,
+  onState: (state: S) => void,
+) {
+  let current: S | null = null;
+  let seq = 0;
+
+  const subscribe = () => {
+    current = null;
+    socket.emit('simulation:subscribe', { mode: 'delta', ...options });
+  };
+
+  const handleSnapshot = (data: { seq: number; state: S }) => {
+    seq = data.seq;
+    current = data.state;
+    onState(current);
+  };
+
+  const handleDelta = (data: StateDelta | ArrayBuffer | Uint8Array) => {
+    // Deltas that arrive before the snapshot are already part of it
+    if (!current) return;
+
+    const delta = decodeStateDelta(data);
+    if (delta.seq !== seq + 1) {
+      console.warn(`⚠️ State stream out of sync (expected ${seq + 1}, got ${delta.seq}), resubscribing`);
+      subscribe();
+      return;
+    }
+    seq = delta.seq;
+    current = applyStateDelta(current, delta);
+    onState(current);
+  };
+
+  socket.on('connect', subscribe);
+  socket.on('simulation:snapshot', handleSnapshot);
+  socket.on('simulation:delta', handleDelta);
+  if (socket.connected) subscribe();
+
+  return {
+    update(next: Partial<StreamOptions>) {
+      Object.assign(options, next);
+      subscribe();
+    },
+    close() {
+      socket.off('connect', subscribe);
+      socket.off('simulation:snapshot', handleSnapshot);
+      socket.off('simulation:delta', handleDelta);
+    },
+  };
+}
+
+export type StateStream = ReturnType<typeof subscribeStateStream>;
@@ -0,0 +1,323 @@
+/**
+ * ArcSpatial Intelligence - Headless Batch Simulation Runner
+ * Runs simulation scenarios without Socket.IO, as fast as the CPU allows,
+ * and persists the results to the Prisma `Simulation` model.
+ *
+ * Usage:
+ *   npm run sim:batch -- <scenario.json> [more.json ...] [--duration 3600] [--seed 42] [--output results.json] [--dry-run]
+ *
+ * Scenario file:
+ *   {
+ *     "name": "Overnight sort what-if",
+ *     "environmentId": "clx...",        // Environment the run belongs to
+ *     "seed": 42,                        // optional, random if omitted (always recorded)
+ *     "clockStart": "2025-03-03T06:00:00Z", // optional, what the sim clock reads at the start; now if omitted (always recorded)
+ *     "duration": 3600,                  // simulated seconds
+ *     "zones": [ ... ],                  // optional, same payload as zones:update
+ *     "commands": [                      // optional, same events/payloads as the socket API
+ *       { "at": 0, "event": "ai:schedule" },
+ *       { "at": 30, "event": "task:create", "payload": { "objectId": "...", "targetZoneId": "zone-assembly" } }
+ *     ]
+ *   }
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { PrismaClient } from '@prisma/client';
+import {
+  Command,
+  FIXED_TIMESTEP,
+  SimulationState,
+  ZoneInput,
+  applyCommand,
+  createInitialState,
+  parseCommand,
+  parseSeed,
+  serializeState,
+  stepSimulation,
+  updateZones,
+} from './simulation-engine';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ScenarioCommand {
+  at: number; // simulated seconds
+  event: string;
+  payload?: unknown; // checked against the event by parseCommand before the run starts
+}
+
+export interface BatchScenario {
+  name: string;
+  environmentId: string;
+  seed?: number;
+  clockStart?: string; // ISO date-time
+  duration: number;
+  zones?: ZoneInput[];
+  commands?: ScenarioCommand[];
+}
+
+export interface RobotStats {
+  id: string;
+  name: string;
+  type: string;
+  status: string;
+  battery: number;
+  tasksCompleted: number;
+  distanceTraveled: number;
+  pickSuccessRate: number;
+}
+
+export interface BatchResult {
+  scenario: BatchScenario;
+  seed: number;
+  clockStart: number;
+  state: SimulationState;
+  robots: RobotStats[];
+  totalDistance: number;
+  commandErrors: Array<{ at: number; event: string; message: string }>;
+  wallClockMs: number;
+}
+
+// ============================================
+// RUNNER
+// ============================================
+
+/**
+ * Check every command before anything runs, in time order, so a malformed
+ * scenario is rejected up front with the offending entry named
+ */
+function parseCommands(scenario: BatchScenario): Array<{ at: number; command: Command }> {
+  return (scenario.commands || [])
+    .map((entry, i) => {
+      try {
+        if (!Number.isFinite(entry.at) || entry.at < 0) throw new Error('at must be zero or more seconds');
+        return { at: entry.at, command: parseCommand(entry.event, entry.payload) };
+      } catch (error) {
+        throw new Error(`Command ${i + 1} (${entry.event}): ${(error as Error).message}`);
+      }
+    })
+    .sort((a, b) => a.at - b.at);
+}
+
+/**
+ * Run a scenario to completion. Always seeded and fixed-step, so a result
+ * can be reproduced from its recorded seed and clock start and the same
+ * scenario file.
+ */
+export function runScenario(scenario: BatchScenario): BatchResult {
+  const seed = parseSeed(scenario.seed) ?? (Date.now() >>> 0);
+  const clockStart = scenario.clockStart === undefined ? Date.now() : Date.parse(scenario.clockStart);
+  if (!Number.isFinite(clockStart)) throw new Error(`Invalid clockStart "${scenario.clockStart}"`);
+  const state = createInitialState(seed, clockStart);
+  state.name = scenario.name;
+
+  if (scenario.zones && scenario.zones.length > 0) {
+    updateZones(state, scenario.zones);
+  }
+
+  const commands = parseCommands(scenario);
+  const commandErrors: BatchResult['commandErrors'] = [];
+  let nextCommand = 0;
+
+  const totalSteps = Math.ceil(scenario.duration / FIXED_TIMESTEP);
+  const startedAt = Date.now();
+
+  state.status = 'RUNNING';
+  for (let i = 0; i < totalSteps; i++) {
+    // Commands fire at the first step boundary at or after their timestamp
+    while (nextCommand < commands.length && commands[nextCommand].at * 1000 <= state.simTime) {
+      const { at, command } = commands[nextCommand++];
+      try {
+        applyCommand(state, command);
+      } catch (error) {
+        commandErrors.push({ at, event: command.event, message: (error as Error).message });
+      }
+    }
+    stepSimulation(state, FIXED_TIMESTEP);
+  }
+  state.status = 'STOPPED';
+
+  const robots: RobotStats[] = Array.from(state.robots.values()).map(r => ({
+    id: r.id,
+    name: r.name,
+    type: r.type,
+    status: r.status,
+    battery: r.battery,
+    tasksCompleted: r.tasksCompleted,
+    distanceTraveled: r.distanceTraveled,
+    pickSuccessRate: r.pickSuccessRate,
+  }));
+
+  return {
+    scenario,
+    seed,
+    clockStart,
+    state,
+    robots,
+    totalDistance: robots.reduce((sum, r) => sum + r.distanceTraveled, 0),
+    commandErrors,
+    wallClockMs: Date.now() - startedAt,
+  };
+}
+
+/** Strip Maps/undefined so the value is safe for a Prisma Json column */
+function toJson(value: unknown) {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/** Write a finished run into the `Simulation` table */
+export async function persistResult(prisma: PrismaClient, result: BatchResult) {
+  const { scenario, state } = result;
+
+  const environment = await prisma.environment.findUnique({
+    where: { id: scenario.environmentId },
+    select: { organizationId: true },
+  });
+  if (!environment) {
+    throw new Error(`Environment ${scenario.environmentId} not found`);
+  }
+
+  const completedAt = new Date();
+  return prisma.simulation.create({
+    data: {
+      name: scenario.name,
+      status: 'COMPLETED',
+      duration: Math.round(scenario.duration),
+      // Achieved speed-up over real time
+      timeMultiplier: (scenario.duration * 1000) / Math.max(1, result.wallClockMs),
+      snapshot: toJson(serializeState(state)),
+      tasksCompleted: state.metrics.totalTasksCompleted,
+      tasksFailed: state.metrics.totalTasksFailed,
+      totalDistance: result.totalDistance,
+      metrics: toJson({
+        ...state.metrics,
+        seed: result.seed,
+        clockStart: new Date(result.clockStart).toISOString(),
+        ticks: state.tick,
+        wallClockMs: result.wallClockMs,
+        robots: result.robots,
+        commandErrors: result.commandErrors,
+      }),
+      environmentId: scenario.environmentId,
+      organizationId: environment.organizationId,
+      startedAt: new Date(completedAt.getTime() - result.wallClockMs),
+      completedAt,
+    },
+  });
+}
+
+// ============================================
+// CLI
+// ============================================
+
+interface CliOptions {
+  files: string[];
+  duration?: number;
+  seed?: number;
+  output?: string;
+  dryRun: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { files: [], dryRun: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--duration':
+        options.duration = Number(argv[++i]);
+        break;
+      case '--seed':
+        options.seed = Number(argv[++i]);
+        break;
+      case '--output':
+        options.output = argv[++i];
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      default:
+        options.files.push(arg);
+    }
+  }
+  return options;
+}
+
+function loadScenario(file: string, options: CliOptions): BatchScenario {
+  const scenario = JSON.parse(readFileSync(file, 'utf-8')) as BatchScenario;
+  if (options.duration !== undefined) scenario.duration = options.duration;
+  if (options.seed !== undefined) scenario.seed = options.seed;
+
+  if (!scenario.name) scenario.name = file;
+  if (!Number.isFinite(scenario.duration) || scenario.duration <= 0) {
+    throw new Error(`${file}: duration must be a positive number of seconds`);
+  }
+  if (!scenario.environmentId && !options.dryRun) {
+    throw new Error(`${file}: environmentId is required to persist results`);
+  }
+  return scenario;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.files.length === 0) {
+    console.error('Usage: npm run sim:batch -- <scenario.json> [...] [--duration s] [--seed n] [--output file] [--dry-run]');
+    process.exit(1);
+  }
+
+  const prisma = options.dryRun ? null : new PrismaClient();
+  const summaries: unknown[] = [];
+  let failed = 0;
+
+  try {
+    for (const file of options.files) {
+      try {
+        const scenario = loadScenario(file, options);
+        console.log(`▶️  ${scenario.name}: ${scenario.duration}s simulated`);
+
+        const result = runScenario(scenario);
+        const { metrics } = result.state;
+        console.log(`✅ ${scenario.name}: ${metrics.totalTasksCompleted} completed, ${metrics.totalTasksFailed} failed, ${metrics.nearMisses} near misses, ` +
+          `${metrics.restrictedAreaViolations} keep-out violations, ${metrics.lateTasks} late, ` +
+          `${Math.round(result.totalDistance)} distance, seed ${result.seed}, ${result.wallClockMs}ms wall clock`);
+        for (const err of result.commandErrors) {
+          console.warn(`⚠️ ${scenario.name} @${err.at}s ${err.event}: ${err.message}`);
+        }
+
+        let simulationId: string | null = null;
+        if (prisma) {
+          const record = await persistResult(prisma, result);
+          simulationId = record.id;
+          console.log(`💾 Saved simulation ${record.id}`);
+        }
+
+        summaries.push({
+          file,
+          simulationId,
+          name: scenario.name,
+          seed: result.seed,
+          clockStart: new Date(result.clockStart).toISOString(),
+          duration: scenario.duration,
+          wallClockMs: result.wallClockMs,
+          totalDistance: result.totalDistance,
+          metrics,
+          robots: result.robots,
+        });
+      } catch (error) {
+        failed++;
+        console.error(`❌ ${file}: ${(error as Error).message}`);
+      }
+    }
+  } finally {
+    await prisma?.$disconnect();
+  }
+
+  if (options.output) {
+    writeFileSync(options.output, JSON.stringify(summaries, null, 2));
+  }
+  if (failed > 0) process.exit(1);
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,116 @@
+/**
+ * ArcSpatial Intelligence - Simulation Checkpoints
+ * Periodically writes each environment's full simulation state to disk so a
+ * server restart (deploy, crash) resumes the run instead of rebuilding the
+ * demo site. One JSON file per environment, replaced atomically on save.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { SimulationState, StateCheckpoint, checkpointState } from './simulation-engine';
+import { EnvironmentBlueprint } from './environment-loader';
+
+export const CHECKPOINT_DIR = process.env.SIMULATION_CHECKPOINT_DIR || join(process.cwd(), 'checkpoints');
+export const CHECKPOINT_INTERVAL_MS = Number(process.env.SIMULATION_CHECKPOINT_INTERVAL_MS) || 10000;
+
+const CHECKPOINT_VERSION = 17;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CheckpointFile {
+  version: number;
+  environmentId: string;
+  savedAt: number; // wall clock
+  sessionId: string | null; // session log to keep appending to
+  blueprint: EnvironmentBlueprint | null; // so a restored instance can still reset without the database
+  state: StateCheckpoint;
+}
+
+// ============================================
+// WRITING
+// ============================================
+
+function checkpointPath(environmentId: string): string {
+  return join(CHECKPOINT_DIR, `${encodeURIComponent(environmentId)}.json`);
+}
+
+function ensureDir(): void {
+  if (!existsSync(CHECKPOINT_DIR)) {
+    mkdirSync(CHECKPOINT_DIR, { recursive: true });
+  }
+}
+
+function toJson(
+  environmentId: string,
+  state: SimulationState,
+  sessionId: string | null,
+  blueprint: EnvironmentBlueprint | null,
+): string {
+  const file: CheckpointFile = {
+    version: CHECKPOINT_VERSION,
+    environmentId,
+    savedAt: Date.now(),
+    sessionId,
+    blueprint,
+    state: checkpointState(state),
+  };
+  return JSON.stringify(file);
+}
+
+/**
+ * Serializes synchronously (so the checkpoint is a consistent tick) and
+ * writes in the background; a tmp file + rename means a crash mid-write
+ * never leaves a truncated checkpoint behind.
+ */
+export async function saveCheckpoint(
+  environmentId: string,
+  state: SimulationState,
+  sessionId: string | null,
+  blueprint: EnvironmentBlueprint | null,
+): Promise<void> {
+  ensureDir();
+  const path = checkpointPath(environmentId);
+  await writeFile(`${path}.tmp`, toJson(environmentId, state, sessionId, blueprint));
+  await rename(`${path}.tmp`, path);
+}
+
+/** Blocking variant for shutdown, when there is no event loop left to finish an async write */
+export function saveCheckpointSync(
+  environmentId: string,
+  state: SimulationState,
+  sessionId: string | null,
+  blueprint: EnvironmentBlueprint | null,
+): void {
+  ensureDir();
+  const path = checkpointPath(environmentId);
+  writeFileSync(`${path}.tmp`, toJson(environmentId, state, sessionId, blueprint));
+  renameSync(`${path}.tmp`, path);
+}
+
+// ============================================
+// READING
+// ============================================
+
+export function loadCheckpoint(environmentId: string): CheckpointFile | null {
+  const path = checkpointPath(environmentId);
+  if (!existsSync(path)) return null;
+
+  try {
+    const file = JSON.parse(readFileSync(path, 'utf-8')) as CheckpointFile;
+    return file.version === CHECKPOINT_VERSION ? file : null;
+  } catch (error) {
+    console.warn(`⚠️ Ignoring unreadable checkpoint ${path}:`, (error as Error).message);
+    return null;
+  }
+}
+
+/** Environment ids that have a checkpoint on disk */
+export function listCheckpoints(): string[] {
+  if (!existsSync(CHECKPOINT_DIR)) return [];
+  return readdirSync(CHECKPOINT_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => decodeURIComponent(file.slice(0, -'.json'.length)));
+}
@@ -0,0 +1,88 @@
+/**
+ * ArcSpatial Intelligence - Environment Loader
+ * Reads a stored `Environment`, its zones and task schedules from Prisma and converts them
+ * into the shape the simulation engine builds a world from.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { ScheduleInput, ScheduleTemplate, TaskPriority, ZoneInput } from './simulation-engine';
+
+// Canvas size the dashboard maps percentage/normalized zone bounds onto
+const CANVAS_WIDTH = 1000;
+const CANVAS_HEIGHT = 800;
+const MIN_ZONE_SIZE = 50;
+
+export interface EnvironmentBlueprint {
+  id: string;
+  name: string;
+  zones: ZoneInput[];
+  schedules: ScheduleInput[];
+}
+
+type Bounds = ZoneInput['bounds'];
+
+let prisma: PrismaClient | null = null;
+
+/** Shared client for the simulation server's database access */
+export function getPrisma(): PrismaClient {
+  if (!prisma) prisma = new PrismaClient();
+  return prisma;
+}
+
+/** Zone bounds are stored normalized (0-1), as percentages (0-100) or in pixels */
+function toPixelBounds(bounds: Bounds): Bounds {
+  const maxBound = Math.max(bounds.x, bounds.y, bounds.width, bounds.height);
+  const scale = maxBound <= 1 ? 1 : maxBound <= 100 ? 100 : null;
+  if (scale === null) return bounds;
+
+  return {
+    x: (bounds.x / scale) * CANVAS_WIDTH,
+    y: (bounds.y / scale) * CANVAS_HEIGHT,
+    width: Math.max((bounds.width / scale) * CANVAS_WIDTH, MIN_ZONE_SIZE),
+    height: Math.max((bounds.height / scale) * CANVAS_HEIGHT, MIN_ZONE_SIZE),
+  };
+}
+
+/** Returns null if no such environment exists; throws if the database is unreachable */
+export async function loadEnvironment(environmentId: string): Promise<EnvironmentBlueprint | null> {
+  const environment = await getPrisma().environment.findUnique({
+    where: { id: environmentId },
+    include: { zones: { where: { isActive: true } }, taskSchedules: true },
+  });
+  if (!environment) return null;
+
+  const zones: ZoneInput[] = [];
+  for (const zone of environment.zones) {
+    const bounds = (zone.bounds as Bounds | null)
+      ?? (zone.x !== null && zone.y !== null && zone.width !== null && zone.height !== null
+        ? { x: zone.x, y: zone.y, width: zone.width, height: zone.height }
+        : null);
+    if (!bounds) continue;
+
+    zones.push({
+      id: zone.id,
+      name: zone.name,
+      type: zone.type,
+      bounds: toPixelBounds(bounds),
+      color: zone.color,
+      capacity: zone.capacity,
+      maxRobots: zone.maxRobots,
+      direction: zone.direction,
+      activeFrom: zone.activeFrom?.getTime() ?? null,
+      activeUntil: zone.activeUntil?.getTime() ?? null,
+      chargingDocks: zone.chargingDocks,
+      chargingPower: zone.chargingPower,
+    });
+  }
+
+  const schedules: ScheduleInput[] = environment.taskSchedules.map(schedule => ({
+    id: schedule.id,
+    name: schedule.name,
+    cron: schedule.cron,
+    enabled: schedule.enabled,
+    priority: schedule.priority as TaskPriority,
+    template: schedule.template as unknown as ScheduleTemplate,
+  }));
+
+  return { id: environment.id, name: environment.name, zones, schedules };
+}
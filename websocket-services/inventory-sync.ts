@@ -0,0 +1,142 @@
+/**
+ * ArcSpatial Intelligence - Inventory Sync
+ * Mirrors a stored environment's simulated objects into the database: one
+ * `ConstructionObject` row per object (with the zone slot it sits in), each
+ * zone's occupancy, and the movement ledger as `InventoryMovement` rows.
+ * Only changed rows are written; runs on the checkpoint interval.
+ */
+
+import { Prisma } from '@prisma/client';
+import { ConstructionObject, SimulationState } from './simulation-engine';
+import { getPrisma } from './environment-loader';
+
+export class InventorySync {
+  private objects = new Map<string, string>(); // row id -> last written row, as JSON
+  private occupancy = new Map<string, number>();
+  private movementSeq = 0; // ledger entries before this one are written
+  private firstSync = true;
+  private newRun: boolean;
+
+  /**
+   * `zoneIds` are the environment's stored zones; objects in any other zone
+   * are written without one. A `newRun` replaces the ledger of the previous run.
+   */
+  constructor(
+    readonly environmentId: string,
+    private zoneIds: Set<string>,
+    newRun: boolean,
+  ) {
+    this.newRun = newRun;
+  }
+
+  /** The simulation was reset: its objects and ledger start over */
+  startRun(): void {
+    this.objects.clear();
+    this.occupancy.clear();
+    this.movementSeq = 0;
+    this.firstSync = true;
+    this.newRun = true;
+  }
+
+  /** Engine ids are only unique within a run, so rows are keyed by environment too */
+  private rowId(id: string): string {
+    return `${this.environmentId}:${id}`;
+  }
+
+  private toRow(obj: ConstructionObject, zoneId: string | null) {
+    return {
+      name: obj.name,
+      type: obj.type,
+      status: obj.status,
+      x: obj.pose.x,
+      y: obj.pose.y,
+      rotation: obj.pose.rotation,
+      width: obj.dimensions.width,
+      height: obj.dimensions.height,
+      depth: obj.dimensions.depth,
+      weight: obj.weight,
+      color: obj.color,
+      pickedByRobotId: obj.pickedBy,
+      targetZoneId: obj.targetZone,
+      zoneId: zoneId !== null && this.zoneIds.has(zoneId) ? zoneId : null,
+      environmentId: this.environmentId,
+      metadata: { condition: obj.condition, defects: obj.defects, qcStatus: obj.qcStatus },
+    };
+  }
+
+  async sync(state: SimulationState): Promise<void> {
+    const prisma = getPrisma();
+    const writes: Prisma.PrismaPromise<unknown>[] = [];
+
+    if (this.newRun) {
+      writes.push(prisma.inventoryMovement.deleteMany({ where: { environmentId: this.environmentId } }));
+    }
+
+    // Objects
+    const slotZone = new Map<string, string>();
+    for (const zone of state.zones.values()) {
+      for (const id of zone.objects) slotZone.set(id, zone.id);
+    }
+    const current = new Set<string>();
+    for (const obj of state.objects.values()) {
+      const id = this.rowId(obj.id);
+      current.add(id);
+      const row = this.toRow(obj, slotZone.get(obj.id) ?? null);
+      const json = JSON.stringify(row);
+      if (this.objects.get(id) === json) continue;
+      this.objects.set(id, json);
+      writes.push(prisma.constructionObject.upsert({ where: { id }, create: { id, ...row }, update: row }));
+    }
+    const gone = [...this.objects.keys()].filter(id => !current.has(id));
+    gone.forEach(id => this.objects.delete(id));
+    if (this.firstSync) {
+      writes.push(prisma.constructionObject.deleteMany({
+        where: { environmentId: this.environmentId, id: { notIn: [...current] } },
+      }));
+    } else if (gone.length > 0) {
+      writes.push(prisma.constructionObject.deleteMany({ where: { id: { in: gone } } }));
+    }
+
+    // Zone occupancy
+    for (const zone of state.zones.values()) {
+      if (!this.zoneIds.has(zone.id) || this.occupancy.get(zone.id) === zone.currentOccupancy) continue;
+      this.occupancy.set(zone.id, zone.currentOccupancy);
+      writes.push(prisma.zone.update({ where: { id: zone.id }, data: { currentOccupancy: zone.currentOccupancy } }));
+    }
+
+    // Ledger: entries are numbered consecutively, so the unwritten ones are the tail
+    const firstSeq = state.movementSeq - state.movements.length;
+    const fresh = state.movements.slice(Math.max(0, this.movementSeq - firstSeq));
+    if (fresh.length > 0) {
+      writes.push(prisma.inventoryMovement.createMany({
+        data: fresh.map(m => ({
+          id: this.rowId(m.id),
+          objectId: this.rowId(m.objectId),
+          objectType: m.objectType,
+          fromZoneId: m.fromZoneId,
+          toZoneId: m.toZoneId,
+          robotId: m.robotId,
+          taskId: m.taskId,
+          simTime: m.at,
+          environmentId: this.environmentId,
+        })),
+        skipDuplicates: true,
+      }));
+    }
+    const movementSeq = state.movementSeq;
+    const clearing = this.newRun;
+
+    if (writes.length === 0) return;
+    try {
+      await prisma.$transaction(writes);
+    } catch (error) {
+      // Write everything again next time
+      this.startRun();
+      this.newRun = clearing;
+      throw error;
+    }
+    this.movementSeq = movementSeq;
+    this.firstSync = false;
+    this.newRun = false;
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * ArcSpatial Intelligence - Simulation Session Recorder
+ * Appends every inbound command and a periodic state frame to an NDJSON
+ * session log so a run can be replayed exactly, in order, after the fact.
+ *
+ * Log layout (one JSON object per line):
+ *   { "type": "session", ...SessionHeader }
+ *   { "type": "command", ...SessionCommand }
+ *   { "type": "frame",   ...SessionFrame }
+ */
+
+import { closeSync, createWriteStream, existsSync, mkdirSync, openSync, readdirSync, readFileSync, readSync, WriteStream } from 'fs';
+import { join } from 'path';
+import { SimulationState, serializeState } from './simulation-engine';
+
+export const SESSION_DIR = process.env.SIMULATION_SESSION_DIR || join(process.cwd(), 'sessions');
+export const FRAME_INTERVAL_TICKS = 60; // one frame per simulated second at 60 FPS
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SessionHeader {
+  id: string;
+  environmentId: string;
+  name: string;
+  seed: number | null;
+  startedAt: number; // wall clock
+}
+
+export interface SessionCommand {
+  tick: number;
+  simTime: number;
+  wallTime: number;
+  socketId: string | null;
+  event: string;
+  payload: unknown;
+}
+
+export interface SessionFrame {
+  tick: number;
+  simTime: number;
+  wallTime: number;
+  state: ReturnType<typeof serializeState>;
+}
+
+export interface SessionLog {
+  header: SessionHeader;
+  commands: SessionCommand[];
+  frames: SessionFrame[];
+}
+
+// ============================================
+// RECORDER
+// ============================================
+
+export class SessionRecorder {
+  readonly header: SessionHeader;
+  private stream: WriteStream;
+  private lastFrameTick = -Infinity;
+
+  /** Pass `resumeSessionId` to keep appending to an existing log, e.g. after restoring a checkpoint */
+  constructor(state: SimulationState, environmentId: string, resumeSessionId: string | null = null) {
+    if (!existsSync(SESSION_DIR)) {
+      mkdirSync(SESSION_DIR, { recursive: true });
+    }
+
+    const resumed = resumeSessionId && isValidSessionId(resumeSessionId)
+      ? readHeader(sessionPath(resumeSessionId))
+      : null;
+
+    this.header = resumed ?? {
+      id: `${Date.now()}-${state.id}`,
+      environmentId,
+      name: state.name,
+      seed: state.seed,
+      startedAt: Date.now(),
+    };
+    this.stream = createWriteStream(sessionPath(this.header.id), { flags: 'a' });
+    if (!resumed) {
+      this.write({ type: 'session', ...this.header });
+    }
+    this.recordFrame(state, true);
+  }
+
+  recordCommand(state: SimulationState, event: string, payload: unknown, socketId: string | null = null): void {
+    const command: SessionCommand = {
+      tick: state.tick,
+      simTime: state.simTime,
+      wallTime: Date.now(),
+      socketId,
+      event,
+      payload: payload ?? null,
+    };
+    this.write({ type: 'command', ...command });
+  }
+
+  /** Record a frame if FRAME_INTERVAL_TICKS have passed, or unconditionally with `force` */
+  recordFrame(state: SimulationState, force = false): void {
+    if (!force && state.tick - this.lastFrameTick < FRAME_INTERVAL_TICKS) return;
+    this.lastFrameTick = state.tick;
+
+    const snapshot = serializeState(state);
+    const frame: SessionFrame = {
+      tick: state.tick,
+      simTime: state.simTime,
+      wallTime: Date.now(),
+      // LiDAR is regenerated every tick and dominates frame size — not worth replaying
+      state: { ...snapshot, robots: snapshot.robots.map(r => ({ ...r, lidarPoints: [] })) },
+    };
+    this.write({ type: 'frame', ...frame });
+  }
+
+  /** Resolves once everything written so far is flushed to disk */
+  close(): Promise<void> {
+    return new Promise(resolve => this.stream.end(resolve));
+  }
+
+  private write(entry: object): void {
+    this.stream.write(JSON.stringify(entry) + '\n');
+  }
+}
+
+// ============================================
+// READING
+// ============================================
+
+function sessionPath(sessionId: string): string {
+  return join(SESSION_DIR, `${sessionId}.jsonl`);
+}
+
+function isValidSessionId(sessionId: string): boolean {
+  return /^[\w-]+$/.test(sessionId);
+}
+
+/** Read just the header line of a session log */
+function readHeader(path: string): SessionHeader | null {
+  if (!existsSync(path)) return null;
+
+  const fd = openSync(path, 'r');
+  try {
+    const buffer = Buffer.alloc(4096);
+    const bytes = readSync(fd, buffer, 0, buffer.length, 0);
+    const firstLine = buffer.toString('utf-8', 0, bytes).split('\n')[0];
+    const { type, ...header } = JSON.parse(firstLine);
+    return type === 'session' ? header as SessionHeader : null;
+  } catch {
+    // Truncated or foreign file
+    return null;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/** Session log headers, newest first, optionally for one environment */
+export function listSessions(environmentId?: string): SessionHeader[] {
+  if (!existsSync(SESSION_DIR)) return [];
+
+  const headers: SessionHeader[] = [];
+  for (const file of readdirSync(SESSION_DIR)) {
+    if (!file.endsWith('.jsonl')) continue;
+
+    const header = readHeader(join(SESSION_DIR, file));
+    if (header && (!environmentId || header.environmentId === environmentId)) {
+      headers.push(header);
+    }
+  }
+
+  return headers.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export function readSessionRaw(sessionId: string): string | null {
+  if (!isValidSessionId(sessionId)) return null;
+  const path = sessionPath(sessionId);
+  return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+}
+
+export function loadSession(sessionId: string): SessionLog | null {
+  const raw = readSessionRaw(sessionId);
+  if (raw === null) return null;
+
+  const log: SessionLog = { header: null as unknown as SessionHeader, commands: [], frames: [] };
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const { type, ...entry } = JSON.parse(line);
+      if (type === 'session') log.header = entry as SessionHeader;
+      else if (type === 'command') log.commands.push(entry as SessionCommand);
+      else if (type === 'frame') log.frames.push(entry as SessionFrame);
+    } catch {
+      // A crash can leave a partial last line; everything before it is still valid
+    }
+  }
+
+  return log.header ? log : null;
+}
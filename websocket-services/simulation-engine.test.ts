@@ -0,0 +1,870 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  FIXED_TIMESTEP,
+  OccupancyGrid,
+  SimulationState,
+  Task,
+  TaskStep,
+  Vector2D,
+  Zone,
+  acknowledgeFault,
+  aiSchedule,
+  applyCommand,
+  assembleObjects,
+  assignTaskToRobot,
+  cancelTask,
+  carriedObjects,
+  configureChaos,
+  configureMaintenance,
+  createAssembleTask,
+  createBulkTasks,
+  createChargeTask,
+  createInitialState,
+  createInspectTask,
+  createObject,
+  createObstacle,
+  createPatrolTask,
+  createPickAndPlaceTask,
+  createSortTask,
+  createTask,
+  createTransportTasks,
+  dispatchQueue,
+  distance,
+  findPath,
+  getInventory,
+  getOccupancyGrid,
+  injectFault,
+  isInsideBounds,
+  isRestrictionActive,
+  loadDynamics,
+  moveRobot,
+  nextCronTime,
+  parseCommand,
+  parseCron,
+  requestService,
+  serializeState,
+  setTaskDependencies,
+  simNow,
+  sortObjects,
+  stepSimulation,
+  updateZones,
+  upsertSchedule,
+} from './simulation-engine';
+
+/** Run `seconds` of simulated time in fixed steps */
+function run(state: SimulationState, seconds: number): void {
+  for (let i = 0; i < Math.round(seconds / FIXED_TIMESTEP); i++) stepSimulation(state, FIXED_TIMESTEP);
+}
+
+// ============================================
+// SEEDED RUNS
+// ============================================
+
+describe('seeded runs', () => {
+  /** Serialized state after a busy minute of scheduled work with chaos mode on */
+  function seededRun(seed: number): string {
+    const state = createInitialState(seed, Date.UTC(2025, 0, 1));
+    configureChaos(state, { enabled: true });
+    aiSchedule(state);
+    run(state, 60);
+    return JSON.stringify(serializeState(state));
+  }
+
+  it('replays the same seed to the same state', () => {
+    assert.equal(seededRun(42), seededRun(42));
+  });
+
+  it('plays a different seed differently', () => {
+    assert.notEqual(seededRun(42), seededRun(43));
+  });
+});
+
+// ============================================
+// COMMANDS
+// ============================================
+
+describe('parseCommand', () => {
+  it('refuses unknown events and payloads missing what the command needs', () => {
+    assert.throws(() => parseCommand('task:launch', {}), /Unknown command: task:launch/);
+    assert.throws(() => parseCommand('task:cancel', 'abc'), /payload must be an object/);
+    assert.throws(() => parseCommand('task:create', { objectId: 'obj-1' }), /needs targetZoneId \(string\)/);
+    assert.throws(() => parseCommand('simulation:speed', { multiplier: '2' }), /needs multiplier \(number\)/);
+  });
+
+  it('passes a well-formed command on to applyCommand', () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 1));
+    const [objectId] = state.zones.get('zone-material-storage')!.objects;
+    const { task } = applyCommand(state, parseCommand('task:create', { objectId, targetZoneId: 'zone-assembly' })) as { task: Task };
+    assert.equal(state.tasks.get(task.id)?.objectId, objectId);
+    assert.deepEqual(parseCommand('ai:schedule'), { event: 'ai:schedule', payload: {} });
+  });
+});
+
+// ============================================
+// CRON
+// ============================================
+
+describe('parseCron', () => {
+  it('expands steps, ranges and lists', () => {
+    const spec = parseCron('*/15 8-10 1,15 */3 1-5');
+    assert.deepEqual([...spec.minutes], [0, 15, 30, 45]);
+    assert.deepEqual([...spec.hours], [8, 9, 10]);
+    assert.deepEqual([...spec.days], [1, 15]);
+    assert.deepEqual([...spec.months], [1, 4, 7, 10]);
+    assert.deepEqual([...spec.weekdays], [1, 2, 3, 4, 5]);
+  });
+
+  it('steps a range, and a single start to the end of the field', () => {
+    assert.deepEqual([...parseCron('10-20/5 * * * *').minutes], [10, 15, 20]);
+    assert.deepEqual([...parseCron('5/20 * * * *').minutes], [5, 25, 45]);
+  });
+
+  it('reads weekday 7 as Sunday', () => {
+    assert.deepEqual([...parseCron('0 0 * * 7').weekdays], [0]);
+  });
+
+  it('only treats a literal * as an unrestricted day field', () => {
+    const spec = parseCron('0 0 */1 * 1');
+    assert.equal(spec.anyDay, false);
+    assert.equal(spec.anyWeekday, false);
+    assert.equal(parseCron('0 0 * * *').anyDay, true);
+  });
+
+  it('rejects malformed expressions', () => {
+    for (const expression of ['* * * *', '* * * * * *', '60 * * * *', '* 24 * * *', '* * 0 * *', '* * * 13 *', '* * * * 8', '5-1 * * * *', '*/0 * * * *', 'a * * * *', '1,,2 * * * *']) {
+      assert.throws(() => parseCron(expression), /Invalid cron expression/, expression);
+    }
+  });
+});
+
+describe('nextCronTime', () => {
+  const next = (expression: string, after: number) => nextCronTime(parseCron(expression), after);
+
+  it('returns the next matching minute strictly after the given time', () => {
+    assert.equal(next('* * * * *', Date.UTC(2025, 0, 6, 8, 0, 30)), Date.UTC(2025, 0, 6, 8, 1));
+    assert.equal(next('0 8 * * *', Date.UTC(2025, 0, 6, 8, 0)), Date.UTC(2025, 0, 7, 8, 0));
+  });
+
+  it('skips to the next matching hour, day and month', () => {
+    assert.equal(next('30 14 * * *', Date.UTC(2025, 0, 6, 9, 10)), Date.UTC(2025, 0, 6, 14, 30));
+    assert.equal(next('0 6 * * *', Date.UTC(2025, 0, 31, 23, 0)), Date.UTC(2025, 1, 1, 6, 0));
+    assert.equal(next('0 0 1 3 *', Date.UTC(2025, 0, 15)), Date.UTC(2025, 2, 1));
+    assert.equal(next('0 0 1 1 *', Date.UTC(2025, 5, 1)), Date.UTC(2026, 0, 1));
+  });
+
+  it('passes over months without the day', () => {
+    assert.equal(next('30 8 31 * *', Date.UTC(2025, 3, 1)), Date.UTC(2025, 4, 31, 8, 30));
+  });
+
+  it('finds a leap day years ahead', () => {
+    assert.equal(next('0 0 29 2 *', Date.UTC(2024, 2, 1)), Date.UTC(2028, 1, 29));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2025-06-13 is a Friday; the Friday before it comes first
+    assert.equal(next('0 0 13 * 5', Date.UTC(2025, 5, 1)), Date.UTC(2025, 5, 6));
+    assert.equal(next('0 0 13 * 5', Date.UTC(2025, 5, 10)), Date.UTC(2025, 5, 13));
+  });
+
+  it('matches only the weekday when the day of month is *', () => {
+    // 2025-01-06 is a Monday
+    assert.equal(next('0 9 * * 0', Date.UTC(2025, 0, 6)), Date.UTC(2025, 0, 12, 9));
+  });
+
+  it('returns null for a date that never exists', () => {
+    assert.equal(next('0 0 31 2 *', Date.UTC(2025, 0, 1)), null);
+  });
+});
+
+describe('schedules on the sim clock', () => {
+  it('fire at the rule\'s time, creating the template\'s tasks, and come round again a day later', () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 7, 58));
+    const schedule = upsertSchedule(state, { name: 'Morning check', cron: '0 8 * * *', template: { kind: 'INSPECT', zoneId: 'zone-assembly' } });
+    assert.equal(schedule.nextRunAt, Date.UTC(2025, 0, 6, 8, 0));
+
+    run(state, 119);
+    assert.deepEqual([schedule.lastRunAt, schedule.taskIds], [null, []]);
+
+    run(state, 2);
+    assert.ok(schedule.lastRunAt! >= Date.UTC(2025, 0, 6, 8, 0));
+    assert.equal(schedule.nextRunAt, Date.UTC(2025, 0, 7, 8, 0));
+    const [task] = schedule.taskIds.map(id => state.tasks.get(id)!);
+    assert.deepEqual([schedule.taskIds.length, task.type, task.targetZone], [1, 'INSPECT', 'zone-assembly']);
+  });
+
+  it('skip a firing while tasks from the last one are still open', () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 8, 0));
+    const schedule = upsertSchedule(state, {
+      name: 'Every minute', cron: '* * * * *', template: { kind: 'INSPECT', zoneId: 'zone-assembly', startInMinutes: 10 },
+    });
+
+    run(state, 61);
+    const [first] = schedule.taskIds;
+    assert.equal(state.tasks.get(first)!.status, 'PENDING'); // held back for ten minutes
+    const taskCount = state.tasks.size;
+
+    run(state, 60);
+    assert.ok(schedule.lastRunAt! >= Date.UTC(2025, 0, 6, 8, 2));
+    assert.deepEqual(schedule.taskIds, [first]);
+    assert.equal(state.tasks.size, taskCount);
+  });
+
+  it('starts an unseeded run at the calendar time it was created', () => {
+    const before = Date.now();
+    const state = createInitialState();
+    assert.ok(simNow(state) >= before && simNow(state) <= Date.now());
+    run(state, 2);
+    assert.ok(Math.abs(simNow(state) - (state.clockStart + 2000)) < 1e-3);
+  });
+});
+
+// ============================================
+// PATHFINDING
+// ============================================
+
+describe('findPath', () => {
+  const CELL = 20; // the engine's occupancy cell size in px
+
+  /** The demo robots on a floor with no zones or obstacles */
+  function openFloor(): SimulationState {
+    const state = createInitialState(1, Date.UTC(2025, 0, 1));
+    state.zones.clear();
+    state.obstacles.clear();
+    state.objects.clear();
+    return state;
+  }
+
+  function wall(state: SimulationState, x: number, fromY: number, toY: number): void {
+    createObstacle(state, { type: 'WALL', pose: { x, y: (fromY + toY) / 2 }, dimensions: { width: 40, height: toY - fromY } });
+  }
+
+  /** Every waypoint sits on a free cell and every move, diagonals included, stays clear of blocked cells */
+  function assertClear(path: Vector2D[], grid: OccupancyGrid): void {
+    const free = (cx: number, cy: number) => grid.blocked[cy * grid.cols + cx] === 0;
+    path.forEach((point, i) => {
+      const cx = point.x / CELL;
+      const cy = point.y / CELL;
+      assert.ok(free(cx, cy), `waypoint ${i} at (${point.x}, ${point.y}) is blocked`);
+      if (i === 0) return;
+      const px = path[i - 1].x / CELL;
+      const py = path[i - 1].y / CELL;
+      assert.ok(Math.abs(cx - px) <= 1 && Math.abs(cy - py) <= 1, `waypoint ${i} skips a cell`);
+      assert.ok(free(px, cy) && free(cx, py), `waypoint ${i} cuts a corner`);
+    });
+  }
+
+  it('reports an unreachable goal as no path', () => {
+    const state = openFloor();
+    wall(state, 500, -20, 820);
+    const robot = state.robots.get('robot-mm-01')!;
+
+    assert.equal(findPath({ x: 100, y: 400 }, { x: 900, y: 400 }, state), null);
+    assert.equal(findPath({ x: 100, y: 400 }, { x: 900, y: 400 }, state, robot), null);
+  });
+
+  it('routes around a wall without touching its inflated cells', () => {
+    const state = openFloor();
+    wall(state, 500, -20, 600);
+    const robot = state.robots.get('robot-mm-01')!;
+
+    const path = findPath({ x: 100, y: 100 }, { x: 900, y: 100 }, state, robot)!;
+    assert.ok(path);
+    assertClear(path, getOccupancyGrid(state, robot));
+    assert.ok(path.some(p => p.y > 600), 'the path goes round the end of the wall');
+  });
+
+  it('plans again once an obstacle or restricted area changes', () => {
+    const state = openFloor();
+    const start = { x: 100, y: 400 };
+    const goal = { x: 900, y: 400 };
+    const straight = findPath(start, goal, state)!;
+    assert.ok(straight.every(p => p.y === 400));
+
+    wall(state, 500, 200, 600);
+    const aroundWall = findPath(start, goal, state)!;
+    assertClear(aroundWall, getOccupancyGrid(state));
+    assert.ok(aroundWall.some(p => p.y < 200 || p.y > 600));
+
+    updateZones(state, [{
+      id: 'zone-keep-out', name: 'Keep Out', type: 'RESTRICTED_AREA', color: '#ef4444',
+      bounds: { x: 300, y: 0, width: 100, height: 800 },
+    }]);
+    assert.equal(findPath(start, goal, state), null);
+  });
+});
+
+// ============================================
+// TRAFFIC RULES
+// ============================================
+
+describe('restricted areas', () => {
+  const clockStart = Date.UTC(2025, 0, 6, 6, 0);
+
+  function addKeepOut(state: SimulationState, bounds: Zone['bounds'], activeFrom: number | null, activeUntil: number | null): Zone {
+    const zone: Zone = {
+      ...state.zones.get('zone-assembly')!,
+      id: 'zone-keep-out', name: 'Keep Out', type: 'RESTRICTED_AREA', bounds, capacity: 0,
+      objects: [], slots: [], robots: [], queue: [], activeFrom, activeUntil,
+    };
+    state.zones.set(zone.id, zone);
+    return zone;
+  }
+
+  it('switch on and off with simulated time', () => {
+    const state = createInitialState(1, clockStart);
+    const zone = addKeepOut(state, { x: 450, y: 0, width: 100, height: 600 }, clockStart + 60000, clockStart + 120000);
+
+    run(state, 30);
+    assert.equal(isRestrictionActive(zone, state), false);
+    run(state, 31);
+    assert.equal(isRestrictionActive(zone, state), true);
+    run(state, 60);
+    assert.equal(isRestrictionActive(zone, state), false);
+  });
+
+  it('keep robots out while active and let them through once the window closes', () => {
+    const state = createInitialState(1, clockStart);
+    const zone = addKeepOut(state, { x: 170, y: 150, width: 50, height: 450 }, null, clockStart + 300000);
+    const robot = state.robots.get('robot-mm-01')!;
+    const target = { x: 300, y: 400 };
+
+    moveRobot(state, robot.id, target);
+    assert.ok(robot.path.every(p => !isInsideBounds(p, zone.bounds)));
+    for (let i = 0; i < 300 && distance(robot.pose, target) > 10; i++) {
+      run(state, 1);
+      assert.ok(!isInsideBounds(robot.pose, zone.bounds), `inside the keep-out area after ${i + 1} s`);
+    }
+    assert.ok(distance(robot.pose, target) <= 10, 'the robot got round the area');
+    assert.equal(state.metrics.restrictedAreaViolations, 0);
+
+    run(state, (clockStart + 300000 - simNow(state)) / 1000 + 1);
+    assert.equal(isRestrictionActive(zone, state), false);
+    assert.ok(findPath(target, { x: 100, y: 400 }, state, robot)!.some(p => isInsideBounds(p, zone.bounds)));
+  });
+
+  it('move a robot caught inside out when the area switches on, and count one that gets in', () => {
+    const state = createInitialState(1, clockStart);
+    const robot = state.robots.get('robot-mm-01')!;
+    const zone = addKeepOut(state, { x: robot.pose.x - 20, y: robot.pose.y - 20, width: 40, height: 40 }, clockStart + 1000, null);
+
+    run(state, 2);
+    assert.equal(robot.status, 'MOVING');
+    for (let i = 0; i < 120 && isInsideBounds(robot.pose, zone.bounds); i++) run(state, 1);
+    assert.ok(!isInsideBounds(robot.pose, zone.bounds));
+    assert.equal(state.metrics.restrictedAreaViolations, 0);
+
+    const intruder = state.robots.get('robot-forklift-01')!;
+    intruder.pose = { ...intruder.pose, x: zone.bounds.x + 20, y: zone.bounds.y + 20 };
+    run(state, 1);
+    assert.equal(state.metrics.restrictedAreaViolations, 1);
+  });
+});
+
+// ============================================
+// TASK WINDOWS
+// ============================================
+
+describe('task time windows', () => {
+  const setup = () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 6, 0));
+    const window = { earliestStart: simNow(state) + 10 * 60000, dueBy: simNow(state) + 30 * 60000 };
+    const stock = state.zones.get('zone-material-storage')!.objects;
+    return { state, window, stock };
+  };
+  const windowOf = (task: Task) => ({ earliestStart: task.earliestStart, dueBy: task.dueBy });
+
+  it('are kept on every task a request creates', () => {
+    const { state, window, stock } = setup();
+    const created = [
+      ...createBulkTasks(state, { objectIds: stock.slice(0, 2), targetZoneId: 'zone-assembly', autoAssign: false, ...window }).tasks,
+      ...createBulkTasks(state, { objectIds: stock.slice(2, 4), targetZoneId: 'zone-assembly', autoAssign: false, batch: true, ...window }).tasks,
+      ...createSortTask(stock.slice(4, 6), 'zone-work-1', state, window),
+      ...createAssembleTask(stock.slice(6, 8), 'zone-assembly', state, false, window),
+      createInspectTask('zone-assembly', state, window),
+      createPatrolTask(state, { checkpoints: [{ x: 100, y: 100 }], ...window }),
+    ];
+    assert.equal(created.length, 10);
+    for (const task of created) assert.deepEqual(windowOf(task), window, task.type);
+  });
+
+  it('reject a task due before it may start, creating nothing', () => {
+    const { state, window, stock } = setup();
+    const backwards = { earliestStart: window.dueBy, dueBy: window.earliestStart };
+    const taskCount = state.tasks.size;
+    assert.throws(() => createBulkTasks(state, { objectIds: stock.slice(0, 2), targetZoneId: 'zone-assembly', ...backwards }), /due before it may start/);
+    assert.throws(() => sortObjects(state, { objectIds: stock.slice(0, 2), targetZoneId: 'zone-work-1', ...backwards }), /due before it may start/);
+    assert.throws(() => assembleObjects(state, { objectIds: stock.slice(0, 2), assemblyZoneId: 'zone-assembly', ...backwards }), /due before it may start/);
+    assert.equal(state.tasks.size, taskCount);
+  });
+
+  it('hold a task back until its earliest start', () => {
+    const { state, stock } = setup();
+    const [task] = createBulkTasks(state, { objectIds: stock.slice(0, 1), targetZoneId: 'zone-assembly', earliestStart: simNow(state) + 60000 }).tasks;
+    assert.equal(task.assignedRobotId, null);
+    run(state, 55);
+    assert.equal(task.status, 'PENDING');
+    run(state, 10);
+    assert.notEqual(task.status, 'PENDING');
+    assert.notEqual(task.assignedRobotId, null);
+  });
+
+  it('of a scheduled task count from the firing that creates it', () => {
+    const { state } = setup();
+    const schedule = upsertSchedule(state, {
+      name: 'Site check',
+      cron: '5 6 * * *',
+      template: { kind: 'INSPECT', zoneId: 'zone-assembly', startInMinutes: 2, dueInMinutes: 20 },
+    });
+    run(state, 5 * 60 + 1);
+    const [task] = schedule.taskIds.map(id => state.tasks.get(id)!);
+    const firedAt = Date.UTC(2025, 0, 6, 6, 5);
+    assert.ok(task.earliestStart! - firedAt >= 2 * 60000 && task.earliestStart! - firedAt < 2 * 60000 + 1000);
+    assert.equal(task.dueBy! - task.earliestStart!, 18 * 60000);
+
+    assert.throws(
+      () => upsertSchedule(state, { name: 'Backwards', cron: '0 7 * * *', template: { kind: 'INSPECT', zoneId: 'zone-assembly', startInMinutes: 10, dueInMinutes: 5 } }),
+      /due before they may start/,
+    );
+  });
+});
+
+// ============================================
+// TRANSPORT & CHARGE
+// ============================================
+
+describe('transport and charge time windows', () => {
+  it('are kept on the tasks and checked like any other task', () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 6, 0));
+    const earliestStart = simNow(state) + 10 * 60000;
+    const dueBy = simNow(state) + 30 * 60000;
+
+    const charge = createChargeTask(state, { earliestStart, dueBy });
+    assert.deepEqual([charge.earliestStart, charge.dueBy], [earliestStart, dueBy]);
+
+    const trips = createTransportTasks(state, { sourceZoneId: 'zone-material-storage', targetZoneId: 'zone-assembly', quantity: 2, earliestStart, dueBy });
+    assert.ok(trips.length > 0);
+    for (const trip of trips) assert.deepEqual([trip.earliestStart, trip.dueBy], [earliestStart, dueBy]);
+
+    assert.throws(() => createChargeTask(state, { earliestStart: dueBy, dueBy: earliestStart }), /due before it may start/);
+  });
+});
+
+// ============================================
+// FAULTS & MAINTENANCE
+// ============================================
+
+describe('chaos mode faults', () => {
+  it('a LiDAR dropout blinds the robot and slows it to a crawl until it ends', () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 6, 0));
+    configureChaos(state, { faults: { LIDAR_DROPOUT: { durationSeconds: 5 } } });
+    const robot = state.robots.get('robot-mm-01')!;
+    moveRobot(state, robot.id, { x: 900, y: 700 });
+    run(state, 2);
+    const topSpeed = loadDynamics(robot, state).speed;
+
+    const fault = injectFault(state, { kind: 'LIDAR_DROPOUT', robotId: robot.id });
+    assert.equal(fault.endsAt, simNow(state) + 5000);
+    run(state, 4);
+    assert.equal(fault.active, true);
+    assert.deepEqual(robot.lidarPoints, []);
+    assert.ok(robot.currentSpeed <= topSpeed * 0.3 + 1e-9);
+
+    run(state, 2);
+    assert.equal(fault.active, false);
+    run(state, 2);
+    assert.ok(robot.currentSpeed > topSpeed * 0.3);
+  });
+
+  it('an armed pick failure fails the next pick, and the task is retried', () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 6, 0));
+    const robot = state.robots.get('robot-mm-01')!;
+    const objectId = state.zones.get('zone-material-storage')!.objects.find(id => state.objects.get(id)!.weight <= 20)!;
+    const task = createPickAndPlaceTask(objectId, 'zone-assembly', state);
+    assignTaskToRobot(task, robot, state);
+    const fault = injectFault(state, { kind: 'PICK_FAILURE', robotId: robot.id });
+    assert.equal(fault.active, true);
+
+    for (let i = 0; i < 600 && task.retryCount === 0; i++) run(state, 1);
+    assert.equal(task.retryCount, 1);
+    assert.match(task.failureReason!, /failed to pick/);
+    assert.equal(fault.active, false);
+
+    for (let i = 0; i < 600 && task.status !== 'COMPLETED'; i++) run(state, 1);
+    assert.equal(task.status, 'COMPLETED');
+  });
+
+  it('only rolls faults inside their window on the sim clock', () => {
+    const clockStart = Date.UTC(2025, 0, 6, 6, 0);
+    const state = createInitialState(1, clockStart);
+    configureChaos(state, {
+      enabled: true,
+      faults: { LIDAR_DROPOUT: { probability: 1, durationSeconds: 5, activeFrom: clockStart + 60000, activeUntil: clockStart + 120000 } },
+    });
+    for (const kind of ['BREAKDOWN', 'DROPPED_OBJECT', 'PICK_FAILURE', 'BLOCKED_AISLE', 'BATTERY_CELL_FAILURE'] as const) {
+      configureChaos(state, { faults: { [kind]: { probability: 0 } } });
+    }
+
+    run(state, 59);
+    assert.equal(state.metrics.faultsInjected, 0);
+    run(state, 61);
+    const dropouts = [...state.faults.values()].filter(f => f.kind === 'LIDAR_DROPOUT');
+    assert.ok(dropouts.length > 0);
+    assert.ok(dropouts.every(f => f.startedAt >= clockStart + 60000 && f.startedAt < clockStart + 120000));
+    run(state, 60);
+    assert.equal(state.metrics.faultsInjected, dropouts.length);
+  });
+});
+
+describe('robot faults and service', () => {
+  it('a breakdown sets the load down, sends the task back for a retry and clears itself', () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 6, 0));
+    const robot = state.robots.get('robot-mm-01')!;
+    const objectId = state.zones.get('zone-material-storage')!.objects.find(id => state.objects.get(id)!.weight <= 20)!;
+    const task = createPickAndPlaceTask(objectId, 'zone-assembly', state);
+    assignTaskToRobot(task, robot, state);
+    for (let i = 0; i < 600 && carriedObjects(robot).length === 0; i++) run(state, 1);
+
+    injectFault(state, { kind: 'BREAKDOWN', robotId: robot.id, code: 'E120' }); // resets after 10 s
+    assert.equal(robot.status, 'ERROR');
+    assert.equal(robot.currentTaskId, null);
+    assert.deepEqual(carriedObjects(robot), []);
+    assert.deepEqual([state.objects.get(objectId)!.status, state.objects.get(objectId)!.pickedBy], ['AVAILABLE', null]);
+    assert.deepEqual([task.status, task.retryCount, task.assignedRobotId], ['PENDING', 1, null]);
+
+    run(state, 9);
+    assert.equal(robot.fault?.code, 'E120');
+    assert.notEqual(task.assignedRobotId, robot.id, 'a broken-down robot takes no work');
+    run(state, 2);
+    assert.equal(robot.fault, null);
+    assert.notEqual(robot.status, 'ERROR');
+  });
+
+  it('an emergency stop holds the robot until an operator acknowledges it', () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 6, 0));
+    const [robot, other] = state.robots.values();
+    injectFault(state, { kind: 'BREAKDOWN', robotId: robot.id, code: 'E205' });
+    injectFault(state, { kind: 'BREAKDOWN', robotId: other.id, code: 'E120' });
+
+    run(state, 60);
+    assert.deepEqual([robot.status, robot.fault?.code], ['ERROR', 'E205']);
+    assert.throws(() => acknowledgeFault(state, other.id), /no fault to acknowledge/);
+    assert.equal(acknowledgeFault(state, robot.id).status, 'IDLE');
+    assert.equal(robot.fault, null);
+  });
+
+  it('a robot past its service interval is serviced and starts its next interval', () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 6, 0));
+    configureMaintenance(state, { intervalDistance: 1000, serviceMinutes: 1 });
+    const robot = state.robots.get('robot-mm-01')!;
+    robot.distanceTraveled = 1000;
+
+    run(state, 1);
+    assert.equal(robot.serviceDue, true);
+    for (let i = 0; i < 600 && robot.status !== 'MAINTENANCE'; i++) run(state, 1);
+    assert.equal(robot.status, 'MAINTENANCE');
+    const endsAt = robot.serviceEndsAt!;
+    run(state, 30);
+    assert.ok(state.metrics.fleetAvailability < 1);
+    assert.equal(robot.status, 'MAINTENANCE');
+
+    run(state, 31);
+    assert.equal(robot.status, 'IDLE');
+    assert.equal(robot.serviceDue, false);
+    assert.ok(robot.lastService.at! >= endsAt);
+    assert.equal(robot.lastService.distanceTraveled, robot.distanceTraveled);
+    assert.equal(state.metrics.servicesCompleted, 1);
+  });
+});
+
+// ============================================
+// TASK STEPS
+// ============================================
+
+/** Run until the task's first step of this kind has started, and return it */
+function runToStep(state: SimulationState, taskId: string, action: TaskStep['action']): TaskStep {
+  const step = state.tasks.get(taskId)!.steps.find(s => s.action === action)!;
+  for (let i = 0; i < 600 && step.startTime === null; i++) run(state, 1);
+  assert.notEqual(step.startTime, null, `${action} never started`);
+  return step;
+}
+
+describe('timed task steps', () => {
+  it('a patrol scans at a checkpoint and stays at work through its dwell', () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 6, 0));
+    const task = createPatrolTask(state, { checkpoints: [{ x: state.dimensions.width / 2, y: state.dimensions.height / 2, dwellSeconds: 30 }] });
+    const scan = runToStep(state, task.id, 'SCAN');
+    const robot = state.robots.get(task.assignedRobotId!)!;
+    assert.equal(task.patrol!.log.length, 1);
+    const [{ checkpoint, pass, scan: snapshot }] = task.patrol!.log;
+    assert.deepEqual([checkpoint, pass, snapshot.robotId], [0, 1, robot.id]);
+
+    const { battery, operatingSeconds } = robot;
+    run(state, 28);
+    assert.equal(scan.completed, false);
+    assert.equal(robot.status, 'SCANNING');
+    assert.ok(robot.battery < battery);
+    assert.ok(Math.abs(robot.operatingSeconds - operatingSeconds - 28) < 0.5);
+
+    run(state, 3);
+    assert.equal(scan.completed, true);
+    assert.equal(task.status, 'COMPLETED');
+    assert.equal(robot.status, 'IDLE');
+  });
+
+  it('a carrier is loaded object by object, each leaving its slot once aboard', () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 6, 0));
+    const storage = state.zones.get('zone-material-storage')!;
+    const [trip] = createTransportTasks(state, { sourceZoneId: storage.id, targetZoneId: 'zone-assembly', quantity: 2 });
+    const [first, second] = trip.steps.filter(s => s.action === 'LOAD');
+    const load = runToStep(state, trip.id, 'LOAD');
+    assert.equal(load, first);
+    const robot = state.robots.get(trip.assignedRobotId!)!;
+    const firstObject = state.objects.get(first.target as string)!;
+
+    run(state, 3); // four seconds per object
+    assert.equal(robot.status, 'PICKING');
+    assert.deepEqual(carriedObjects(robot), []);
+    assert.equal(firstObject.status, 'AVAILABLE');
+    assert.ok(storage.objects.includes(firstObject.id));
+
+    run(state, 2);
+    assert.equal(first.completed, true);
+    assert.deepEqual(carriedObjects(robot), [firstObject.id]);
+    assert.deepEqual([firstObject.status, firstObject.pickedBy], ['PICKED', robot.id]);
+    assert.ok(!storage.objects.includes(firstObject.id));
+    assert.equal(second.completed, false);
+
+    run(state, 4);
+    assert.equal(second.completed, true);
+    assert.deepEqual(carriedObjects(robot), [firstObject.id, second.target]);
+  });
+});
+
+// ============================================
+// QUALITY
+// ============================================
+
+describe('zone inspections', () => {
+  /** Inspect the material storage with every object sound, then run the inspection to its end */
+  function inspectStorage(damage: (state: SimulationState, objectIds: string[]) => void) {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 6, 0));
+    const objectIds = state.zones.get('zone-material-storage')!.objects;
+    for (const id of objectIds) Object.assign(state.objects.get(id)!, { condition: 0.95, defects: [] });
+    damage(state, objectIds);
+    const task = createInspectTask('zone-material-storage', state);
+    const taskCount = state.tasks.size;
+    for (let i = 0; i < 600 && task.status !== 'COMPLETED'; i++) run(state, 1);
+    assert.equal(task.status, 'COMPLETED');
+    return { state, task, objectIds, newTasks: [...state.tasks.values()].slice(taskCount) };
+  }
+
+  it('sends an object with a found defect for rework', () => {
+    const { state, task, objectIds, newTasks } = inspectStorage((state, [damaged]) => {
+      Object.assign(state.objects.get(damaged)!, { condition: 0.3, defects: ['SURFACE_DAMAGE'] });
+    });
+    const damaged = objectIds[0];
+
+    assert.equal(task.inspection!.result, 'FAIL');
+    assert.equal(newTasks.length, 1);
+    const [rework] = newTasks;
+    assert.deepEqual(task.inspection!.findings, [{ objectId: damaged, defects: ['SURFACE_DAMAGE'], disposition: 'REWORK', followUpTaskId: rework.id }]);
+    assert.deepEqual([rework.objectId, rework.targetZone, rework.disposition], [damaged, 'zone-work-1', 'REWORK']);
+    assert.equal(state.objects.get(damaged)!.qcStatus, 'FAILED');
+    assert.equal(state.metrics.inspectionsFailed, 1);
+  });
+
+  it('passes sound objects without follow-up work', () => {
+    const { state, task, objectIds, newTasks } = inspectStorage(() => {});
+
+    assert.equal(task.inspection!.result, 'PASS');
+    assert.deepEqual(task.inspection!.findings, []);
+    assert.deepEqual([...task.inspection!.objectIds].sort(), [...objectIds].sort());
+    assert.ok(objectIds.every(id => state.objects.get(id)!.qcStatus === 'PASSED'));
+    assert.deepEqual(newTasks, []);
+    assert.equal(state.metrics.inspectionsPassed, 1);
+  });
+});
+
+// ============================================
+// ZONE SLOTS
+// ============================================
+
+describe('batches into a zone without room for all of them', () => {
+  const fullBatch = () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 6, 0));
+    const zone = state.zones.get('zone-work-1')!;
+    zone.capacity = zone.slots.length + 2;
+    const objectIds = state.zones.get('zone-material-storage')!.objects.slice(0, 3);
+    return { state, zone, objectIds, taskCount: state.tasks.size, slotCount: zone.slots.length };
+  };
+
+  for (const [name, create] of [
+    ['bulk tasks', (state: SimulationState, objectIds: string[]) => createBulkTasks(state, { objectIds, targetZoneId: 'zone-work-1' })],
+    ['batched bulk tasks', (state: SimulationState, objectIds: string[]) => createBulkTasks(state, { objectIds, targetZoneId: 'zone-work-1', batch: true })],
+    ['a sort', (state: SimulationState, objectIds: string[]) => sortObjects(state, { objectIds, targetZoneId: 'zone-work-1' })],
+    ['an assembly', (state: SimulationState, objectIds: string[]) => assembleObjects(state, { objectIds, assemblyZoneId: 'zone-work-1' })],
+  ] as const) {
+    it(`create none of ${name}`, () => {
+      const { state, zone, objectIds, taskCount, slotCount } = fullBatch();
+      assert.equal(objectIds.length, 3);
+      assert.throws(() => create(state, objectIds), /full/);
+      assert.equal(state.tasks.size, taskCount);
+      assert.equal(zone.slots.length, slotCount);
+    });
+  }
+});
+
+describe('generated demo objects', () => {
+  it('top up to 25 only into free slots, spilling over from a full zone', () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 6, 0));
+    updateZones(state, [
+      { id: 'zone-yard', name: 'Yard', type: 'MATERIAL_STORAGE', color: '#3b82f6', capacity: 8, bounds: { x: 0, y: 0, width: 600, height: 400 } },
+      { id: 'zone-bench', name: 'Bench', type: 'WORK_ZONE', color: '#f59e0b', capacity: 20, bounds: { x: 0, y: 450, width: 300, height: 200 } },
+    ]);
+    const yard = state.zones.get('zone-yard')!;
+    const bench = state.zones.get('zone-bench')!;
+
+    assert.deepEqual([yard.objects.length, bench.objects.length], [8, 17]);
+    assert.equal(state.objects.size, 25);
+  });
+});
+
+describe('updateZones', () => {
+  it('takes the load off robots whose objects are replaced', () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 6, 0));
+    const objectId = state.zones.get('zone-material-storage')!.objects.find(id => state.objects.get(id)!.weight <= 20)!;
+    const robot = state.robots.get('robot-mm-01')!;
+    assignTaskToRobot(createPickAndPlaceTask(objectId, 'zone-assembly', state), robot, state);
+    for (let i = 0; i < 600 && carriedObjects(robot).length === 0; i++) run(state, 1);
+    assert.deepEqual(carriedObjects(robot), [objectId]);
+
+    updateZones(state, [...state.zones.values()]);
+    assert.deepEqual(carriedObjects(robot), []);
+    assert.equal(robot.gripper!.isOpen, true);
+    assert.equal(robot.currentTaskId, null);
+    assert.equal(state.tasks.size, 0);
+    assert.ok([...state.objects.values()].every(obj => obj.status === 'AVAILABLE' && obj.pickedBy === null));
+
+    run(state, 5);
+    assert.equal(robot.status, 'IDLE');
+  });
+});
+
+// ============================================
+// INVENTORY
+// ============================================
+
+describe('inventory ledger', () => {
+  it('tracks an object from delivery through a move to its return', () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 6, 0));
+    const stock = () => {
+      const { zones, types } = getInventory(state, { objectType: 'TOOL_BOX' });
+      const inZone = (zoneId: string) => zones.find(z => z.zoneId === zoneId)!.byType.TOOL_BOX ?? 0;
+      const { stocked = 0, inTransit = 0 } = types.TOOL_BOX ?? {};
+      return { assembly: inZone('zone-assembly'), staging: inZone('zone-staging'), stocked, inTransit };
+    };
+    const before = stock();
+
+    const obj = createObject(state, { type: 'TOOL_BOX', zoneId: 'zone-assembly' });
+    assert.deepEqual(stock(), { ...before, assembly: before.assembly + 1, stocked: before.stocked + 1 });
+
+    // Found cracked on inspection, so it is carried to staging and sent back to the supplier
+    for (const id of state.zones.get('zone-assembly')!.objects) state.objects.get(id)!.defects = [];
+    Object.assign(obj, { condition: 0.3, defects: ['CRACKED'] });
+    const inspection = createInspectTask('zone-assembly', state);
+    for (let i = 0; i < 600 && inspection.status !== 'COMPLETED'; i++) run(state, 1);
+    const giveBack = state.tasks.get(inspection.inspection!.findings[0].followUpTaskId!)!;
+
+    for (let i = 0; i < 600 && obj.status !== 'PICKED'; i++) run(state, 1);
+    assert.deepEqual(stock(), { ...before, inTransit: before.inTransit + 1 });
+    for (let i = 0; i < 600 && giveBack.status !== 'COMPLETED'; i++) run(state, 1);
+    assert.equal(giveBack.status, 'COMPLETED');
+    assert.equal(state.objects.has(obj.id), false);
+    assert.deepEqual(stock(), before);
+
+    const ledger = getInventory(state, { objectId: obj.id }).movements.reverse();
+    assert.deepEqual(ledger.map(m => [m.fromZoneId, m.toZoneId, m.taskId]), [
+      [null, 'zone-assembly', null],
+      ['zone-assembly', null, giveBack.id],
+      [null, 'zone-staging', giveBack.id],
+      ['zone-staging', null, giveBack.id],
+    ]);
+    assert.ok(ledger.slice(1, 3).every(m => m.robotId === giveBack.assignedRobotId), 'the pick-up and drop name the robot');
+    assert.ok(ledger.every((m, i) => i === 0 || m.at >= ledger[i - 1].at));
+  });
+});
+
+// ============================================
+// TASK LIFECYCLE
+// ============================================
+
+describe('cancelTask', () => {
+  const setup = () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 6, 0));
+    const [first, second] = state.zones.get('zone-material-storage')!.objects;
+    const robot = state.robots.get('robot-mm-01')!;
+    return {
+      state,
+      robot,
+      first: createPickAndPlaceTask(first, 'zone-assembly', state),
+      second: createPickAndPlaceTask(second, 'zone-assembly', state),
+    };
+  };
+
+  it('stops the robot working on the task and fails what waits for it', () => {
+    const { state, robot, first, second } = setup();
+    setTaskDependencies(state, second.id, [first.id]);
+    assignTaskToRobot(first, robot, state);
+
+    cancelTask(state, first.id);
+    assert.equal(first.status, 'CANCELLED');
+    assert.equal(robot.currentTaskId, null);
+    assert.equal(robot.path.length, 0);
+    assert.equal(second.status, 'FAILED');
+  });
+
+  it('refuses a finished task and leaves its robot on its new work', () => {
+    const { state, robot, first, second } = setup();
+    assignTaskToRobot(first, robot, state);
+    first.status = 'COMPLETED'; // done, still naming its robot
+    robot.currentTaskId = null;
+    assignTaskToRobot(second, robot, state);
+
+    assert.throws(() => cancelTask(state, first.id), /already completed/);
+    assert.equal(first.status, 'COMPLETED');
+    assert.equal(robot.currentTaskId, second.id);
+    assert.equal(second.status, 'IN_PROGRESS');
+  });
+});
+
+// ============================================
+// DISPATCH
+// ============================================
+
+describe('preemption', () => {
+  it('an urgent task takes the robot from routine work, which goes back in the queue', () => {
+    const state = createInitialState(1, Date.UTC(2025, 0, 6, 6, 0));
+    for (const id of [...state.robots.keys()]) if (id !== 'robot-mm-01') state.robots.delete(id);
+    const robot = state.robots.get('robot-mm-01')!;
+    const [routineObject, urgentObject] = [...state.zones.get('zone-material-storage')!.objects]
+      .sort((a, b) => state.objects.get(a)!.weight - state.objects.get(b)!.weight);
+    const { task: routine } = createTask(state, { objectId: routineObject, targetZoneId: 'zone-assembly', priority: 'NORMAL' });
+    for (let i = 0; i < 600 && robot.status !== 'CARRYING'; i++) run(state, 1);
+    assert.equal(robot.currentTaskId, routine.id);
+    assert.equal(robot.status, 'CARRYING');
+
+    const { task: urgent } = createTask(state, { objectId: urgentObject, targetZoneId: 'zone-staging', priority: 'URGENT' });
+    for (let i = 0; i < 600 && robot.currentTaskId !== urgent.id; i++) run(state, FIXED_TIMESTEP);
+    assert.equal(robot.currentTaskId, urgent.id);
+    assert.equal(urgent.assignedRobotId, robot.id);
+
+    assert.equal(routine.status, 'PENDING');
+    assert.equal(routine.assignedRobotId, null);
+    assert.ok(routine.steps.every(s => !s.completed));
+    assert.deepEqual(dispatchQueue(state).map(t => t.id), [routine.id]);
+    const putDown = state.objects.get(routineObject)!;
+    assert.equal(putDown.status, 'AVAILABLE');
+    assert.equal(putDown.pickedBy, null);
+  });
+});
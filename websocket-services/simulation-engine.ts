@@ -0,0 +1,5544 @@
+/**
+ * ArcSpatial Intelligence - Simulation Engine
+ * Transport-agnostic world model, task execution and stepping for the fleet simulation.
+ *
+ * Used by the Socket.IO server (websocket-server.ts) and the headless
+ * batch runner (batch-runner.ts). Nothing in here touches sockets or timers.
+ */
+
+export const TICK_RATE = 60; // 60 FPS simulation
+export const TICK_INTERVAL = 1000 / TICK_RATE;
+export const FIXED_TIMESTEP = TICK_INTERVAL / 1000; // seconds per step in seeded mode
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface Vector2D {
+  x: number;
+  y: number;
+}
+
+export interface Pose {
+  x: number;
+  y: number;
+  rotation: number; // in degrees
+}
+
+export interface GripperState {
+  isOpen: boolean;
+  heldObject: string | null;
+  gripForce: number; // 0-100
+}
+
+/** Load space of a carrier: several objects per trip, within slot, volume and payload limits */
+export interface CargoBay {
+  objects: string[]; // object IDs on board, in load order
+  slots: number; // objects at once
+  maxVolume: number; // sum of width × height × depth of the objects on board
+}
+
+export interface ArmState {
+  joints: number[]; // 6-DOF joint angles
+  endEffectorPose: Vector2D;
+  isMoving: boolean;
+  targetPose: Vector2D | null;
+}
+
+export type RobotStatus = 'IDLE' | 'MOVING' | 'PICKING' | 'PLACING' | 'CARRYING' | 'SCANNING' | 'CHARGING' | 'ERROR' | 'MAINTENANCE';
+
+export type FaultCode = 'E101' | 'E120' | 'E205' | 'E310' | 'E402' | 'E518';
+export type RecoveryProcedure = 'AUTO_RESET' | 'OPERATOR_ACK' | 'TECHNICIAN';
+
+/** A fault holding a robot out of service until its recovery procedure clears it */
+export interface RobotFault {
+  code: FaultCode;
+  description: string;
+  recovery: RecoveryProcedure;
+  raisedAt: number;
+  clearsAt: number | null; // sim clock time of the auto-reset, technician arrival or end of repair; null until acknowledged
+}
+
+export interface MaintenanceSettings {
+  intervalHours: number; // operating hours between services
+  intervalDistance: number; // distance travelled between services
+  serviceMinutes: number; // how long a service takes
+}
+
+export interface Robot {
+  id: string;
+  name: string;
+  type: 'MOBILE_MANIPULATOR' | 'AMR_TRANSPORT' | 'FORKLIFT';
+  
+  // Base position
+  pose: Pose;
+  targetPose: Pose | null;
+  
+  // Movement
+  speed: number; // m/s
+  maxSpeed: number;
+  angularSpeed: number; // deg/s
+  acceleration: number; // m/s² when unloaded
+  currentSpeed: number; // ramps up to the load-limited speed, drops to 0 whenever the robot stops
+  payloadCapacity: number; // kg the robot can lift (Prisma Robot.capacity)
+  
+  // Battery
+  battery: number;
+  maxBattery: number;
+  batteryDrainRate: number; // per tick
+  
+  // Arm & Gripper (for mobile manipulators)
+  arm: ArmState | null;
+  gripper: GripperState | null;
+  cargo: CargoBay | null; // carriers load picked objects here instead of the gripper
+  
+  // Status
+  status: RobotStatus;
+  currentTaskId: string | null;
+  
+  // Path planning
+  path: Vector2D[];
+  pathIndex: number;
+  pathDepartures: number[]; // sim ms before which the robot may not leave path[i] (space-time reservations)
+  waitingSince: number | null; // sim ms the robot started yielding to another robot
+  
+  // Metrics
+  tasksCompleted: number;
+  distanceTraveled: number;
+  pickSuccessRate: number;
+
+  // Health & maintenance
+  fault: RobotFault | null;
+  operatingSeconds: number; // time spent working (not idle, charging or down), counted towards the service interval
+  lastService: { at: number | null; operatingSeconds: number; distanceTraveled: number };
+  serviceDue: boolean; // takes no new work, and goes for service once its current task is done
+  serviceEndsAt: number | null; // sim clock time the service in progress finishes
+  uptime: { up: number; fault: number; maintenance: number }; // seconds in service, down with a fault, and in scheduled maintenance
+  
+  // Sensor data
+  lidarPoints: Vector2D[];
+  cameraView: string | null; // Base64 encoded
+}
+
+export type ObjectType = 
+  | 'STEEL_BEAM' 
+  | 'CONCRETE_BLOCK' 
+  | 'PIPE_SECTION'
+  | 'ELECTRICAL_PANEL'
+  | 'HVAC_UNIT'
+  | 'TOOL_BOX'
+  | 'SAFETY_EQUIPMENT'
+  | 'SCAFFOLDING_PART'
+  // Construction materials (lightweight)
+  | 'CEMENT_BAG'        // Karung semen 40-50kg
+  | 'SAND_BAG'          // Karung pasir 25-30kg
+  | 'CARDBOARD_BOX'     // Kardus material ringan
+  | 'BRICK_PALLET'      // Palet bata/batako
+  | 'GRAVEL_BAG'        // Karung kerikil
+  | 'TILE_STACK'        // Tumpukan keramik/ubin
+  | 'WOOD_PLANK'        // Papan kayu
+  | 'REBAR_BUNDLE'      // Bundel besi beton
+  | 'MIXED_MATERIAL';   // Material campur
+
+export type ObjectStatus = 'AVAILABLE' | 'PICKED' | 'PLACED' | 'RESERVED';
+
+export type DefectCategory = 'SURFACE_DAMAGE' | 'CORROSION' | 'CRACKED' | 'MOISTURE' | 'DIMENSIONAL' | 'WRONG_SPEC';
+export type QcStatus = 'UNINSPECTED' | 'PASSED' | 'FAILED';
+
+export interface ConstructionObject {
+  id: string;
+  type: ObjectType;
+  name: string;
+  pose: Pose;
+  dimensions: { width: number; height: number; depth: number };
+  weight: number; // kg
+  status: ObjectStatus;
+  pickedBy: string | null;
+  targetZone: string | null;
+  color: string;
+  condition: number; // 0-1; objects arriving damaged have defects
+  defects: DefectCategory[]; // actual defects, which only an inspection can find
+  qcStatus: QcStatus;
+}
+
+/** One change of an object's location. A null zone is the robot carrying it, or off site */
+export interface InventoryMovement {
+  id: string;
+  objectId: string;
+  objectType: ObjectType;
+  fromZoneId: string | null;
+  toZoneId: string | null;
+  robotId: string | null;
+  taskId: string | null;
+  at: number; // sim clock
+}
+
+export type ZoneType =
+  | 'MATERIAL_STORAGE'
+  | 'ASSEMBLY_AREA'
+  | 'STAGING_ZONE'
+  | 'CHARGING_STATION'
+  | 'WORK_ZONE'
+  | 'RESTRICTED_AREA'
+  | 'INSPECTION_POINT'
+  | 'ROBOT_HOME'
+  | 'ONE_WAY_LANE'
+  | 'INTERSECTION';
+
+export type LaneDirection = 'NORTH' | 'EAST' | 'SOUTH' | 'WEST';
+
+/** A spot in a zone sized to one object's footprint */
+export interface ZoneSlot {
+  objectId: string;
+  taskId: string | null; // task delivering the object; null once it is placed
+  bounds: { x: number; y: number; width: number; height: number };
+}
+
+export interface Zone {
+  id: string;
+  name: string;
+  type: ZoneType;
+  bounds: { x: number; y: number; width: number; height: number };
+  color: string;
+  capacity: number; // slots, counting objects placed and reserved by open tasks
+  currentOccupancy: number; // objects placed in a slot
+  objects: string[]; // IDs of the objects placed in a slot
+  slots: ZoneSlot[];
+  maxRobots?: number | null; // concurrent robots allowed inside; INTERSECTION defaults to 1
+  direction?: LaneDirection | null; // travel direction of a ONE_WAY_LANE
+  activeFrom?: number | null; // RESTRICTED_AREA keep-out window on the sim clock; null = open-ended
+  activeUntil?: number | null;
+  robots: string[]; // robot IDs currently inside, counted against maxRobots
+  queue: string[]; // robot IDs waiting to enter, first come first served
+  docks?: (string | null)[]; // CHARGING_STATION: robot holding each dock (charging or on its way), null = free
+  chargeQueue?: string[]; // CHARGING_STATION: robot IDs waiting for a free dock
+  chargingPower?: number | null; // CHARGING_STATION: kW delivered per dock
+}
+
+export interface Obstacle {
+  id: string;
+  type: 'WALL' | 'PILLAR' | 'EQUIPMENT' | 'SCAFFOLDING' | 'TEMPORARY_BARRIER';
+  pose: Pose;
+  dimensions: { width: number; height: number };
+  isTemporary: boolean;
+}
+
+export type TaskType = 
+  | 'PICK_AND_PLACE'
+  | 'TRANSPORT'
+  | 'SORT_MATERIALS'
+  | 'ASSEMBLE'
+  | 'INSPECT'
+  | 'PATROL'
+  | 'CHARGE';
+
+export type TaskStatus = 'BLOCKED' | 'PENDING' | 'ASSIGNED' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+export type TaskPriority = 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT';
+
+export interface TaskStep {
+  action: 'MOVE_TO' | 'PICK_OBJECT' | 'PLACE_OBJECT' | 'WAIT' | 'ROTATE' | 'INSPECT' | 'SCAN' | 'LOAD' | 'CHARGE';
+  target: Vector2D | string; // Position or object ID
+  completed: boolean;
+  startTime: number | null;
+  endTime: number | null;
+  duration?: number; // SCAN: seconds to dwell after the scan; LOAD: seconds to load the object
+  elapsed?: number; // SCAN, LOAD: seconds of sim time spent on the step so far
+  level?: number; // CHARGE: battery % to charge up to
+  checkpoint?: { index: number; pass: number }; // SCAN: which patrol checkpoint, on which pass
+}
+
+export interface PatrolCheckpoint {
+  position: Vector2D;
+  name?: string;
+  dwellSeconds: number;
+}
+
+/** A LiDAR scan as taken at one moment, like the dashboard's LidarData */
+export interface LidarSnapshot {
+  robotId: string;
+  timestamp: number;
+  pose: Pose;
+  points: Vector2D[];
+  maxRange: number;
+  numRays: number;
+}
+
+export interface PatrolRoute {
+  checkpoints: PatrolCheckpoint[];
+  // Looping routes start every pass at the first checkpoint and finish back there;
+  // ordered routes sweep back and forth, reversing at each end
+  loop: boolean;
+  repeat: number; // passes over the route
+  log: { checkpoint: number; pass: number; scan: LidarSnapshot }[]; // latest PATROL_LOG_LIMIT scans
+}
+
+export interface Task {
+  id: string;
+  type: TaskType;
+  priority: TaskPriority;
+  status: TaskStatus;
+  
+  // Assignment
+  assignedRobotId: string | null;
+  reservedFor: string | null; // only this robot may take the task (CHARGE)
+  
+  // Target
+  objectId: string | null;
+  sourceZone: string | null;
+  targetZone: string | null;
+  
+  // Steps (for multi-step tasks)
+  steps: TaskStep[];
+  currentStep: number;
+
+  // Tasks that must complete first; the task stays BLOCKED until they have
+  dependsOn: string[];
+  
+  // Timing
+  createdAt: number;
+  startedAt: number | null;
+  completedAt: number | null;
+  estimatedDuration: number; // seconds
+
+  // Time window on the sim clock: not dispatched before earliestStart, late if completed after dueBy
+  earliestStart: number | null;
+  dueBy: number | null;
+
+  // PATROL tasks only
+  patrol: PatrolRoute | null;
+  
+  // AI Planning
+  aiScore: number;
+  aiReasoning: string;
+
+  // Failure handling
+  retryCount: number;
+  maxRetries: number;
+  failureReason: string | null;
+
+  // Quality control
+  inspection: InspectionResult | null; // outcome of an INSPECT step
+  disposition: Disposition | null; // set on rework and return-to-supplier tasks
+}
+
+export type Disposition = 'REWORK' | 'RETURN';
+
+export interface InspectionFinding {
+  objectId: string;
+  defects: DefectCategory[]; // the ones detected
+  disposition: Disposition;
+  followUpTaskId: string | null; // rework or return-to-supplier task
+}
+
+export interface InspectionResult {
+  result: 'PASS' | 'FAIL';
+  inspectedAt: number;
+  objectIds: string[];
+  findings: InspectionFinding[];
+}
+
+export interface QualitySettings {
+  detectionProbability: number; // chance an inspection spots a given defect on a borderline object
+  defectRate: number; // share of new objects that arrive with defects
+}
+
+export type FaultKind = 'BREAKDOWN' | 'DROPPED_OBJECT' | 'PICK_FAILURE' | 'LIDAR_DROPOUT' | 'BLOCKED_AISLE' | 'BATTERY_CELL_FAILURE';
+
+export interface FaultSetting {
+  probability: number; // per pick for PICK_FAILURE, otherwise per minute (per robot, or site-wide for BLOCKED_AISLE)
+  durationSeconds: number; // how long a LiDAR dropout or blocked aisle lasts (a breakdown lasts as its fault code's recovery takes)
+  activeFrom: number | null; // sim clock window in which the fault can strike, open-ended when null
+  activeUntil: number | null;
+}
+
+export interface ChaosSettings {
+  enabled: boolean;
+  faults: Record<FaultKind, FaultSetting>;
+}
+
+export interface Fault {
+  id: string;
+  kind: FaultKind;
+  robotId: string | null;
+  obstacleId: string | null; // the barrier of a blocked aisle
+  detail: string;
+  startedAt: number;
+  endsAt: number | null; // null for one-off faults and for an injected pick failure waiting for the next pick
+  active: boolean;
+}
+
+/** What a schedule creates each time it fires */
+/** A scheduled task's time window, in sim minutes from the firing that creates it */
+export interface ScheduleWindow {
+  startInMinutes?: number | null;
+  dueInMinutes?: number | null;
+}
+
+type ScheduledInput<T> = Omit<T, 'priority' | keyof TaskWindowInput>;
+
+export type ScheduleTemplate = ScheduleWindow & (
+  | { kind: 'RESTOCK'; objectType: ObjectType; quantity: number; targetZoneId: string; sourceZoneId?: string | null }
+  | { kind: 'INSPECT'; zoneId: string }
+  | ({ kind: 'PATROL' } & ScheduledInput<PatrolInput>)
+  | ({ kind: 'TRANSPORT' } & ScheduledInput<TransportInput>)
+  | ({ kind: 'CHARGE' } & ScheduledInput<ChargeInput>)
+);
+
+export interface TaskSchedule {
+  id: string;
+  name: string;
+  cron: string; // minute hour day-of-month month day-of-week, in UTC on the sim clock
+  enabled: boolean;
+  priority: TaskPriority;
+  template: ScheduleTemplate;
+  nextRunAt: number | null; // sim clock; null while disabled
+  lastRunAt: number | null;
+  taskIds: string[]; // tasks created by the last firing
+}
+
+export type ScheduleInput = Pick<TaskSchedule, 'name' | 'cron' | 'template'> &
+  Partial<Pick<TaskSchedule, 'id' | 'enabled' | 'priority'>>;
+
+export interface SimulationState {
+  id: string;
+  name: string;
+  status: 'STOPPED' | 'RUNNING' | 'PAUSED';
+  
+  // Environment
+  environmentType: 'CONSTRUCTION_SITE' | 'FACILITY_MAINTENANCE' | 'INDUSTRIAL_PLANT';
+  dimensions: { width: number; height: number };
+  
+  // Entities
+  robots: Map<string, Robot>;
+  objects: Map<string, ConstructionObject>;
+  zones: Map<string, Zone>;
+  obstacles: Map<string, Obstacle>;
+  tasks: Map<string, Task>;
+  schedules: Map<string, TaskSchedule>;
+
+  // Quality control
+  quality: QualitySettings;
+
+  // Fault injection
+  chaos: ChaosSettings;
+  faults: Map<string, Fault>; // faults in effect plus a log of recent ones
+
+  // Robot maintenance
+  maintenance: MaintenanceSettings;
+
+  // Inventory
+  movements: InventoryMovement[]; // ledger of the latest object movements, oldest first
+  movementSeq: number; // movements recorded so far, numbering the next one
+  
+  // Timing
+  tick: number;
+  startTime: number;
+  timeMultiplier: number;
+  simTime: number; // simulated milliseconds elapsed since the state was created
+  clockStart: number; // calendar time (epoch ms) the sim clock reads at simTime 0
+
+  // Determinism — a non-null seed switches to the seeded PRNG and fixed-step clock
+  seed: number | null;
+  rngState: number;
+  
+  // Metrics
+  metrics: {
+    totalTasksCreated: number;
+    totalTasksCompleted: number;
+    totalTasksFailed: number;
+    averageTaskTime: number;
+    fleetEfficiency: number;
+    pickSuccessRate: number;
+    nearMisses: number; // robot pairs that came within NEAR_MISS_DISTANCE of each other
+    restrictedAreaViolations: number; // robot entries into an active RESTRICTED_AREA
+    onTimeTasks: number; // tasks with a dueBy completed in time
+    lateTasks: number; // tasks completed after their dueBy
+    onTimeRate: number;
+    averageLateness: number; // seconds, over late tasks
+    atRiskTasks: number; // open tasks projected to miss their dueBy
+    inspectionsPassed: number;
+    inspectionsFailed: number; // inspections that found at least one defect
+    defectsDetected: number;
+    defectsMissed: number; // defects on inspected objects that went unnoticed
+    faultsInjected: number;
+    taskRetries: number; // failed attempts that went back in the queue
+    faultsRaised: number; // robot fault codes raised
+    servicesCompleted: number;
+    faultDowntime: number; // robot-seconds down with a fault, technician repairs included
+    maintenanceDowntime: number; // robot-seconds in scheduled maintenance
+    fleetAvailability: number; // share of robot time in service
+  };
+}
+
+// ============================================
+// UTILITY FUNCTIONS
+// ============================================
+
+/**
+ * Random number in [0, 1). Seeded states use a mulberry32 generator whose
+ * whole state is the single integer `rngState`, so a run can be reproduced
+ * (or checkpointed) from the seed alone. Unseeded states use Math.random().
+ */
+export function random(state: SimulationState): number {
+  if (state.seed === null) return Math.random();
+  state.rngState = (state.rngState + 0x6D2B79F5) | 0;
+  let t = state.rngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+export function generateId(state: SimulationState): string {
+  return random(state).toString(36).substring(2, 15);
+}
+
+/**
+ * The sim clock: calendar time that advances with simulated time only, so it
+ * follows the speed multiplier and stands still while paused. Every timestamp,
+ * deadline, time window and cron rule in the state is on this clock.
+ */
+export function simNow(state: SimulationState): number {
+  return state.clockStart + state.simTime;
+}
+
+export function distance(a: Vector2D, b: Vector2D): number {
+  return Math.sqrt((b.x - a.x) ** 2 + (b.y - a.y) ** 2);
+}
+
+function normalize(v: Vector2D): Vector2D {
+  const len = Math.sqrt(v.x ** 2 + v.y ** 2);
+  if (len === 0) return { x: 0, y: 0 };
+  return { x: v.x / len, y: v.y / len };
+}
+
+function angleBetween(from: Vector2D, to: Vector2D): number {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  return Math.atan2(dy, dx) * (180 / Math.PI);
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+export function isInsideBounds(point: Vector2D, bounds: { x: number; y: number; width: number; height: number }): boolean {
+  return point.x >= bounds.x && 
+         point.x <= bounds.x + bounds.width && 
+         point.y >= bounds.y && 
+         point.y <= bounds.y + bounds.height;
+}
+
+// ============================================
+// SHARED OBJECT TYPE CONFIGS (used by createInitialState + zones:update)
+// ============================================
+
+const OBJECT_TYPE_CONFIGS: Record<ObjectType, { color: string; weight: number; shape: string; dimensions: { width: number; height: number; depth: number } }> = {
+  'STEEL_BEAM': { color: '#64748b', weight: 50, shape: 'beam', dimensions: { width: 60, height: 15, depth: 15 } },
+  'CONCRETE_BLOCK': { color: '#78716c', weight: 30, shape: 'block', dimensions: { width: 30, height: 20, depth: 20 } },
+  'PIPE_SECTION': { color: '#0ea5e9', weight: 15, shape: 'cylinder', dimensions: { width: 50, height: 12, depth: 12 } },
+  'ELECTRICAL_PANEL': { color: '#eab308', weight: 20, shape: 'box', dimensions: { width: 25, height: 35, depth: 15 } },
+  'HVAC_UNIT': { color: '#22c55e', weight: 40, shape: 'box', dimensions: { width: 40, height: 30, depth: 30 } },
+  'TOOL_BOX': { color: '#ef4444', weight: 10, shape: 'box', dimensions: { width: 25, height: 15, depth: 15 } },
+  'SAFETY_EQUIPMENT': { color: '#f97316', weight: 5, shape: 'box', dimensions: { width: 20, height: 20, depth: 15 } },
+  'SCAFFOLDING_PART': { color: '#a855f7', weight: 25, shape: 'beam', dimensions: { width: 50, height: 10, depth: 10 } },
+  'CEMENT_BAG': { color: '#94a3b8', weight: 50, shape: 'bag', dimensions: { width: 35, height: 20, depth: 15 } },
+  'SAND_BAG': { color: '#d4a574', weight: 30, shape: 'bag', dimensions: { width: 35, height: 18, depth: 12 } },
+  'CARDBOARD_BOX': { color: '#c9a66b', weight: 8, shape: 'box', dimensions: { width: 30, height: 25, depth: 25 } },
+  'BRICK_PALLET': { color: '#b45309', weight: 45, shape: 'pallet', dimensions: { width: 50, height: 30, depth: 30 } },
+  'GRAVEL_BAG': { color: '#6b7280', weight: 25, shape: 'bag', dimensions: { width: 30, height: 18, depth: 12 } },
+  'TILE_STACK': { color: '#f5f5f4', weight: 35, shape: 'stack', dimensions: { width: 40, height: 25, depth: 20 } },
+  'WOOD_PLANK': { color: '#a16207', weight: 12, shape: 'plank', dimensions: { width: 70, height: 8, depth: 15 } },
+  'REBAR_BUNDLE': { color: '#44403c', weight: 60, shape: 'bundle', dimensions: { width: 80, height: 15, depth: 15 } },
+  'MIXED_MATERIAL': { color: '#71717a', weight: 20, shape: 'mixed', dimensions: { width: 35, height: 25, depth: 20 } }
+};
+
+const OBJECT_TYPE_LIST = Object.keys(OBJECT_TYPE_CONFIGS) as ObjectType[];
+
+const OBJECT_NAME_PREFIXES: Record<ObjectType, string[]> = {
+  STEEL_BEAM: ['Main', 'Support', 'Cross', 'Frame'],
+  CONCRETE_BLOCK: ['Foundation', 'Wall', 'Pillar', 'Corner'],
+  PIPE_SECTION: ['Plumbing', 'Drain', 'Supply', 'Vent'],
+  ELECTRICAL_PANEL: ['Main', 'Sub', 'Circuit', 'Control'],
+  HVAC_UNIT: ['AC', 'Ventilation', 'Exhaust', 'Supply'],
+  TOOL_BOX: ['Red', 'Blue', 'Yellow', 'Green'],
+  SAFETY_EQUIPMENT: ['Fire', 'First Aid', 'PPE', 'Emergency'],
+  SCAFFOLDING_PART: ['Tower', 'Bridge', 'Platform', 'Frame'],
+  CEMENT_BAG: ['Portland', 'Quick', 'White', 'Gray'],
+  SAND_BAG: ['Fine', 'Coarse', 'River', 'Beach'],
+  CARDBOARD_BOX: ['Large', 'Medium', 'Small', 'Heavy'],
+  BRICK_PALLET: ['Red', 'Clay', 'Concrete', 'Fire'],
+  GRAVEL_BAG: ['Pea', 'Crushed', 'River', 'Decorative'],
+  TILE_STACK: ['Ceramic', 'Porcelain', 'Marble', 'Granite'],
+  WOOD_PLANK: ['Oak', 'Pine', 'Cedar', 'Plywood'],
+  REBAR_BUNDLE: ['#4', '#5', '#6', '#8'],
+  MIXED_MATERIAL: ['Batch', 'Set', 'Kit', 'Package']
+};
+
+function generateObjectNameShared(type: ObjectType, index: number, zonePrefix: string): string {
+  const prefixes = OBJECT_NAME_PREFIXES[type] || ['Item'];
+  const prefix = prefixes[index % prefixes.length];
+  return `${prefix} ${type.replace(/_/g, ' ')} ${zonePrefix}${String(index + 1).padStart(2, '0')}`;
+}
+
+// Zone types that should receive materials
+const MATERIAL_ZONE_TYPES = new Set(['MATERIAL_STORAGE', 'ASSEMBLY_AREA', 'STAGING_ZONE', 'WORK_ZONE', 'INSPECTION_POINT']);
+// Zone types that should NOT receive materials
+const NON_MATERIAL_ZONE_TYPES = new Set([
+  'CHARGING_STATION', 'ROBOT_HOME', 'RESTRICTED_AREA',
+  'OFFICE', 'LOBBY', 'KITCHEN', 'RESTAURANT', 'MEETING_ROOM',
+  'BATHROOM', 'HALLWAY', 'STORAGE', 'RECEPTION'
+]);
+
+/** Generate objects for zones used by zones:update handler */
+export function generateObjectsForZones(state: SimulationState): void {
+  const allZones = Array.from(state.zones.values());
+  const materialZones = allZones.filter(z => {
+    const upperType = z.type.toUpperCase();
+    if (NON_MATERIAL_ZONE_TYPES.has(upperType)) return false;
+    // If it's a known material zone type or unknown type that is not excluded
+    return MATERIAL_ZONE_TYPES.has(upperType) || !NON_MATERIAL_ZONE_TYPES.has(upperType);
+  });
+
+  let totalGenerated = 0;
+  const zoneObjectCounts: Array<{ zone: Zone; count: number }> = [];
+
+  for (const zone of materialZones) {
+    const area = zone.bounds.width * zone.bounds.height;
+    // More generous formula: 5–12 objects per zone
+    const count = Math.min(zone.capacity, Math.max(5, Math.min(12, Math.floor(area / 8000))));
+    zoneObjectCounts.push({ zone, count });
+    totalGenerated += count;
+  }
+
+  // Ensure minimum 25 objects total, as far as the zones have free slots
+  if (totalGenerated < 25 && zoneObjectCounts.length > 0) {
+    // Add extras to the largest zone, spilling over into the next largest once it is full
+    const sorted = [...zoneObjectCounts].sort((a, b) =>
+      (b.zone.bounds.width * b.zone.bounds.height) - (a.zone.bounds.width * a.zone.bounds.height)
+    );
+    for (const entry of sorted) {
+      const free = entry.zone.capacity - entry.zone.slots.length - entry.count;
+      const extra = Math.max(0, Math.min(25 - totalGenerated, free));
+      entry.count += extra;
+      totalGenerated += extra;
+    }
+  }
+
+  for (const { zone, count } of zoneObjectCounts) {
+    const prefix = zone.name.charAt(0).toUpperCase();
+    for (let i = 0; i < count; i++) {
+      const objType = OBJECT_TYPE_LIST[i % OBJECT_TYPE_LIST.length];
+      const cfg = OBJECT_TYPE_CONFIGS[objType];
+      const obj: ConstructionObject = {
+        id: `obj-${generateId(state)}`,
+        type: objType,
+        name: generateObjectNameShared(objType, i, prefix),
+        pose: { x: 0, y: 0, rotation: 0 }, // lined up in its slot by stowObject
+        dimensions: cfg.dimensions,
+        weight: cfg.weight,
+        status: 'AVAILABLE',
+        pickedBy: null,
+        targetZone: null,
+        color: cfg.color,
+        ...rollCondition(state),
+      };
+      receiveObject(obj, zone, state);
+    }
+  }
+}
+
+// ============================================
+// PATHFINDING (occupancy grid + binary-heap A*)
+// ============================================
+
+const PATH_GRID = 20; // px per occupancy cell; cell (cx, cy) is centred on (cx * PATH_GRID, cy * PATH_GRID)
+const GOAL_SNAP_CELLS = 2; // a goal inside an inflated obstacle moves to the nearest free cell this close
+const PATH_CACHE_SIZE = 256;
+
+/** Clearance each robot type needs from an obstacle edge, px (half its rendered size) */
+const ROBOT_FOOTPRINT_RADIUS: Record<Robot['type'], number> = {
+  MOBILE_MANIPULATOR: 15,
+  AMR_TRANSPORT: 15,
+  FORKLIFT: 20
+};
+
+const OBSTACLE_CELL = 1;
+const KEEP_OUT_CELL = 2;
+
+export interface OccupancyGrid {
+  cols: number;
+  rows: number;
+  blocked: Uint8Array; // OBSTACLE_CELL where a robot of this footprint would touch an obstacle, KEEP_OUT_CELL inside an active restricted area
+}
+
+interface GridCell {
+  cx: number;
+  cy: number;
+}
+
+interface PathfindingCache {
+  obstacles: string; // signature of the obstacles and active restrictions the grids and paths were computed for
+  grids: Map<number, OccupancyGrid>; // by footprint radius
+  paths: Map<string, Vector2D[] | null>; // insertion-ordered, oldest evicted first
+}
+
+const pathfindingCaches = new WeakMap<SimulationState, PathfindingCache>();
+
+/** Min-heap keyed by a numeric priority */
+class BinaryHeap<T> {
+  private items: T[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T, priority: number): void {
+    this.items.push(item);
+    this.priorities.push(priority);
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    if (this.items.length === 0) return undefined;
+    const top = this.items[0];
+    const lastItem = this.items.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = lastItem;
+      this.priorities[0] = lastPriority;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+        if (right < this.items.length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
+
+function obstacleSignature(state: SimulationState): string {
+  let signature = `${state.dimensions.width}x${state.dimensions.height}`;
+  for (const o of state.obstacles.values()) {
+    signature += `|${o.id}:${o.pose.x},${o.pose.y},${o.dimensions.width},${o.dimensions.height}`;
+  }
+  for (const zone of getActiveRestrictions(state)) {
+    const { x, y, width, height } = zone.bounds;
+    signature += `|${zone.id}:${x},${y},${width},${height}`;
+  }
+  return signature;
+}
+
+/** Grids and cached paths for the current obstacle layout; rebuilt whenever an obstacle or restriction changes */
+function getPathfindingCache(state: SimulationState): PathfindingCache {
+  const signature = obstacleSignature(state);
+  let cache = pathfindingCaches.get(state);
+  if (!cache || cache.obstacles !== signature) {
+    cache = { obstacles: signature, grids: new Map(), paths: new Map() };
+    pathfindingCaches.set(state, cache);
+  }
+  return cache;
+}
+
+function buildOccupancyGrid(state: SimulationState, inflation: number): OccupancyGrid {
+  const cols = Math.ceil(state.dimensions.width / PATH_GRID) + 1;
+  const rows = Math.ceil(state.dimensions.height / PATH_GRID) + 1;
+  const blocked = new Uint8Array(cols * rows);
+
+  // Rectangle grown by the footprint, so the robot centre can treat it as a point
+  const block = (rect: Zone['bounds'], value: number) => {
+    const fromCx = Math.max(0, Math.ceil((rect.x - inflation) / PATH_GRID));
+    const toCx = Math.min(cols - 1, Math.floor((rect.x + rect.width + inflation) / PATH_GRID));
+    const fromCy = Math.max(0, Math.ceil((rect.y - inflation) / PATH_GRID));
+    const toCy = Math.min(rows - 1, Math.floor((rect.y + rect.height + inflation) / PATH_GRID));
+    for (let cy = fromCy; cy <= toCy; cy++) {
+      blocked.fill(value, cy * cols + fromCx, cy * cols + toCx + 1);
+    }
+  };
+
+  for (const zone of getActiveRestrictions(state)) {
+    block(zone.bounds, KEEP_OUT_CELL);
+  }
+  // Obstacles last: a robot may drive out of a keep-out area, never through an obstacle
+  for (const obstacle of state.obstacles.values()) {
+    block(obstacleBounds(obstacle), OBSTACLE_CELL);
+  }
+
+  return { cols, rows, blocked };
+}
+
+/** Occupancy grid for a robot (inflated by its footprint), or for a point if omitted */
+export function getOccupancyGrid(state: SimulationState, robot?: Robot): OccupancyGrid {
+  const inflation = robot ? ROBOT_FOOTPRINT_RADIUS[robot.type] : 0;
+  const cache = getPathfindingCache(state);
+  let grid = cache.grids.get(inflation);
+  if (!grid) {
+    grid = buildOccupancyGrid(state, inflation);
+    cache.grids.set(inflation, grid);
+  }
+  return grid;
+}
+
+function cellOf(point: Vector2D): GridCell {
+  return { cx: Math.round(point.x / PATH_GRID), cy: Math.round(point.y / PATH_GRID) };
+}
+
+function cellCenter(cell: GridCell): Vector2D {
+  return { x: cell.cx * PATH_GRID, y: cell.cy * PATH_GRID };
+}
+
+function isCellFree(grid: OccupancyGrid, cx: number, cy: number): boolean {
+  return cx >= 0 && cy >= 0 && cx < grid.cols && cy < grid.rows && grid.blocked[cy * grid.cols + cx] === 0;
+}
+
+/** Nearest free cell within GOAL_SNAP_CELLS of `cell`, or null if it is walled in */
+function snapToFreeCell(grid: OccupancyGrid, cell: GridCell): GridCell | null {
+  let best: GridCell | null = null;
+  let bestDistance = Infinity;
+  for (let dy = -GOAL_SNAP_CELLS; dy <= GOAL_SNAP_CELLS; dy++) {
+    for (let dx = -GOAL_SNAP_CELLS; dx <= GOAL_SNAP_CELLS; dx++) {
+      const d = Math.hypot(dx, dy);
+      if (d < bestDistance && isCellFree(grid, cell.cx + dx, cell.cy + dy)) {
+        best = { cx: cell.cx + dx, cy: cell.cy + dy };
+        bestDistance = d;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * The eight moves, skipping diagonals that would clip the corner of a blocked
+ * cell. From inside a keep-out area its cells stay passable, so a robot caught
+ * there when the restriction starts can drive out — but never back in.
+ */
+function gridNeighbors(grid: OccupancyGrid, cx: number, cy: number): GridCell[] {
+  const escaping = grid.blocked[cy * grid.cols + cx] === KEEP_OUT_CELL;
+  const passable = (x: number, y: number) =>
+    isCellFree(grid, x, y) || (escaping && x >= 0 && y >= 0 && x < grid.cols && y < grid.rows && grid.blocked[y * grid.cols + x] === KEEP_OUT_CELL);
+
+  const neighbors: GridCell[] = [];
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      if (dx === 0 && dy === 0) continue;
+      if (!passable(cx + dx, cy + dy)) continue;
+      if (dx !== 0 && dy !== 0 && (!passable(cx + dx, cy) || !passable(cx, cy + dy))) continue;
+      neighbors.push({ cx: cx + dx, cy: cy + dy });
+    }
+  }
+  return neighbors;
+}
+
+/**
+ * Shortest obstacle-free grid path from `start` to `end` for `robot`'s
+ * footprint (or a point), as cell centres. Returns null if the goal can't be
+ * reached — callers must treat that as a failure rather than drive through
+ * walls. Results are cached until the obstacle layout changes.
+ */
+export function findPath(start: Vector2D, end: Vector2D, state: SimulationState, robot?: Robot): Vector2D[] | null {
+  const grid = getOccupancyGrid(state, robot);
+  const from = cellOf(start);
+  const goal = snapToFreeCell(grid, cellOf(end));
+  if (!goal) return null;
+
+  const cache = getPathfindingCache(state).paths;
+  const key = `${robot ? ROBOT_FOOTPRINT_RADIUS[robot.type] : 0}:${from.cx},${from.cy}>${goal.cx},${goal.cy}`;
+  if (cache.has(key)) {
+    const cached = cache.get(key)!;
+    // Refresh recency
+    cache.delete(key);
+    cache.set(key, cached);
+    return cached && cached.map(p => ({ ...p }));
+  }
+
+  const path = searchGrid(grid, from, goal);
+  cache.set(key, path);
+  if (cache.size > PATH_CACHE_SIZE) {
+    cache.delete(cache.keys().next().value!);
+  }
+  return path && path.map(p => ({ ...p }));
+}
+
+function searchGrid(grid: OccupancyGrid, from: GridCell, goal: GridCell): Vector2D[] | null {
+  const { cols } = grid;
+  const index = (cx: number, cy: number) => cy * cols + cx;
+  const startIndex = index(from.cx, from.cy);
+  const goalIndex = index(goal.cx, goal.cy);
+
+  // The start may sit inside an inflated obstacle (parked against a wall); let the robot leave it
+  if (from.cx < 0 || from.cy < 0 || from.cx >= grid.cols || from.cy >= grid.rows) return null;
+
+  const g = new Float64Array(grid.blocked.length).fill(Infinity);
+  const cameFrom = new Int32Array(grid.blocked.length).fill(-1);
+  const closed = new Uint8Array(grid.blocked.length);
+  const open = new BinaryHeap<number>();
+
+  // Octile distance — exact on an 8-connected grid without obstacles
+  const heuristic = (cx: number, cy: number) => {
+    const dx = Math.abs(cx - goal.cx);
+    const dy = Math.abs(cy - goal.cy);
+    return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+  };
+
+  g[startIndex] = 0;
+  open.push(startIndex, heuristic(from.cx, from.cy));
+
+  while (open.size > 0) {
+    const current = open.pop()!;
+    if (current === goalIndex) break;
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    const cx = current % cols;
+    const cy = (current - cx) / cols;
+    for (const next of gridNeighbors(grid, cx, cy)) {
+      const nextIndex = index(next.cx, next.cy);
+      if (closed[nextIndex]) continue;
+      const cost = g[current] + (next.cx !== cx && next.cy !== cy ? Math.SQRT2 : 1);
+      if (cost < g[nextIndex]) {
+        g[nextIndex] = cost;
+        cameFrom[nextIndex] = current;
+        open.push(nextIndex, cost + heuristic(next.cx, next.cy));
+      }
+    }
+  }
+
+  if (g[goalIndex] === Infinity) return null;
+
+  const path: Vector2D[] = [];
+  for (let i = goalIndex; i !== -1; i = cameFrom[i]) {
+    const cx = i % cols;
+    path.unshift(cellCenter({ cx, cy: (i - cx) / cols }));
+  }
+  return path;
+}
+
+// ============================================
+// MULTI-AGENT PLANNING (space-time reservations)
+// ============================================
+//
+// Prioritized cooperative A*: each robot plans through (cell, time) space
+// around the cells other robots have already reserved, waiting in place or
+// detouring where they would overlap, then reserves its own path. Robots that
+// fall behind schedule are caught by a runtime yield check in updateRobot,
+// which waits for the robot ahead and replans around it if it doesn't clear.
+
+// Reservations use the pathfinding grid. Durations are in "cell times":
+// how long the planning robot takes to cross one cell
+const RESERVATION_CLEARANCE = 1; // cells kept clear around another robot's reservation
+const WAIT_STEP_CELLS = 0.5;
+const GOAL_HOLD_CELLS = 2; // a robot is assumed to stay this long at its goal (pick/place)
+const PLAN_HORIZON_CELLS = 150;
+const MAX_PLAN_ITERATIONS = 4000;
+const REPLAN_AFTER_WAIT_CELLS = 1;
+const YIELD_DISTANCE = 35; // px ahead of a moving robot that must be clear
+const YIELD_WIDTH = 24; // px either side of the direction of travel
+const ARRIVAL_REACH = 40; // px — close enough to work on a goal another robot is parked on
+export const NEAR_MISS_DISTANCE = 25; // px between robot centres
+
+interface Reservation {
+  robotId: string;
+  from: number; // sim ms
+  to: number;
+}
+
+interface TrafficState {
+  cells: Map<string, Reservation[]>;
+  byRobot: Map<string, Set<string>>; // robot id → reserved cell keys
+  nearMissPairs: Set<string>; // pairs currently inside NEAR_MISS_DISTANCE
+}
+
+// Derived from robot paths, so kept beside the state rather than checkpointed with it
+const trafficStates = new WeakMap<SimulationState, TrafficState>();
+
+function getTraffic(state: SimulationState): TrafficState {
+  let traffic = trafficStates.get(state);
+  if (!traffic) {
+    traffic = { cells: new Map(), byRobot: new Map(), nearMissPairs: new Set() };
+    trafficStates.set(state, traffic);
+  }
+  return traffic;
+}
+
+interface SpaceTimeNode extends GridCell {
+  t: number; // sim ms of arrival
+  parent: SpaceTimeNode | null;
+}
+
+const cellKey = (cx: number, cy: number) => `${cx},${cy}`;
+
+/** Sim ms `robot` takes to cross one reservation cell */
+function cellTime(robot: Robot, state: SimulationState): number {
+  return PATH_GRID / Math.max(0.1, loadDynamics(robot, state).speed) * 1000;
+}
+
+function isReservedByOthers(traffic: TrafficState, cell: GridCell, from: number, to: number, robotId: string): boolean {
+  for (let dx = -RESERVATION_CLEARANCE; dx <= RESERVATION_CLEARANCE; dx++) {
+    for (let dy = -RESERVATION_CLEARANCE; dy <= RESERVATION_CLEARANCE; dy++) {
+      const reservations = traffic.cells.get(cellKey(cell.cx + dx, cell.cy + dy));
+      if (!reservations) continue;
+      for (const r of reservations) {
+        if (r.robotId !== robotId && r.from <= to && r.to >= from) return true;
+      }
+    }
+  }
+  return false;
+}
+
+function reserve(traffic: TrafficState, cell: GridCell, from: number, to: number, robotId: string): void {
+  const key = cellKey(cell.cx, cell.cy);
+  let reservations = traffic.cells.get(key);
+  if (!reservations) {
+    reservations = [];
+    traffic.cells.set(key, reservations);
+  }
+  reservations.push({ robotId, from, to });
+
+  let keys = traffic.byRobot.get(robotId);
+  if (!keys) {
+    keys = new Set();
+    traffic.byRobot.set(robotId, keys);
+  }
+  keys.add(key);
+}
+
+function releaseReservations(traffic: TrafficState, robotId: string): void {
+  const keys = traffic.byRobot.get(robotId);
+  if (!keys) return;
+  for (const key of keys) {
+    const remaining = (traffic.cells.get(key) || []).filter(r => r.robotId !== robotId);
+    if (remaining.length > 0) traffic.cells.set(key, remaining);
+    else traffic.cells.delete(key);
+  }
+  traffic.byRobot.delete(robotId);
+}
+
+/** Drop reservations that have already expired */
+function pruneReservations(state: SimulationState): void {
+  const traffic = getTraffic(state);
+  for (const [key, reservations] of traffic.cells) {
+    const live = reservations.filter(r => r.to >= state.simTime);
+    if (live.length === 0) traffic.cells.delete(key);
+    else if (live.length < reservations.length) traffic.cells.set(key, live);
+  }
+}
+
+/**
+ * Plan `robot` to `target` around static obstacles and the space-time
+ * reservations of every other robot, then reserve the result. Robots without
+ * a path (parked, picking, charging) and any `avoid` robots block their cell
+ * outright. Falls back to the plain grid path if no reservation-free route
+ * is found within the planning horizon. Returns false, leaving the robot
+ * without a path, if `target` can't be reached at all.
+ */
+export function planRobotPath(robot: Robot, target: Vector2D, state: SimulationState, avoid: Robot[] = []): boolean {
+  const traffic = getTraffic(state);
+  releaseReservations(traffic, robot.id);
+  robot.pathIndex = 0;
+  robot.waitingSince = null;
+
+  // Static reachability first (cached), so unreachable goals don't cost a space-time search
+  const staticPath = findPath(robot.pose, target, state, robot);
+  if (!staticPath) {
+    robot.path = [];
+    robot.pathDepartures = [];
+    return false;
+  }
+
+  const grid = getOccupancyGrid(state, robot);
+  const now = state.simTime;
+  const cellMs = cellTime(robot, state);
+  const waitMs = cellMs * WAIT_STEP_CELLS;
+  const holdMs = cellMs * GOAL_HOLD_CELLS;
+  const start = cellOf(robot.pose);
+  const goal = cellOf(staticPath[staticPath.length - 1]);
+
+  const parked = new Set<string>();
+  for (const other of state.robots.values()) {
+    if (other.id !== robot.id && (other.path.length === 0 || avoid.includes(other))) {
+      const cell = cellOf(other.pose);
+      parked.add(cellKey(cell.cx, cell.cy));
+    }
+  }
+  // The goal itself stays reachable — ARRIVAL_REACH handles a robot parked on it
+  parked.delete(cellKey(goal.cx, goal.cy));
+
+  const lanes = getOneWayLanes(state);
+  const heuristic = (cell: GridCell) =>
+    Math.hypot(cell.cx - goal.cx, cell.cy - goal.cy) * cellMs;
+
+  const open = new BinaryHeap<SpaceTimeNode>();
+  open.push({ ...start, t: now, parent: null }, now + heuristic(start));
+  const closed = new Set<string>();
+  let found: SpaceTimeNode | null = null;
+
+  for (let iterations = 0; open.size > 0 && iterations < MAX_PLAN_ITERATIONS; iterations++) {
+    const current = open.pop()!;
+
+    if (current.cx === goal.cx && current.cy === goal.cy &&
+        !isReservedByOthers(traffic, current, current.t, current.t + holdMs, robot.id)) {
+      found = current;
+      break;
+    }
+
+    const closedKey = `${current.cx},${current.cy},${Math.floor((current.t - now) / waitMs)}`;
+    if (closed.has(closedKey)) continue;
+    closed.add(closedKey);
+    if (current.t - now > cellMs * PLAN_HORIZON_CELLS) continue;
+
+    // Waiting in place plus the obstacle-free grid moves
+    for (const next of [{ cx: current.cx, cy: current.cy }, ...gridNeighbors(grid, current.cx, current.cy)]) {
+      const waiting = next.cx === current.cx && next.cy === current.cy;
+      const t = current.t + (waiting ? waitMs : Math.hypot(next.cx - current.cx, next.cy - current.cy) * cellMs);
+
+      if (closed.has(`${next.cx},${next.cy},${Math.floor((t - now) / waitMs)}`)) continue;
+      if (!waiting && parked.has(cellKey(next.cx, next.cy))) continue;
+      if (isAgainstLane(cellCenter(current), cellCenter(next), lanes)) continue;
+      if (isReservedByOthers(traffic, next, current.t, t, robot.id)) continue;
+
+      open.push({ ...next, t, parent: current }, t + heuristic(next));
+    }
+  }
+
+  if (!found) {
+    robot.path = staticPath;
+    robot.pathDepartures = [];
+    return true;
+  }
+
+  const nodes: SpaceTimeNode[] = [];
+  for (let node: SpaceTimeNode | null = found; node; node = node.parent) nodes.unshift(node);
+
+  // Collapse waits into one waypoint whose departure is the time of its last wait
+  const path: Vector2D[] = [];
+  const departures: number[] = [];
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    const next = nodes[i + 1];
+    if (next) {
+      reserve(traffic, node, node.t, next.t, robot.id);
+      if (next.cx === node.cx && next.cy === node.cy) continue;
+      path.push(cellCenter(node));
+      departures.push(node.t);
+    } else {
+      reserve(traffic, node, node.t, node.t + holdMs, robot.id);
+      path.push(cellCenter(node));
+      departures.push(node.t);
+    }
+  }
+
+  robot.path = path;
+  robot.pathDepartures = departures;
+  return true;
+}
+
+/** Stop following the current path and give up its reservations */
+function clearRobotPath(robot: Robot, state: SimulationState): void {
+  robot.currentSpeed = 0;
+  robot.path = [];
+  robot.pathIndex = 0;
+  robot.pathDepartures = [];
+  robot.waitingSince = null;
+  releaseReservations(getTraffic(state), robot.id);
+}
+
+/**
+ * Another robot standing in the corridor just ahead of `robot`, if any.
+ * Robots queued to enter a zone `robot` is inside don't count: the robot
+ * holding the zone has right of way, otherwise neither could ever move.
+ */
+function findRobotAhead(robot: Robot, direction: Vector2D, state: SimulationState): Robot | null {
+  for (const other of state.robots.values()) {
+    if (other.id === robot.id || isQueuedFor(other, robot, state)) continue;
+    const dx = other.pose.x - robot.pose.x;
+    const dy = other.pose.y - robot.pose.y;
+    const ahead = dx * direction.x + dy * direction.y;
+    const lateral = Math.abs(dx * direction.y - dy * direction.x);
+    if (ahead > 0 && ahead < YIELD_DISTANCE && lateral < YIELD_WIDTH) return other;
+  }
+  return null;
+}
+
+/**
+ * Whether the robot has to hold position this step: either its reservation
+ * schedule says to wait at the last waypoint, or another robot is in the way.
+ * A robot kept waiting too long replans around whoever blocks it.
+ */
+function holdForTraffic(robot: Robot, target: Vector2D, state: SimulationState): boolean {
+  const departure = robot.pathIndex > 0 ? robot.pathDepartures[robot.pathIndex - 1] : undefined;
+  if (departure !== undefined && state.simTime < departure) return true;
+
+  const direction = normalize({ x: target.x - robot.pose.x, y: target.y - robot.pose.y });
+  const blocker = findRobotAhead(robot, direction, state);
+  if (!blocker) {
+    robot.waitingSince = null;
+    return false;
+  }
+
+  const destination = robot.path[robot.path.length - 1];
+  if (blocker.path.length === 0 &&
+      (distance(robot.pose, destination) < ARRIVAL_REACH || distance(blocker.pose, destination) < PATH_GRID)) {
+    // The destination is occupied by a parked robot and we're queued right behind it — work from here
+    arriveAtDestination(robot, state);
+    return true;
+  }
+
+  if (robot.waitingSince === null) {
+    robot.waitingSince = state.simTime;
+  } else if (state.simTime - robot.waitingSince > cellTime(robot, state) * REPLAN_AFTER_WAIT_CELLS) {
+    planRobotPath(robot, destination, state, [blocker]);
+  }
+  return true;
+}
+
+/** Count each robot pair once per approach inside NEAR_MISS_DISTANCE */
+function trackNearMisses(state: SimulationState): void {
+  const traffic = getTraffic(state);
+  const robots = Array.from(state.robots.values());
+  for (let i = 0; i < robots.length; i++) {
+    for (let j = i + 1; j < robots.length; j++) {
+      const pair = `${robots[i].id}|${robots[j].id}`;
+      const gap = distance(robots[i].pose, robots[j].pose);
+      if (gap < NEAR_MISS_DISTANCE) {
+        if (!traffic.nearMissPairs.has(pair)) {
+          traffic.nearMissPairs.add(pair);
+          state.metrics.nearMisses++;
+        }
+      } else if (gap > NEAR_MISS_DISTANCE * 1.5) {
+        // Hysteresis so a pair hovering at the threshold isn't counted every tick
+        traffic.nearMissPairs.delete(pair);
+      }
+    }
+  }
+}
+
+// ============================================
+// TRAFFIC RULES (one-way lanes, intersections, entry limits)
+// ============================================
+
+const LANE_VECTORS: Record<LaneDirection, Vector2D> = {
+  NORTH: { x: 0, y: -1 },
+  EAST: { x: 1, y: 0 },
+  SOUTH: { x: 0, y: 1 },
+  WEST: { x: -1, y: 0 }
+};
+
+/** Concurrent robot limit of a zone, or null if any number may enter */
+export function zoneRobotLimit(zone: Zone): number | null {
+  if (zone.maxRobots) return zone.maxRobots;
+  return zone.type === 'INTERSECTION' ? 1 : null;
+}
+
+function getOneWayLanes(state: SimulationState): Zone[] {
+  return Array.from(state.zones.values()).filter(z => z.type === 'ONE_WAY_LANE' && z.direction);
+}
+
+/** Whether a move from `from` to `to` runs against a one-way lane either point lies in */
+function isAgainstLane(from: Vector2D, to: Vector2D, lanes: Zone[]): boolean {
+  for (const lane of lanes) {
+    if (!isInsideBounds(from, lane.bounds) && !isInsideBounds(to, lane.bounds)) continue;
+    const along = LANE_VECTORS[lane.direction!];
+    if ((to.x - from.x) * along.x + (to.y - from.y) * along.y < 0) return true;
+  }
+  return false;
+}
+
+/** Whether `waiting` is queued to enter a zone that `holder` is inside */
+function isQueuedFor(waiting: Robot, holder: Robot, state: SimulationState): boolean {
+  for (const zone of state.zones.values()) {
+    if (zone.queue.includes(waiting.id) && zone.robots.includes(holder.id)) return true;
+  }
+  return false;
+}
+
+/**
+ * Gate a robot about to step to `next`: entering a zone at its robot limit
+ * (or with others queued ahead) puts the robot in that zone's queue and holds
+ * it at the boundary. Zones are entered together or not at all, so a robot
+ * never holds a lane while stuck waiting for the intersection inside it.
+ */
+function holdAtZoneEntry(robot: Robot, next: Vector2D, state: SimulationState): boolean {
+  const entering: Zone[] = [];
+  let blocked = false;
+
+  for (const zone of state.zones.values()) {
+    const limit = zoneRobotLimit(zone);
+    const queued = zone.queue.indexOf(robot.id);
+    if (limit === null || zone.robots.includes(robot.id) || !isInsideBounds(next, zone.bounds)) {
+      // Not (or no longer) waiting for this zone
+      if (queued !== -1) zone.queue.splice(queued, 1);
+      continue;
+    }
+
+    const turn = queued === -1 ? zone.queue.length : queued;
+    if (zone.robots.length < limit && turn === 0) {
+      entering.push(zone);
+    } else {
+      if (queued === -1) zone.queue.push(robot.id);
+      blocked = true;
+    }
+  }
+
+  if (blocked) return true;
+
+  for (const zone of entering) {
+    zone.robots.push(robot.id);
+    zone.queue = zone.queue.filter(id => id !== robot.id);
+  }
+  return false;
+}
+
+/**
+ * Sync zone membership with where robots actually are: robots that left
+ * release their place, robots placed inside (spawned, teleported) take one,
+ * and robots that stopped moving leave the queues. Every robot that newly
+ * turns up inside an active restricted area counts as a violation.
+ */
+function updateZoneTraffic(state: SimulationState): void {
+  for (const zone of state.zones.values()) {
+    const restricted = isRestrictionActive(zone, state);
+    const tracked = restricted || zoneRobotLimit(zone) !== null;
+    if (!tracked && zone.robots.length === 0 && zone.queue.length === 0) continue;
+
+    const inside = tracked
+      ? Array.from(state.robots.values())
+        .filter(r => isInsideBounds(r.pose, zone.bounds))
+        .map(r => r.id)
+      : [];
+    if (restricted) {
+      state.metrics.restrictedAreaViolations += inside.filter(id => !zone.robots.includes(id)).length;
+    }
+    zone.robots = inside;
+    zone.queue = zone.queue.filter(id => {
+      const robot = state.robots.get(id);
+      return robot !== undefined && robot.path.length > 0 && !zone.robots.includes(id);
+    });
+  }
+}
+
+// ============================================
+// RESTRICTED AREAS (keep-out zones)
+// ============================================
+
+// Restricted zone ids that were active at the last check, per simulation
+const restrictionStates = new WeakMap<SimulationState, Set<string>>();
+
+/** Whether a RESTRICTED_AREA keeps robots out right now: always, or only inside its activeFrom/activeUntil window */
+export function isRestrictionActive(zone: Zone, state: SimulationState): boolean {
+  if (zone.type !== 'RESTRICTED_AREA') return false;
+  const now = simNow(state);
+  return (zone.activeFrom == null || now >= zone.activeFrom) && (zone.activeUntil == null || now < zone.activeUntil);
+}
+
+function getActiveRestrictions(state: SimulationState): Zone[] {
+  return Array.from(state.zones.values()).filter(z => isRestrictionActive(z, state));
+}
+
+/** Nearest cell outside the keep-out area `cell` lies in (breadth-first through it), or null if there is none */
+function findKeepOutExit(grid: OccupancyGrid, cell: GridCell): GridCell | null {
+  const seen = new Set<number>([cell.cy * grid.cols + cell.cx]);
+  const queue: GridCell[] = [cell];
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i];
+    if (isCellFree(grid, current.cx, current.cy)) return current;
+    for (const next of gridNeighbors(grid, current.cx, current.cy)) {
+      const index = next.cy * grid.cols + next.cx;
+      if (seen.has(index)) continue;
+      seen.add(index);
+      queue.push(next);
+    }
+  }
+  return null;
+}
+
+/**
+ * When a restriction starts (its window opens, or the zone was just added),
+ * robots whose path runs through it replan and idle robots caught inside
+ * drive out. Robots already inside at that moment are not violations.
+ */
+function updateRestrictedAreas(state: SimulationState): void {
+  const active = getActiveRestrictions(state);
+  const previous = restrictionStates.get(state) ?? new Set<string>();
+  restrictionStates.set(state, new Set(active.map(z => z.id)));
+
+  const started = active.filter(z => !previous.has(z.id));
+  if (started.length === 0) return;
+
+  for (const zone of started) {
+    zone.robots = Array.from(state.robots.values())
+      .filter(r => isInsideBounds(r.pose, zone.bounds))
+      .map(r => r.id);
+  }
+  replanThrough(state, started.map(z => z.bounds), 'restricted area activation');
+
+  for (const robot of state.robots.values()) {
+    if (robot.status !== 'IDLE' || robot.path.length > 0) continue;
+    if (!started.some(z => z.robots.includes(robot.id))) continue;
+
+    const exit = findKeepOutExit(getOccupancyGrid(state, robot), cellOf(robot.pose));
+    if (exit && planRobotPath(robot, cellCenter(exit), state)) {
+      robot.status = 'MOVING';
+    }
+  }
+}
+
+// ============================================
+// PAYLOAD (capacity checks, load-dependent dynamics)
+// ============================================
+
+// At full payload a robot runs this much slower, accelerates this much slower and drains this much faster
+const FULL_LOAD_SPEED_LOSS = 0.4;
+const FULL_LOAD_ACCELERATION_LOSS = 0.5;
+const FULL_LOAD_EXTRA_DRAIN = 1;
+
+// Objects unloaded together are set down this far apart, this many to a row
+const UNLOAD_SPACING = 15;
+const UNLOAD_ROW = 3;
+
+/** Ids of the objects a robot has on board: in its gripper or cargo bay */
+export function carriedObjects(robot: Robot): string[] {
+  const held = robot.gripper?.heldObject ? [robot.gripper.heldObject] : [];
+  return robot.cargo ? [...held, ...robot.cargo.objects] : held;
+}
+
+/** Total weight of what the robot carries, kg */
+export function carriedLoad(robot: Robot, state: SimulationState): number {
+  return carriedObjects(robot).reduce((sum, id) => sum + (state.objects.get(id)?.weight ?? 0), 0);
+}
+
+function objectVolume(obj: ConstructionObject): number {
+  return obj.dimensions.width * obj.dimensions.height * obj.dimensions.depth;
+}
+
+/**
+ * Why `robot` could not have all of `objects` on board at once, or null if it
+ * can: a gripper holds one object, a cargo bay up to its slots and volume, and
+ * the total weight must stay within the payload capacity.
+ */
+function carryLimitReason(robot: Robot, objects: ConstructionObject[]): string | null {
+  const weight = objects.reduce((sum, o) => sum + o.weight, 0);
+  if (weight > robot.payloadCapacity) {
+    return `${weight} kg exceeds ${robot.name}'s payload capacity (${robot.payloadCapacity} kg)`;
+  }
+  if (robot.cargo) {
+    if (objects.length > robot.cargo.slots) {
+      return `${objects.length} objects exceed ${robot.name}'s ${robot.cargo.slots} cargo slots`;
+    }
+    if (objects.reduce((sum, o) => sum + objectVolume(o), 0) > robot.cargo.maxVolume) {
+      return `load exceeds ${robot.name}'s cargo volume`;
+    }
+    return null;
+  }
+  if (!robot.gripper) return `${robot.name} cannot carry objects`;
+  return objects.length > 1 ? `${robot.name}'s gripper holds one object at a time` : null;
+}
+
+/** Top speed, acceleration and battery drain at the robot's current load */
+export function loadDynamics(robot: Robot, state: SimulationState): { load: number; speed: number; acceleration: number; drainRate: number } {
+  const load = carriedLoad(robot, state);
+  const ratio = robot.payloadCapacity > 0 ? Math.min(1, load / robot.payloadCapacity) : 0;
+  return {
+    load,
+    speed: robot.speed * (1 - FULL_LOAD_SPEED_LOSS * ratio),
+    acceleration: robot.acceleration * (1 - FULL_LOAD_ACCELERATION_LOSS * ratio),
+    drainRate: robot.batteryDrainRate * (1 + FULL_LOAD_EXTRA_DRAIN * ratio)
+  };
+}
+
+/** Objects a task picks up — several for a batched pickup — which the assigned robot carries together */
+export function taskObjects(task: Task, state: SimulationState): ConstructionObject[] {
+  const objects: ConstructionObject[] = [];
+  for (const step of task.steps) {
+    const loads = step.action === 'PICK_OBJECT' || step.action === 'LOAD';
+    const obj = loads && typeof step.target === 'string' ? state.objects.get(step.target) : undefined;
+    if (obj) objects.push(obj);
+  }
+  return objects;
+}
+
+function canCarryTask(robot: Robot, task: Task, state: SimulationState): boolean {
+  const objects = taskObjects(task, state);
+  return objects.length === 0 || carryLimitReason(robot, objects) === null;
+}
+
+/** Whether any robot in the fleet can carry `objects` in one trip — otherwise a task for them would wait forever */
+function isCarriable(objects: ConstructionObject[], state: SimulationState): boolean {
+  return Array.from(state.robots.values()).some(r => carryLimitReason(r, objects) === null);
+}
+
+/** Where the i-th object unloaded at the robot's position goes: side by side in rows of UNLOAD_ROW */
+function unloadPose(robot: Robot, i: number): Pose {
+  return {
+    ...robot.pose,
+    x: robot.pose.x + (i % UNLOAD_ROW) * UNLOAD_SPACING,
+    y: robot.pose.y + Math.floor(i / UNLOAD_ROW) * UNLOAD_SPACING
+  };
+}
+
+function emptyRobotLoad(robot: Robot): void {
+  if (robot.gripper) {
+    robot.gripper.heldObject = null;
+    robot.gripper.isOpen = true;
+  }
+  if (robot.cargo) robot.cargo.objects = [];
+}
+
+/** Put everything the robot carries back as available, e.g. when its task fails or is cancelled */
+function releaseCarried(robot: Robot, state: SimulationState): void {
+  for (const objectId of carriedObjects(robot)) {
+    const obj = state.objects.get(objectId);
+    if (obj) {
+      obj.status = 'AVAILABLE';
+      obj.pickedBy = null;
+      settleObject(obj, robot, state);
+    }
+  }
+  emptyRobotLoad(robot);
+}
+
+// ============================================
+// ZONE LAYOUT (placement slots, capacity)
+// ============================================
+
+const SLOT_GAP = 4; // clearance kept between neighbouring slots
+const SLOT_INSET = 6; // margin along a zone's sides
+const SLOT_LABEL_BAND = 20; // kept clear at the top and bottom for the zone's name and occupancy
+const SLOT_SCAN_STEP = 5;
+
+function slotCentre(slot: ZoneSlot): Pose {
+  return { x: slot.bounds.x + slot.bounds.width / 2, y: slot.bounds.y + slot.bounds.height / 2, rotation: 0 };
+}
+
+function rectsOverlap(a: Zone['bounds'], b: Zone['bounds'], gap: number): boolean {
+  return a.x < b.x + b.width + gap && b.x < a.x + a.width + gap &&
+    a.y < b.y + b.height + gap && b.y < a.y + a.height + gap;
+}
+
+/**
+ * Free spots for `objects` in the zone, each the size of the object's
+ * footprint: `near` if that spot is free, otherwise the first one scanning
+ * row by row from the top left. null if any of them doesn't fit.
+ */
+function fitSlots(zone: Zone, objects: ConstructionObject[], near?: Vector2D): Zone['bounds'][] | null {
+  const { x, y, width, height } = zone.bounds;
+  const left = x + SLOT_INSET;
+  const right = x + width - SLOT_INSET;
+  const top = y + SLOT_LABEL_BAND;
+  const bottom = y + height - SLOT_LABEL_BAND;
+  const taken = zone.slots.map(slot => slot.bounds);
+  const isFree = (rect: Zone['bounds']) =>
+    rect.x >= left && rect.x + rect.width <= right && rect.y >= top && rect.y + rect.height <= bottom &&
+    !taken.some(other => rectsOverlap(rect, other, SLOT_GAP));
+
+  const planned: Zone['bounds'][] = [];
+  for (const obj of objects) {
+    const size = { width: obj.dimensions.width, height: obj.dimensions.height };
+    let spot = near ? { x: near.x - size.width / 2, y: near.y - size.height / 2, ...size } : null;
+    if (spot && !isFree(spot)) spot = null;
+    for (let sy = top; !spot && sy + size.height <= bottom; sy += SLOT_SCAN_STEP) {
+      for (let sx = left; sx + size.width <= right; sx += SLOT_SCAN_STEP) {
+        if (isFree({ x: sx, y: sy, ...size })) {
+          spot = { x: sx, y: sy, ...size };
+          break;
+        }
+      }
+    }
+    if (!spot) return null;
+    taken.push(spot);
+    planned.push(spot);
+  }
+  return planned;
+}
+
+/** Why the zone can't take `objects` on top of what is placed or on its way there, or null if it can */
+function slotLimitReason(zone: Zone, objects: ConstructionObject[]): string | null {
+  if (zone.slots.length + objects.length > zone.capacity) {
+    return `${zone.name} is full (${zone.slots.length}/${zone.capacity} slots taken)`;
+  }
+  if (!fitSlots(zone, objects)) {
+    return `No room left in ${zone.name} for ${objects.length === 1 ? objects[0].name : `${objects.length} objects`}`;
+  }
+  return null;
+}
+
+function assertRoom(zone: Zone, objects: ConstructionObject[]): void {
+  const reason = slotLimitReason(zone, objects);
+  if (reason) throw new Error(reason);
+}
+
+function syncOccupancy(zone: Zone): void {
+  zone.objects = zone.slots.filter(slot => slot.taskId === null).map(slot => slot.objectId);
+  zone.currentOccupancy = zone.objects.length;
+}
+
+/** Hold a slot per object for the task delivering them, so nothing else fills the zone meanwhile */
+function reserveSlots(zone: Zone, objects: ConstructionObject[], taskId: string): void {
+  assertRoom(zone, objects);
+  fitSlots(zone, objects)!.forEach((bounds, i) => zone.slots.push({ objectId: objects[i].id, taskId, bounds }));
+}
+
+/** Drop the slots a task still holds, e.g. when it fails for good or is cancelled */
+function releaseSlots(task: Task, state: SimulationState): void {
+  for (const zone of state.zones.values()) {
+    zone.slots = zone.slots.filter(slot => slot.taskId !== task.id);
+  }
+}
+
+/** Give an object resting in the zone a slot and line it up in it; false if the zone can't take it */
+function stowObject(obj: ConstructionObject, zone: Zone, near?: Vector2D): boolean {
+  if (zone.slots.length >= zone.capacity) return false;
+  const bounds = fitSlots(zone, [obj], near)?.[0];
+  if (!bounds) return false;
+  const slot: ZoneSlot = { objectId: obj.id, taskId: null, bounds };
+  zone.slots.push(slot);
+  obj.pose = slotCentre(slot);
+  syncOccupancy(zone);
+  return true;
+}
+
+/** A new object delivered to site goes into the zone's first free slot, and isn't delivered (false) if there is none */
+function receiveObject(obj: ConstructionObject, zone: Zone, state: SimulationState): boolean {
+  if (!stowObject(obj, zone)) return false;
+  state.objects.set(obj.id, obj);
+  recordMovement(state, obj, null, zone.id);
+  return true;
+}
+
+/** Free the slot of an object that is picked up (by `robot`) or leaves the site */
+function vacateSlot(obj: ConstructionObject, state: SimulationState, robot: Robot | null = null, task: Task | null = null): void {
+  for (const zone of state.zones.values()) {
+    if (!zone.objects.includes(obj.id)) continue;
+    zone.slots = zone.slots.filter(slot => slot.objectId !== obj.id || slot.taskId !== null);
+    syncOccupancy(zone);
+    recordMovement(state, obj, zone.id, null, robot, task);
+  }
+}
+
+/** An object set down off-plan (dropped, load released) takes a slot where it lies if its zone has one */
+function settleObject(obj: ConstructionObject, robot: Robot, state: SimulationState): void {
+  const zone = zoneOfObject(obj, state);
+  if (zone && stowObject(obj, zone, obj.pose)) recordMovement(state, obj, null, zone.id, robot);
+}
+
+/** Where a task's robot drives to place its load in the zone: the first slot held for it there */
+function slotTarget(task: Task, zoneId: string, state: SimulationState): Vector2D | null {
+  const slot = state.zones.get(zoneId)?.slots.find(s => s.taskId === task.id);
+  return slot ? slotCentre(slot) : null;
+}
+
+/** The slot `obj` goes into: the one reserved by the task, or a free one if it has none (e.g. after a reroute) */
+function placementSlot(zone: Zone, obj: ConstructionObject, task: Task): ZoneSlot | null {
+  const reserved = zone.slots.find(slot => slot.objectId === obj.id && slot.taskId === task.id);
+  if (reserved) return reserved;
+  if (slotLimitReason(zone, [obj])) return null;
+  reserveSlots(zone, [obj], task.id);
+  return zone.slots[zone.slots.length - 1];
+}
+
+// ============================================
+// INVENTORY (movement ledger, stock levels)
+// ============================================
+
+const MAX_MOVEMENTS = 500; // ledger entries kept in the state; older ones live on in the database
+const STREAMED_MOVEMENTS = 25; // latest entries sent to clients with every state
+
+export interface ZoneStock {
+  zoneId: string;
+  name: string;
+  type: ZoneType;
+  capacity: number;
+  occupancy: number;
+  incoming: number; // slots reserved by tasks on their way
+  byType: Partial<Record<ObjectType, number>>;
+}
+
+export interface TypeStock {
+  stocked: number; // in a zone slot
+  inTransit: number; // on a robot
+  loose: number; // set down outside any slot
+}
+
+export interface InventoryReport {
+  zones: ZoneStock[];
+  types: Partial<Record<ObjectType, TypeStock>>;
+  movements: InventoryMovement[]; // newest first
+}
+
+export interface InventoryFilter {
+  zoneId?: string;
+  objectType?: ObjectType;
+  objectId?: string;
+  limit?: number; // movements returned, default 50
+}
+
+function recordMovement(
+  state: SimulationState,
+  obj: ConstructionObject,
+  fromZoneId: string | null,
+  toZoneId: string | null,
+  robot: Robot | null = null,
+  task: Task | null = null
+): void {
+  state.movements.push({
+    id: `${state.id}-${state.movementSeq++}`,
+    objectId: obj.id,
+    objectType: obj.type,
+    fromZoneId,
+    toZoneId,
+    robotId: robot?.id ?? null,
+    taskId: task?.id ?? robot?.currentTaskId ?? null,
+    at: simNow(state),
+  });
+  if (state.movements.length > MAX_MOVEMENTS) state.movements.splice(0, state.movements.length - MAX_MOVEMENTS);
+}
+
+/**
+ * Stock per zone and object type, counted from the zones' placed slots, plus
+ * where the rest of each type is and the latest ledger entries. `filter`
+ * narrows everything to one zone, type or object.
+ */
+export function getInventory(state: SimulationState, filter: InventoryFilter = {}): InventoryReport {
+  if (filter.zoneId !== undefined && !state.zones.has(filter.zoneId)) throw new Error(`Zone ${filter.zoneId} not found`);
+  if (filter.objectType !== undefined && !(filter.objectType in OBJECT_TYPE_CONFIGS)) {
+    throw new Error(`Unknown object type: ${filter.objectType}`);
+  }
+  const limit = filter.limit ?? 50;
+  if (!Number.isInteger(limit) || limit < 0) throw new Error('Movement limit must be a whole number');
+  const counts = (obj: ConstructionObject) => filter.objectType === undefined || obj.type === filter.objectType;
+
+  const stocked = new Set<string>();
+  const zones: ZoneStock[] = [];
+  for (const zone of state.zones.values()) {
+    zone.objects.forEach(id => stocked.add(id));
+    if (filter.zoneId !== undefined && zone.id !== filter.zoneId) continue;
+    const byType: Partial<Record<ObjectType, number>> = {};
+    for (const id of zone.objects) {
+      const obj = state.objects.get(id);
+      if (obj && counts(obj)) byType[obj.type] = (byType[obj.type] ?? 0) + 1;
+    }
+    zones.push({
+      zoneId: zone.id,
+      name: zone.name,
+      type: zone.type,
+      capacity: zone.capacity,
+      occupancy: zone.currentOccupancy,
+      incoming: zone.slots.length - zone.currentOccupancy,
+      byType,
+    });
+  }
+
+  const types: Partial<Record<ObjectType, TypeStock>> = {};
+  for (const obj of state.objects.values()) {
+    if (!counts(obj)) continue;
+    const stock = types[obj.type] ??= { stocked: 0, inTransit: 0, loose: 0 };
+    if (stocked.has(obj.id)) stock.stocked++;
+    else if (obj.status === 'PICKED') stock.inTransit++;
+    else stock.loose++;
+  }
+
+  const movements = state.movements.filter(m =>
+    (filter.zoneId === undefined || m.fromZoneId === filter.zoneId || m.toZoneId === filter.zoneId) &&
+    (filter.objectType === undefined || m.objectType === filter.objectType) &&
+    (filter.objectId === undefined || m.objectId === filter.objectId)
+  );
+  return { zones, types, movements: limit > 0 ? movements.slice(-limit).reverse() : [] };
+}
+
+// ============================================
+// CHARGING (docks, queueing, charge curve)
+// ============================================
+
+const DEFAULT_CHARGING_DOCKS = 2;
+const DEFAULT_CHARGING_POWER = 7.5; // kW, the Prisma ChargingStation default
+const CHARGE_RATE_PER_KW = 0.5 / 7.5; // battery %/s per kW while below CHARGE_TAPER_START
+// Above this level the rate tapers linearly down to CHARGE_TAPER_FLOOR of full rate at 100%
+const CHARGE_TAPER_START = 80;
+const CHARGE_TAPER_FLOOR = 0.2;
+const LOW_BATTERY = 20; // a robot below this drops its task and charges, queueing if every dock is busy
+const TOP_UP_BELOW = 80; // idle robots below this take a free dock while there is no work
+const RESUME_WORK_BATTERY = 50; // a charging robot above this leaves the dock when work is waiting
+
+/** Where dock `index` sits: docks are spread evenly along the station's longer side */
+function dockPosition(zone: Zone, index: number): Vector2D {
+  const { x, y, width, height } = zone.bounds;
+  const along = (index + 0.5) / (zone.docks?.length || 1);
+  return width >= height
+    ? { x: x + width * along, y: y + height / 2 }
+    : { x: x + width / 2, y: y + height * along };
+}
+
+/** The station and dock the robot holds, if any */
+function findDock(robot: Robot, state: SimulationState): { zone: Zone; index: number } | null {
+  for (const zone of state.zones.values()) {
+    const index = zone.docks?.indexOf(robot.id) ?? -1;
+    if (index !== -1) return { zone, index };
+  }
+  return null;
+}
+
+function isQueuedToCharge(robot: Robot, state: SimulationState): boolean {
+  return Array.from(state.zones.values()).some(z => z.chargeQueue?.includes(robot.id));
+}
+
+/** Battery %/s at the robot's current level: constant up to CHARGE_TAPER_START, then tapering */
+function chargeRate(robot: Robot, zone: Zone): number {
+  const fullRate = (zone.chargingPower ?? DEFAULT_CHARGING_POWER) * CHARGE_RATE_PER_KW;
+  const level = (robot.battery / robot.maxBattery) * 100;
+  if (level <= CHARGE_TAPER_START) return fullRate;
+  const taper = (level - CHARGE_TAPER_START) / (100 - CHARGE_TAPER_START);
+  return fullRate * (1 - (1 - CHARGE_TAPER_FLOOR) * taper);
+}
+
+/** Whether a pending task is waiting that this robot could take on */
+function hasWorkFor(robot: Robot, state: SimulationState): boolean {
+  for (const task of state.tasks.values()) {
+    if (task.status === 'PENDING' && !task.assignedRobotId && isCapableOf(robot, task, state)) return true;
+  }
+  return false;
+}
+
+/** Reserve dock `index` for the robot and send it there; false (dock left free) if it can't get there */
+function sendToDock(robot: Robot, zone: Zone, index: number, state: SimulationState): boolean {
+  const target = dockPosition(zone, index);
+  zone.docks![index] = robot.id;
+  robot.targetPose = { ...target, rotation: 0 };
+  if (!planRobotPath(robot, target, state)) {
+    zone.docks![index] = null;
+    robot.status = 'IDLE';
+    return false;
+  }
+  robot.status = 'MOVING';
+  return true;
+}
+
+/**
+ * Send the robot to the nearest free dock. When every dock is busy an urgent
+ * request waits in the shortest charge queue; a top-up request just gives up.
+ */
+function requestCharge(robot: Robot, state: SimulationState, urgent: boolean): void {
+  const stations = Array.from(state.zones.values()).filter(z => z.docks && z.docks.length > 0);
+  if (stations.length === 0) return;
+
+  let free: { zone: Zone; index: number; dist: number } | null = null;
+  for (const zone of stations) {
+    for (let index = 0; index < zone.docks!.length; index++) {
+      if (zone.docks![index] !== null) continue;
+      const dist = distance(robot.pose, dockPosition(zone, index));
+      if (!free || dist < free.dist) free = { zone, index, dist };
+    }
+  }
+  if (free && sendToDock(robot, free.zone, free.index, state)) return;
+  if (!urgent) return;
+
+  const station = stations.reduce((a, b) => (b.chargeQueue!.length < a.chargeQueue!.length ? b : a));
+  station.chargeQueue!.push(robot.id);
+  clearRobotPath(robot, state);
+  robot.status = 'IDLE';
+}
+
+/** Give up the robot's dock or queue place, handing a freed dock to the next robot in the queue */
+function releaseDock(robot: Robot, state: SimulationState): void {
+  for (const zone of state.zones.values()) {
+    if (!zone.docks) continue;
+    zone.chargeQueue = zone.chargeQueue!.filter(id => id !== robot.id);
+    const index = zone.docks.indexOf(robot.id);
+    if (index === -1) continue;
+    zone.docks[index] = null;
+    while (zone.chargeQueue.length > 0) {
+      const next = state.robots.get(zone.chargeQueue.shift()!);
+      if (next && sendToDock(next, zone, index, state)) break;
+    }
+  }
+}
+
+/** Drive a fully charged robot just clear of the station (towards the site centre) so its dock can be reached */
+function leaveStation(robot: Robot, zone: Zone, index: number, state: SimulationState): void {
+  const dock = dockPosition(zone, index);
+  const { x, y, width, height } = zone.bounds;
+  const clearance = PATH_GRID * 2;
+  const exit = width >= height
+    ? { x: dock.x, y: y + height / 2 > state.dimensions.height / 2 ? y - clearance : y + height + clearance }
+    : { x: x + width / 2 > state.dimensions.width / 2 ? x - clearance : x + width + clearance, y: dock.y };
+  robot.targetPose = { ...exit, rotation: 0 };
+  robot.status = planRobotPath(robot, exit, state) ? 'MOVING' : 'IDLE';
+}
+
+/** Charge a docked robot along the charge curve, undocking it when full or when work is waiting */
+function chargeAtDock(robot: Robot, state: SimulationState, deltaTime: number): void {
+  const dock = findDock(robot, state);
+  if (!dock) {
+    robot.status = 'IDLE';
+    return;
+  }
+  robot.battery = Math.min(robot.maxBattery, robot.battery + chargeRate(robot, dock.zone) * deltaTime);
+
+  // A CHARGE task keeps the dock until its level is reached, whatever work is waiting
+  const task = robot.currentTaskId ? state.tasks.get(robot.currentTaskId) : undefined;
+  if (task?.steps[task.currentStep]?.action === 'CHARGE') {
+    executeTaskStep(robot, task, state);
+    return;
+  }
+
+  if (robot.battery >= robot.maxBattery) {
+    releaseDock(robot, state);
+    leaveStation(robot, dock.zone, dock.index, state);
+  } else if (robot.battery >= RESUME_WORK_BATTERY && hasWorkFor(robot, state)) {
+    // Stay put as IDLE; the task assignment drives it off the dock
+    releaseDock(robot, state);
+    robot.status = 'IDLE';
+  }
+}
+
+/**
+ * Send low robots to charge: below LOW_BATTERY a robot fails its task and
+ * charges (or queues), and an idle robot below TOP_UP_BELOW with nothing to
+ * do tops up if a dock is free.
+ */
+function scheduleCharging(robot: Robot, state: SimulationState): void {
+  if (findDock(robot, state) || isQueuedToCharge(robot, state)) return;
+
+  if (robot.battery < LOW_BATTERY) {
+    const task = robot.currentTaskId ? state.tasks.get(robot.currentTaskId) : undefined;
+    if (task) failTask(task, robot, state, `${robot.name} battery low (${Math.round(robot.battery)}%)`);
+    robot.currentTaskId = null;
+    requestCharge(robot, state, true);
+  } else if (robot.status === 'IDLE' && !robot.currentTaskId && !robot.serviceDue && robot.battery < TOP_UP_BELOW && !hasWorkFor(robot, state)) {
+    requestCharge(robot, state, false);
+  }
+}
+
+// ============================================
+// ROBOT CONTROLLER
+// ============================================
+
+function updateRobot(robot: Robot, state: SimulationState, deltaTime: number): void {
+  // Charging logic first
+  if (robot.status === 'CHARGING') {
+    chargeAtDock(robot, state, deltaTime);
+    return;
+  }
+  // A broken-down robot stands where it failed until the fault clears, and one in maintenance until it's done
+  if (isDown(robot)) return;
+  
+  const dynamics = loadDynamics(robot, state);
+  const blind = activeFault(robot, 'LIDAR_DROPOUT', state) !== undefined;
+
+  // Battery drain (not charging), heavier when loaded
+  if (robot.status !== 'IDLE') {
+    robot.battery = Math.max(0, robot.battery - dynamics.drainRate * deltaTime);
+    robot.operatingSeconds += deltaTime;
+  }
+  
+  // Low battery or idle - head for a charging dock
+  scheduleCharging(robot, state);
+  
+  // Movement along path
+  if (robot.path.length > 0 && robot.pathIndex < robot.path.length) {
+    const target = robot.path[robot.pathIndex];
+    const dist = distance(robot.pose, target);
+    
+    if (dist < 5) {
+      // Reached waypoint
+      robot.pathIndex++;
+      if (robot.pathIndex >= robot.path.length) {
+        arriveAtDestination(robot, state);
+      }
+    } else if (holdForTraffic(robot, target, state)) {
+      robot.currentSpeed = 0;
+    } else {
+      // Move towards waypoint, accelerating up to the load-limited speed
+      const direction = normalize({ x: target.x - robot.pose.x, y: target.y - robot.pose.y });
+      const topSpeed = blind ? dynamics.speed * LIDAR_DROPOUT_SPEED : dynamics.speed;
+      const speed = Math.min(topSpeed, robot.currentSpeed + dynamics.acceleration * deltaTime);
+      const moveDistance = speed * deltaTime;
+      const next = {
+        x: robot.pose.x + direction.x * moveDistance,
+        y: robot.pose.y + direction.y * moveDistance
+      };
+      
+      if (holdAtZoneEntry(robot, next, state)) {
+        robot.currentSpeed = 0;
+      } else {
+        robot.currentSpeed = speed;
+        robot.pose.x = next.x;
+        robot.pose.y = next.y;
+        robot.pose.rotation = angleBetween(robot.pose, target);
+        robot.distanceTraveled += moveDistance;
+        
+        if (robot.status !== 'CARRYING') {
+          robot.status = 'MOVING';
+        }
+      }
+    }
+  }
+  
+  // Generate LiDAR data (simulated)
+  robot.lidarPoints = blind ? [] : generateLidarData(robot, state.obstacles, state.objects);
+
+  continueDwell(robot, state, deltaTime);
+}
+
+/** A robot dwelling at a patrol checkpoint or loading at a staging point moves on once its time is up */
+function continueDwell(robot: Robot, state: SimulationState, deltaTime: number): void {
+  const task = robot.currentTaskId ? state.tasks.get(robot.currentTaskId) : undefined;
+  const step = task?.steps[task.currentStep];
+  if (task && (step?.action === 'SCAN' || step?.action === 'LOAD') && step.startTime !== null && robot.path.length === 0) {
+    step.elapsed = (step.elapsed ?? 0) + deltaTime;
+    executeTaskStep(robot, task, state);
+  }
+}
+
+function arriveAtDestination(robot: Robot, state: SimulationState): void {
+  clearRobotPath(robot, state);
+
+  // Check if we should pick or place
+  const task = robot.currentTaskId ? state.tasks.get(robot.currentTaskId) : null;
+  if (task) {
+    executeTaskStep(robot, task, state);
+  } else if (findDock(robot, state)) {
+    robot.status = 'CHARGING';
+  } else {
+    robot.status = 'IDLE';
+  }
+}
+
+const LIDAR_RAYS = 36;
+const LIDAR_MAX_RANGE = 200;
+
+function generateLidarData(
+  robot: Robot, 
+  obstacles: Map<string, Obstacle>,
+  objects: Map<string, ConstructionObject>
+): Vector2D[] {
+  const points: Vector2D[] = [];
+  const numRays = LIDAR_RAYS;
+  const maxRange = LIDAR_MAX_RANGE;
+  
+  for (let i = 0; i < numRays; i++) {
+    const angle = (i * 360 / numRays) + robot.pose.rotation;
+    const rad = angle * Math.PI / 180;
+    
+    let hitDistance = maxRange;
+    
+    // Check obstacles
+    for (const obstacle of obstacles.values()) {
+      const obstacleCenter = { x: obstacle.pose.x, y: obstacle.pose.y };
+      const dist = distance(robot.pose, obstacleCenter);
+      if (dist < hitDistance && dist < obstacle.dimensions.width + maxRange) {
+        hitDistance = Math.min(hitDistance, dist - obstacle.dimensions.width / 2);
+      }
+    }
+    
+    // Check objects
+    for (const obj of objects.values()) {
+      if (obj.status === 'PICKED') continue;
+      const dist = distance(robot.pose, obj.pose);
+      if (dist < hitDistance) {
+        hitDistance = Math.min(hitDistance, dist - obj.dimensions.width / 2);
+      }
+    }
+    
+    hitDistance = Math.max(10, hitDistance);
+    
+    points.push({
+      x: robot.pose.x + Math.cos(rad) * hitDistance,
+      y: robot.pose.y + Math.sin(rad) * hitDistance
+    });
+  }
+  
+  return points;
+}
+
+// ============================================
+// TASK EXECUTION
+// ============================================
+
+function executeTaskStep(robot: Robot, task: Task, state: SimulationState): void {
+  if (task.currentStep >= task.steps.length) {
+    completeTask(task, robot, state);
+    return;
+  }
+  
+  const step = task.steps[task.currentStep];
+  
+  switch (step.action) {
+    case 'MOVE_TO': {
+      const target = typeof step.target === 'string' 
+        ? slotTarget(task, step.target, state) ?? getObjectPosition(step.target, state)
+        : step.target;
+      
+      if (target) {
+        if (!planRobotPath(robot, target, state)) {
+          failTask(task, robot, state, `No path to (${Math.round(target.x)}, ${Math.round(target.y)})`);
+          return;
+        }
+        robot.status = carriedObjects(robot).length > 0 ? 'CARRYING' : 'MOVING';
+      }
+      step.completed = true;
+      step.endTime = simNow(state);
+      task.currentStep++;
+      break;
+    }
+    
+    case 'PICK_OBJECT': {
+      const objectId = typeof step.target === 'string' ? step.target : null;
+      if (objectId && (robot.gripper || robot.cargo)) {
+        const obj = state.objects.get(objectId);
+        if (!obj) {
+          // Object no longer exists
+          failTask(task, robot, state, `Object ${objectId} not found`);
+          return;
+        }
+        if (obj.status !== 'AVAILABLE') {
+          // Object already picked by another robot
+          failTask(task, robot, state, `Object ${objectId} unavailable (status: ${obj.status})`);
+          return;
+        }
+        const onBoard = carriedObjects(robot).map(id => state.objects.get(id)).filter((o): o is ConstructionObject => o !== undefined);
+        const limit = carryLimitReason(robot, [...onBoard, obj]);
+        if (limit) {
+          failTask(task, robot, state, `Cannot load ${obj.name}: ${limit}`);
+          return;
+        }
+
+        // Simulate pick operation
+        robot.status = 'PICKING';
+
+        // Check if robot is close enough
+        const dist = distance(robot.pose, obj.pose);
+        if (dist < 50) {
+          if (pickFails(robot, state)) {
+            failTask(task, robot, state, `${robot.name} failed to pick ${obj.name}`);
+            return;
+          }
+          // Success! Load it onto the carrier, or pick it up with the gripper
+          if (robot.cargo) {
+            robot.cargo.objects.push(objectId);
+          } else {
+            robot.gripper!.isOpen = false;
+            robot.gripper!.heldObject = objectId;
+          }
+          obj.status = 'PICKED';
+          obj.pickedBy = robot.id;
+          vacateSlot(obj, state, robot, task);
+
+          step.completed = true;
+          step.endTime = simNow(state);
+          task.currentStep++;
+
+          // Move to next step
+          if (task.currentStep < task.steps.length) {
+            executeTaskStep(robot, task, state);
+          }
+        }
+        // If dist >= 50, robot is still moving toward object (wait for next tick)
+      } else if (!robot.gripper && !robot.cargo) {
+        failTask(task, robot, state, `Robot ${robot.id} has no gripper for pick operation`);
+        return;
+      }
+      break;
+    }
+    
+    case 'PLACE_OBJECT': {
+      const carried = carriedObjects(robot).map(id => state.objects.get(id)).filter((o): o is ConstructionObject => o !== undefined);
+      const zone = state.zones.get(step.target as string);
+      if (!zone) {
+        failTask(task, robot, state, `Zone ${step.target} not found`);
+        return;
+      }
+      if (carried.length > 0) {
+        // Everything on board goes into its slot, or nothing does
+        const slots = carried.map(obj => placementSlot(zone, obj, task));
+        const homeless = slots.indexOf(null);
+        if (homeless !== -1) {
+          failTask(task, robot, state, slotLimitReason(zone, [carried[homeless]])!);
+          return;
+        }
+        robot.status = 'PLACING';
+
+        carried.forEach((obj, i) => {
+          slots[i]!.taskId = null;
+          obj.pose = slotCentre(slots[i]!);
+          obj.status = 'PLACED';
+          obj.pickedBy = null;
+          recordMovement(state, obj, null, zone.id, robot, task);
+        });
+        releaseSlots(task, state); // anything reserved for objects that never made it on board
+        syncOccupancy(zone);
+        emptyRobotLoad(robot);
+
+        step.completed = true;
+        step.endTime = simNow(state);
+        task.currentStep++;
+
+        robot.tasksCompleted++;
+        robot.pickSuccessRate = (robot.pickSuccessRate * (robot.tasksCompleted - 1) + 1) / robot.tasksCompleted;
+
+        // Complete the task, or carry on with e.g. an inspection
+        executeTaskStep(robot, task, state);
+      }
+      break;
+    }
+    
+    case 'WAIT': {
+      // Just wait for a moment
+      step.completed = true;
+      step.endTime = simNow(state);
+      task.currentStep++;
+      break;
+    }
+    
+    case 'SCAN': {
+      // Scan once on arrival, then dwell before heading to the next checkpoint; the robot is at work all the while
+      if (step.startTime === null) {
+        step.startTime = simNow(state);
+        step.elapsed = 0;
+        robot.status = 'SCANNING';
+        logPatrolScan(robot, task, step, state);
+      }
+      if ((step.elapsed ?? 0) < (step.duration ?? 0)) break;
+
+      step.completed = true;
+      step.endTime = simNow(state);
+      task.currentStep++;
+      executeTaskStep(robot, task, state);
+      break;
+    }
+    
+    case 'LOAD': {
+      // The crew at the staging point loads each object onto the carrier, which takes `duration`
+      const obj = state.objects.get(step.target as string);
+      if (step.startTime === null) {
+        if (!robot.cargo) {
+          failTask(task, robot, state, `${robot.name} has no cargo bay to load`);
+          return;
+        }
+        if (!obj || obj.status !== 'AVAILABLE') {
+          failTask(task, robot, state, `Object ${step.target} unavailable for loading`);
+          return;
+        }
+        const onBoard = carriedObjects(robot).map(id => state.objects.get(id)).filter((o): o is ConstructionObject => o !== undefined);
+        const limit = carryLimitReason(robot, [...onBoard, obj]);
+        if (limit) {
+          failTask(task, robot, state, `Cannot load ${obj.name}: ${limit}`);
+          return;
+        }
+        step.startTime = simNow(state);
+        step.elapsed = 0;
+        robot.status = 'PICKING';
+      }
+      if ((step.elapsed ?? 0) < (step.duration ?? 0)) break;
+
+      if (!obj || obj.status !== 'AVAILABLE') {
+        failTask(task, robot, state, `Object ${step.target} was taken during loading`);
+        return;
+      }
+      robot.cargo!.objects.push(obj.id);
+      obj.status = 'PICKED';
+      obj.pickedBy = robot.id;
+      vacateSlot(obj, state, robot, task);
+      step.completed = true;
+      step.endTime = simNow(state);
+      task.currentStep++;
+      executeTaskStep(robot, task, state);
+      break;
+    }
+
+    case 'CHARGE': {
+      const level = (robot.battery / robot.maxBattery) * 100;
+      if (level >= (step.level ?? 100)) {
+        const dock = findDock(robot, state);
+        releaseDock(robot, state);
+        if (dock) leaveStation(robot, dock.zone, dock.index, state);
+        else robot.status = 'IDLE';
+        step.completed = true;
+        step.endTime = simNow(state);
+        task.currentStep++;
+        executeTaskStep(robot, task, state);
+        break;
+      }
+      if (step.startTime === null) {
+        if (!Array.from(state.zones.values()).some(z => z.docks?.length)) {
+          failTask(task, robot, state, 'No charging station on site');
+          return;
+        }
+        step.startTime = simNow(state);
+        requestCharge(robot, state, true);
+      }
+      // Docked once the robot stands at the dock it holds; until then it drives there or queues
+      const dock = findDock(robot, state);
+      if (dock && robot.path.length === 0 && distance(robot.pose, dockPosition(dock.zone, dock.index)) < 5) {
+        robot.status = 'CHARGING';
+      }
+      break;
+    }
+
+    case 'INSPECT': {
+      robot.status = 'IDLE';
+      task.inspection = inspect(step.target as string, task, state);
+      step.completed = true;
+      step.endTime = simNow(state);
+      task.currentStep++;
+      executeTaskStep(robot, task, state);
+      break;
+    }
+  }
+}
+
+function getObjectPosition(objectId: string, state: SimulationState): Vector2D | null {
+  const obj = state.objects.get(objectId);
+  if (obj) return { x: obj.pose.x, y: obj.pose.y };
+  
+  const zone = state.zones.get(objectId);
+  if (zone) return { 
+    x: zone.bounds.x + zone.bounds.width / 2, 
+    y: zone.bounds.y + zone.bounds.height / 2 
+  };
+  
+  return null;
+}
+
+function completeTask(task: Task, robot: Robot, state: SimulationState): void {
+  task.status = 'COMPLETED';
+  task.completedAt = simNow(state);
+  robot.currentTaskId = null;
+  robot.status = 'IDLE';
+  unblockDependents(task, state);
+
+  state.metrics.totalTasksCompleted++;
+
+  // Calculate average task time
+  const taskTime = (task.completedAt - (task.startedAt || task.createdAt)) / 1000;
+  state.metrics.averageTaskTime = (state.metrics.averageTaskTime * (state.metrics.totalTasksCompleted - 1) + taskTime) / state.metrics.totalTasksCompleted;
+  recordDeadline(task, state);
+  settleDisposition(task, state);
+
+  // Update fleet efficiency
+  const activeRobots = Array.from(state.robots.values()).filter(r => !isDown(r));
+  const workingRobots = activeRobots.filter(r => r.currentTaskId !== null);
+  state.metrics.fleetEfficiency = workingRobots.length / Math.max(1, activeRobots.length);
+}
+
+/** Put a task back in the dispatch queue to start over from its first step */
+function requeueTask(task: Task): void {
+  task.status = 'PENDING';
+  task.assignedRobotId = null;
+  task.currentStep = 0;
+  task.startedAt = null;
+  task.steps.forEach(s => { s.completed = false; s.startTime = null; s.endTime = null; });
+}
+
+function failTask(task: Task, robot: Robot, state: SimulationState, reason: string): void {
+  task.retryCount = (task.retryCount || 0) + 1;
+
+  if (task.retryCount < (task.maxRetries || 3)) {
+    // Retry: reset task steps and re-assign
+    console.log(`⚠️ Task ${task.id} failed (attempt ${task.retryCount}/${task.maxRetries || 3}): ${reason}. Retrying...`);
+    requeueTask(task);
+    task.failureReason = reason;
+    state.metrics.taskRetries++;
+
+    // Release robot, dropping what it carries back
+    robot.currentTaskId = null;
+    robot.status = 'IDLE';
+    releaseCarried(robot, state);
+  } else {
+    // Final failure
+    console.log(`❌ Task ${task.id} FAILED permanently after ${task.retryCount} attempts: ${reason}`);
+    task.status = 'FAILED';
+    task.completedAt = simNow(state);
+    task.failureReason = reason;
+    state.metrics.totalTasksFailed++;
+    releaseSlots(task, state);
+    failDependents(task, state);
+
+    // Release robot
+    robot.currentTaskId = null;
+    robot.status = 'IDLE';
+    releaseCarried(robot, state);
+
+    // Update pick success rate
+    const totalAttempts = state.metrics.totalTasksCompleted + state.metrics.totalTasksFailed;
+    state.metrics.pickSuccessRate = totalAttempts > 0
+      ? state.metrics.totalTasksCompleted / totalAttempts
+      : 1;
+  }
+}
+
+// ============================================
+// PATROLS (waypoint routes, checkpoint scans)
+// ============================================
+
+const MAX_PATROL_CHECKPOINTS = 50;
+const MAX_PATROL_PASSES = 100;
+const DEFAULT_DWELL_SECONDS = 5;
+const PATROL_LOG_LIMIT = 50;
+
+/** When a task may start and when it is due, on the sim clock; a request creating several tasks gives each the same window */
+export interface TaskWindowInput {
+  earliestStart?: number | null;
+  dueBy?: number | null;
+}
+
+export interface PatrolInput extends TaskWindowInput {
+  checkpoints: (Vector2D & { name?: string; dwellSeconds?: number })[];
+  loop?: boolean;
+  repeat?: number;
+  dwellSeconds?: number; // default for checkpoints without their own
+  priority?: TaskPriority;
+}
+
+/** Checkpoint indexes in visiting order, one list per pass */
+function patrolPasses(count: number, loop: boolean, repeat: number): number[][] {
+  const forward = Array.from({ length: count }, (_, i) => i);
+  const passes: number[][] = [];
+  for (let pass = 0; pass < repeat; pass++) {
+    if (loop || pass === 0) {
+      passes.push(forward);
+    } else {
+      // Sweep back from where the last pass ended; the turnaround checkpoint was just scanned
+      const sweep = pass % 2 === 1 ? [...forward].reverse() : forward;
+      passes.push(sweep.slice(1));
+    }
+  }
+  return passes;
+}
+
+/** Validate a patrol route and resolve each checkpoint's dwell time */
+function patrolCheckpoints(state: SimulationState, input: PatrolInput): PatrolCheckpoint[] {
+  const { checkpoints: points, repeat = 1, dwellSeconds = DEFAULT_DWELL_SECONDS } = input;
+  if (!Array.isArray(points) || points.length === 0) throw new Error('A patrol needs at least one checkpoint');
+  if (points.length > MAX_PATROL_CHECKPOINTS) throw new Error(`A patrol can have at most ${MAX_PATROL_CHECKPOINTS} checkpoints`);
+  if (!Number.isInteger(repeat) || repeat < 1 || repeat > MAX_PATROL_PASSES) {
+    throw new Error(`Patrol repeat must be a whole number from 1 to ${MAX_PATROL_PASSES}`);
+  }
+
+  return points.map((point, i) => {
+    const dwell = point.dwellSeconds ?? dwellSeconds;
+    if (!Number.isFinite(point.x) || !Number.isFinite(point.y) ||
+        point.x < 0 || point.y < 0 || point.x > state.dimensions.width || point.y > state.dimensions.height) {
+      throw new Error(`Checkpoint ${i + 1} is outside the site`);
+    }
+    if (!Number.isFinite(dwell) || dwell < 0) throw new Error(`Checkpoint ${i + 1} has an invalid dwell time`);
+    return { position: { x: point.x, y: point.y }, name: point.name, dwellSeconds: dwell };
+  });
+}
+
+/**
+ * Patrol a route of checkpoints `repeat` times, taking a LiDAR scan and
+ * dwelling at each one. A looping route returns to its first checkpoint to
+ * close the circuit at the end.
+ */
+export function createPatrolTask(state: SimulationState, input: PatrolInput): Task {
+  const { loop = false, repeat = 1 } = input;
+  const checkpoints = patrolCheckpoints(state, input);
+  if (input.priority !== undefined && !(input.priority in PRIORITY_RANK)) {
+    throw new Error(`Unknown task priority: ${input.priority}`);
+  }
+  const times = taskWindow(input);
+
+  const steps: TaskStep[] = [];
+  let route = 0;
+  let previous: Vector2D | null = null;
+  const visit = (target: Vector2D) => {
+    steps.push({ action: 'MOVE_TO', target, completed: false, startTime: null, endTime: null });
+    if (previous) route += distance(previous, target);
+    previous = target;
+  };
+  patrolPasses(checkpoints.length, loop, repeat).forEach((order, pass) => {
+    for (const index of order) {
+      const checkpoint = checkpoints[index];
+      visit(checkpoint.position);
+      steps.push({
+        action: 'SCAN', target: checkpoint.position, completed: false, startTime: null, endTime: null,
+        duration: checkpoint.dwellSeconds, checkpoint: { index, pass: pass + 1 },
+      });
+    }
+  });
+  if (loop && checkpoints.length > 1) visit(checkpoints[0].position);
+
+  // Travel at the fleet's average cruising speed plus every dwell
+  const robots = Array.from(state.robots.values());
+  const cruise = robots.reduce((sum, r) => sum + r.speed, 0) / Math.max(robots.length, 1) || 1;
+  const dwell = steps.reduce((sum, step) => sum + (step.duration ?? 0), 0);
+
+  const task: Task = {
+    id: generateId(state),
+    type: 'PATROL',
+    priority: input.priority ?? 'NORMAL',
+    status: 'PENDING',
+    assignedRobotId: null,
+    reservedFor: null,
+    objectId: null,
+    sourceZone: null,
+    targetZone: null,
+    steps,
+    currentStep: 0,
+    createdAt: simNow(state),
+    startedAt: null,
+    completedAt: null,
+    estimatedDuration: Math.round(route / cruise + dwell),
+    aiScore: 0,
+    aiReasoning: `${loop ? 'Looping' : 'Ordered'} patrol of ${checkpoints.length} checkpoint(s) × ${repeat}`,
+    retryCount: 0,
+    maxRetries: 3,
+    failureReason: null,
+    dependsOn: [],
+    ...times,
+    patrol: { checkpoints, loop, repeat, log: [] },
+    inspection: null,
+    disposition: null,
+  };
+
+  state.tasks.set(task.id, task);
+  state.metrics.totalTasksCreated++;
+  return task;
+}
+
+/** Record what the robot's LiDAR sees at a checkpoint in the patrol's log */
+function logPatrolScan(robot: Robot, task: Task, step: TaskStep, state: SimulationState): void {
+  if (!task.patrol || !step.checkpoint) return;
+
+  const scan: LidarSnapshot = {
+    robotId: robot.id,
+    timestamp: simNow(state),
+    pose: { ...robot.pose },
+    points: activeFault(robot, 'LIDAR_DROPOUT', state) ? [] : generateLidarData(robot, state.obstacles, state.objects),
+    maxRange: LIDAR_MAX_RANGE,
+    numRays: LIDAR_RAYS,
+  };
+  task.patrol.log.push({ checkpoint: step.checkpoint.index, pass: step.checkpoint.pass, scan });
+  if (task.patrol.log.length > PATROL_LOG_LIMIT) task.patrol.log.shift();
+
+  const checkpoint = task.patrol.checkpoints[step.checkpoint.index];
+  console.log(`📡 ${robot.name} scanned ${checkpoint.name ?? `checkpoint ${step.checkpoint.index + 1}`} (pass ${step.checkpoint.pass}/${task.patrol.repeat})`);
+}
+
+// ============================================
+// TRANSPORT & CHARGE TASKS
+// ============================================
+
+const LOAD_SECONDS = 4; // per object, loaded by the crew at the staging point
+const STAGING_INSET = 20;
+
+export interface TransportInput extends TaskWindowInput {
+  sourceZoneId: string;
+  targetZoneId: string;
+  objectIds?: string[]; // default: available objects in the source zone
+  objectType?: ObjectType;
+  quantity?: number;
+  priority?: TaskPriority;
+}
+
+export interface ChargeInput extends TaskWindowInput {
+  robotId?: string; // default: the robot with the lowest battery
+  targetLevel?: number; // battery %, default 100
+  priority?: TaskPriority;
+}
+
+/** A zone's staging point: just inside its edge, on the side facing the other zone */
+function stagingPoint(zone: Zone, facing: Zone): Vector2D {
+  const { x, y, width, height } = zone.bounds;
+  const to = { x: facing.bounds.x + facing.bounds.width / 2, y: facing.bounds.y + facing.bounds.height / 2 };
+  return {
+    x: clamp(to.x, x + Math.min(STAGING_INSET, width / 2), x + width - Math.min(STAGING_INSET, width / 2)),
+    y: clamp(to.y, y + Math.min(STAGING_INSET, height / 2), y + height - Math.min(STAGING_INSET, height / 2)),
+  };
+}
+
+/** Pack objects greedily into loads that some carrier can take in one trip */
+function packCarrierLoads(objects: ConstructionObject[], carriers: Robot[]): ConstructionObject[][] {
+  const fits = (load: ConstructionObject[]) => carriers.some(r => carryLimitReason(r, load) === null);
+  const loads: ConstructionObject[][] = [];
+  let current: ConstructionObject[] = [];
+  for (const obj of objects) {
+    if (!fits([obj])) throw new Error(`No carrier can take ${obj.name} (${obj.weight} kg)`);
+    if (fits([...current, obj])) {
+      current.push(obj);
+    } else {
+      loads.push(current);
+      current = [obj];
+    }
+  }
+  if (current.length > 0) loads.push(current);
+  return loads;
+}
+
+/**
+ * Move materials in bulk from one zone to another with the cargo robots
+ * (AMR_TRANSPORT, FORKLIFT). Each task is one trip: the carrier is loaded at
+ * the source zone's staging point and unloads at the target's.
+ */
+export function createTransportTasks(state: SimulationState, input: TransportInput): Task[] {
+  const source = state.zones.get(input.sourceZoneId);
+  const target = state.zones.get(input.targetZoneId);
+  if (!source || !target) throw new Error('Invalid source or target zone');
+  if (source.id === target.id) throw new Error('Source and target zone must differ');
+  if (input.priority !== undefined && !(input.priority in PRIORITY_RANK)) {
+    throw new Error(`Unknown task priority: ${input.priority}`);
+  }
+  if (input.quantity !== undefined && (!Number.isInteger(input.quantity) || input.quantity < 1)) {
+    throw new Error('Transport quantity must be a positive whole number');
+  }
+  const times = taskWindow(input);
+  const carriers = Array.from(state.robots.values()).filter(r => r.cargo !== null);
+  if (carriers.length === 0) throw new Error('No transport robot on site');
+
+  const claimed = new Set<string>();
+  for (const task of state.tasks.values()) {
+    if (OPEN_STATUSES.has(task.status)) taskObjects(task, state).forEach(obj => claimed.add(obj.id));
+  }
+  let objects: ConstructionObject[];
+  if (input.objectIds) {
+    objects = input.objectIds.map(id => {
+      const obj = state.objects.get(id);
+      if (!obj || obj.status !== 'AVAILABLE' || claimed.has(id)) throw new Error(`Object ${id} is not available`);
+      if (zoneOfObject(obj, state)?.id !== source.id) throw new Error(`${obj.name} is not in ${source.name}`);
+      return obj;
+    });
+  } else {
+    objects = Array.from(state.objects.values()).filter(obj =>
+      obj.status === 'AVAILABLE' && !claimed.has(obj.id) &&
+      (!input.objectType || obj.type === input.objectType) &&
+      zoneOfObject(obj, state)?.id === source.id
+    );
+  }
+  objects = objects.slice(0, input.quantity ?? objects.length);
+  if (objects.length === 0) throw new Error(`Nothing to transport from ${source.name}`);
+  assertRoom(target, objects);
+
+  const pickup = stagingPoint(source, target);
+  const dropoff = stagingPoint(target, source);
+  const step = (action: TaskStep['action'], stepTarget: Vector2D | string, duration?: number): TaskStep => ({
+    action, target: stepTarget, completed: false, startTime: null, endTime: null, ...(duration !== undefined && { duration }),
+  });
+
+  return packCarrierLoads(objects, carriers).map(load => {
+    const task: Task = {
+      id: generateId(state),
+      type: 'TRANSPORT',
+      priority: input.priority ?? 'NORMAL',
+      status: 'PENDING',
+      assignedRobotId: null,
+      reservedFor: null,
+      objectId: load[0].id,
+      sourceZone: source.id,
+      targetZone: target.id,
+      steps: [
+        step('MOVE_TO', pickup),
+        ...load.map(obj => step('LOAD', obj.id, LOAD_SECONDS)),
+        step('MOVE_TO', dropoff),
+        step('PLACE_OBJECT', target.id),
+      ],
+      currentStep: 0,
+      createdAt: simNow(state),
+      startedAt: null,
+      completedAt: null,
+      estimatedDuration: Math.round(distance(pickup, dropoff) / 3 + LOAD_SECONDS * load.length + 20),
+      aiScore: 0,
+      aiReasoning: `Transport ${load.length} object(s), ${load.reduce((sum, o) => sum + o.weight, 0)} kg: ${source.name} → ${target.name}`,
+      retryCount: 0,
+      maxRetries: 3,
+      failureReason: null,
+      dependsOn: [],
+      ...times,
+      patrol: null,
+      inspection: null,
+      disposition: null,
+    };
+    state.tasks.set(task.id, task);
+    state.metrics.totalTasksCreated++;
+    reserveSlots(target, load, task.id);
+    return task;
+  });
+}
+
+/** A task input's time window, checked */
+function taskWindow(data: TaskWindowInput): Pick<Task, 'earliestStart' | 'dueBy'> {
+  const earliestStart = data.earliestStart ?? null;
+  const dueBy = data.dueBy ?? null;
+  if ((earliestStart !== null && !Number.isFinite(earliestStart)) || (dueBy !== null && !Number.isFinite(dueBy))) {
+    throw new Error('Task times must be numbers on the simulation clock');
+  }
+  if (earliestStart !== null && dueBy !== null && dueBy <= earliestStart) {
+    throw new Error('Task is due before it may start');
+  }
+  return { earliestStart, dueBy };
+}
+
+/**
+ * Send a robot to charge up to `targetLevel` %. Without a robot the one with
+ * the lowest battery that isn't already charging is picked. The task waits
+ * for that robot to finish its current work, and it keeps the dock (or its
+ * queue place) until the level is reached.
+ */
+export function createChargeTask(state: SimulationState, data: ChargeInput): Task {
+  const targetLevel = data.targetLevel ?? 100;
+  if (!Number.isFinite(targetLevel) || targetLevel <= 0 || targetLevel > 100) {
+    throw new Error('Charge level must be above 0 and at most 100%');
+  }
+  if (data.priority !== undefined && !(data.priority in PRIORITY_RANK)) {
+    throw new Error(`Unknown task priority: ${data.priority}`);
+  }
+  const times = taskWindow(data);
+  if (!Array.from(state.zones.values()).some(z => z.docks?.length)) throw new Error('No charging station on site');
+
+  const charging = new Set<string>();
+  for (const task of state.tasks.values()) {
+    if (task.type === 'CHARGE' && OPEN_STATUSES.has(task.status)) charging.add(task.reservedFor!);
+  }
+  let robot: Robot | undefined;
+  if (data.robotId) {
+    robot = state.robots.get(data.robotId);
+    if (!robot) throw new Error(`Robot not found: ${data.robotId}`);
+    if (charging.has(robot.id)) throw new Error(`${robot.name} already has a charge task`);
+    if (isDown(robot)) throw new Error(`${robot.name} is out of service`);
+  } else {
+    robot = Array.from(state.robots.values())
+      .filter(r => r.status !== 'CHARGING' && !isDown(r) && !charging.has(r.id))
+      .sort((a, b) => a.battery / a.maxBattery - b.battery / b.maxBattery)[0];
+    if (!robot) throw new Error('No robot needs charging');
+  }
+
+  const pose = robot.pose;
+  const away = (z: Zone) => distance(pose, getObjectPosition(z.id, state)!);
+  const zone = Array.from(state.zones.values())
+    .filter(z => z.docks?.length)
+    .reduce((a, b) => (away(b) < away(a) ? b : a));
+  const task: Task = {
+    id: generateId(state),
+    type: 'CHARGE',
+    priority: data.priority ?? 'HIGH',
+    status: 'PENDING',
+    assignedRobotId: null,
+    reservedFor: robot.id,
+    objectId: null,
+    sourceZone: null,
+    targetZone: zone.id,
+    steps: [
+      { action: 'CHARGE', target: zone.id, completed: false, startTime: null, endTime: null, level: targetLevel },
+    ],
+    currentStep: 0,
+    createdAt: simNow(state),
+    startedAt: null,
+    completedAt: null,
+    estimatedDuration: Math.round(Math.max(0, targetLevel - (robot.battery / robot.maxBattery) * 100) / (DEFAULT_CHARGING_POWER * CHARGE_RATE_PER_KW) + 30),
+    aiScore: 0,
+    aiReasoning: `Charge ${robot.name} to ${targetLevel}%`,
+    retryCount: 0,
+    maxRetries: 3,
+    failureReason: null,
+    dependsOn: [],
+    ...times,
+    patrol: null,
+    inspection: null,
+    disposition: null,
+  };
+  state.tasks.set(task.id, task);
+  state.metrics.totalTasksCreated++;
+  return task;
+}
+
+// ============================================
+// QUALITY CONTROL (inspection outcomes, rework)
+// ============================================
+
+export const DEFAULT_QUALITY: QualitySettings = { detectionProbability: 0.85, defectRate: 0.1 };
+
+const DEFECT_CONDITION = 0.7; // objects below this condition carry defects
+
+// Cosmetic and surface defects can be fixed on site; the rest go back to the supplier
+const DEFECT_DISPOSITIONS: Record<DefectCategory, Disposition> = {
+  SURFACE_DAMAGE: 'REWORK',
+  CORROSION: 'REWORK',
+  CRACKED: 'RETURN',
+  MOISTURE: 'RETURN',
+  DIMENSIONAL: 'RETURN',
+  WRONG_SPEC: 'RETURN',
+};
+const DEFECT_CATEGORIES = Object.keys(DEFECT_DISPOSITIONS) as DefectCategory[];
+
+/** Condition and hidden defects for a newly arrived object */
+function rollCondition(state: SimulationState): Pick<ConstructionObject, 'condition' | 'defects' | 'qcStatus'> {
+  if (random(state) >= state.quality.defectRate) {
+    return { condition: 0.85 + random(state) * 0.15, defects: [], qcStatus: 'UNINSPECTED' };
+  }
+  const condition = 0.2 + random(state) * (DEFECT_CONDITION - 0.2);
+  const defects = new Set<DefectCategory>();
+  const count = condition < 0.4 ? 2 : 1;
+  while (defects.size < count) {
+    defects.add(DEFECT_CATEGORIES[Math.floor(random(state) * DEFECT_CATEGORIES.length)]);
+  }
+  return { condition, defects: [...defects], qcStatus: 'UNINSPECTED' };
+}
+
+export function configureQuality(state: SimulationState, settings: Partial<QualitySettings>): QualitySettings {
+  for (const [key, value] of Object.entries(settings)) {
+    if (!(key in DEFAULT_QUALITY)) throw new Error(`Unknown quality setting: ${key}`);
+    if (typeof value !== 'number' || !(value >= 0 && value <= 1)) throw new Error(`${key} must be between 0 and 1`);
+  }
+  state.quality = { ...state.quality, ...settings };
+  return state.quality;
+}
+
+/** Worse damage is easier to spot: detection rises from the configured probability towards certainty */
+function detectionChance(obj: ConstructionObject, state: SimulationState): number {
+  return Math.min(1, state.quality.detectionProbability + Math.max(0, DEFECT_CONDITION - obj.condition));
+}
+
+/**
+ * Inspect one object (sorting) or every object resting in a zone that no
+ * other open task is about to move. Each actual defect is found with
+ * `detectionChance`; an object with any finding fails and is sent for rework
+ * or back to the supplier — by its own task if it is the one being inspected.
+ */
+function inspect(target: string, task: Task, state: SimulationState): InspectionResult {
+  const claimed = new Set<string>();
+  for (const other of state.tasks.values()) {
+    if (other.id !== task.id && OPEN_STATUSES.has(other.status)) taskObjects(other, state).forEach(obj => claimed.add(obj.id));
+  }
+  const single = state.objects.get(target);
+  const objects = single ? [single] : Array.from(state.objects.values()).filter(obj =>
+    obj.status !== 'PICKED' && !claimed.has(obj.id) && zoneOfObject(obj, state)?.id === target
+  );
+
+  const findings: InspectionFinding[] = [];
+  for (const obj of objects) {
+    const chance = detectionChance(obj, state);
+    const detected = obj.defects.filter(() => random(state) < chance);
+    state.metrics.defectsDetected += detected.length;
+    state.metrics.defectsMissed += obj.defects.length - detected.length;
+
+    if (detected.length === 0) {
+      obj.qcStatus = 'PASSED';
+      continue;
+    }
+    obj.qcStatus = 'FAILED';
+    const disposition = detected.some(d => DEFECT_DISPOSITIONS[d] === 'RETURN') ? 'RETURN' : 'REWORK';
+    const followUp = obj.id === task.objectId
+      ? rerouteTask(task, disposition, detected, state)
+      : createFollowUpTask(obj, disposition, detected, state);
+    findings.push({ objectId: obj.id, defects: detected, disposition, followUpTaskId: followUp?.id ?? null });
+  }
+
+  const result: InspectionResult = {
+    result: findings.length > 0 ? 'FAIL' : 'PASS',
+    inspectedAt: simNow(state),
+    objectIds: objects.map(obj => obj.id),
+    findings,
+  };
+  if (result.result === 'PASS') state.metrics.inspectionsPassed++;
+  else state.metrics.inspectionsFailed++;
+  const name = single?.name ?? state.zones.get(target)?.name ?? target;
+  console.log(`🔍 Inspection of ${name}: ${result.result} (${objects.length} checked, ${findings.length} rejected)`);
+  return result;
+}
+
+/** Rework happens in the first work zone; returns leave through the first staging zone */
+function dispositionZone(disposition: Disposition, state: SimulationState): Zone | null {
+  const zoneType: ZoneType = disposition === 'REWORK' ? 'WORK_ZONE' : 'STAGING_ZONE';
+  const zone = Array.from(state.zones.values()).find(z => z.type === zoneType);
+  if (!zone) console.warn(`⚠️ No ${zoneType} to send ${disposition.toLowerCase()} objects to`);
+  return zone ?? null;
+}
+
+function dispositionReason(disposition: Disposition, defects: DefectCategory[]): string {
+  return `${disposition === 'REWORK' ? 'Rework' : 'Return to supplier'}: ${defects.join(', ').toLowerCase().replace(/_/g, ' ')}`;
+}
+
+/** Send the task's own object to rework or return instead of its original destination */
+function rerouteTask(task: Task, disposition: Disposition, defects: DefectCategory[], state: SimulationState): Task | null {
+  const zone = dispositionZone(disposition, state);
+  if (!zone) return null;
+  for (const step of task.steps.slice(task.currentStep + 1)) {
+    if (step.target === task.targetZone) step.target = zone.id;
+  }
+  task.targetZone = zone.id;
+  releaseSlots(task, state);
+  const obj = task.objectId ? state.objects.get(task.objectId) : undefined;
+  if (obj && !slotLimitReason(zone, [obj])) reserveSlots(zone, [obj], task.id);
+  task.disposition = disposition;
+  task.aiReasoning = dispositionReason(disposition, defects);
+  return task;
+}
+
+function createFollowUpTask(obj: ConstructionObject, disposition: Disposition, defects: DefectCategory[], state: SimulationState): Task | null {
+  const zone = dispositionZone(disposition, state);
+  if (!zone) return null;
+  try {
+    const task = createPickAndPlaceTask(obj.id, zone.id, state);
+    task.disposition = disposition;
+    task.aiReasoning = dispositionReason(disposition, defects);
+    return task;
+  } catch (error) {
+    console.warn(`⚠️ ${obj.name} failed inspection but can't be moved: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+/** Reworked objects come back repaired and need inspecting again; returned ones leave the site */
+function settleDisposition(task: Task, state: SimulationState): void {
+  const obj = task.disposition && task.objectId ? state.objects.get(task.objectId) : undefined;
+  if (!obj) return;
+
+  if (task.disposition === 'REWORK') {
+    obj.defects = obj.defects.filter(d => DEFECT_DISPOSITIONS[d] === 'RETURN');
+    obj.condition = Math.max(obj.condition, 0.9);
+    obj.qcStatus = 'UNINSPECTED';
+    return;
+  }
+
+  vacateSlot(obj, state, null, task);
+  state.objects.delete(obj.id);
+  console.log(`↩️ ${obj.name} returned to supplier`);
+}
+
+// ============================================
+// FAULT INJECTION (chaos mode)
+// ============================================
+
+const FAULT_KINDS: FaultKind[] = ['BREAKDOWN', 'DROPPED_OBJECT', 'PICK_FAILURE', 'LIDAR_DROPOUT', 'BLOCKED_AISLE', 'BATTERY_CELL_FAILURE'];
+const FAULT_LOG_LIMIT = 50; // ended faults kept for the log
+const LIDAR_DROPOUT_SPEED = 0.3; // share of top speed a robot creeps at without LiDAR
+const CELL_FAILURE_LOSS = 0.25; // share of battery capacity a dead cell takes out
+const MIN_BATTERY_CAPACITY = 40; // a pack isn't worn down below this by cell failures
+const AISLE_BARRIER_SIZE = 40;
+const AISLE_LOOKAHEAD = 3; // a barrier drops at least this many waypoints ahead of the robot whose route it blocks
+
+function defaultChaos(): ChaosSettings {
+  const setting = (probability: number, durationSeconds = 0): FaultSetting =>
+    ({ probability, durationSeconds, activeFrom: null, activeUntil: null });
+  return {
+    enabled: false,
+    faults: {
+      BREAKDOWN: setting(0.02),
+      DROPPED_OBJECT: setting(0.05),
+      PICK_FAILURE: setting(0.1),
+      LIDAR_DROPOUT: setting(0.03, 20),
+      BLOCKED_AISLE: setting(0.05, 120),
+      BATTERY_CELL_FAILURE: setting(0.005),
+    },
+  };
+}
+
+export interface ChaosInput {
+  enabled?: boolean;
+  faults?: Partial<Record<FaultKind, Partial<FaultSetting>>>;
+}
+
+/** Switch chaos mode on or off and change fault settings; omitted fields keep their value */
+export function configureChaos(state: SimulationState, input: ChaosInput): ChaosSettings {
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') throw new Error('enabled must be true or false');
+
+  const faults = { ...state.chaos.faults };
+  for (const [kind, changes] of Object.entries(input.faults ?? {})) {
+    if (!FAULT_KINDS.includes(kind as FaultKind)) throw new Error(`Unknown fault: ${kind}`);
+    const setting = { ...faults[kind as FaultKind] };
+    for (const [key, value] of Object.entries(changes ?? {})) {
+      if (!(key in setting)) throw new Error(`Unknown fault setting: ${key}`);
+      if (value !== undefined) (setting as Record<string, unknown>)[key] = value;
+    }
+    if (typeof setting.probability !== 'number' || !(setting.probability >= 0 && setting.probability <= 1)) {
+      throw new Error(`${kind} probability must be between 0 and 1`);
+    }
+    if (typeof setting.durationSeconds !== 'number' || !(setting.durationSeconds >= 0) || !Number.isFinite(setting.durationSeconds)) {
+      throw new Error(`${kind} duration must be zero or more seconds`);
+    }
+    if ([setting.activeFrom, setting.activeUntil].some(t => t !== null && (typeof t !== 'number' || !Number.isFinite(t)))) {
+      throw new Error('Fault windows must be numbers on the simulation clock');
+    }
+    if (setting.activeFrom !== null && setting.activeUntil !== null && setting.activeUntil <= setting.activeFrom) {
+      throw new Error(`${kind} window ends before it starts`);
+    }
+    faults[kind as FaultKind] = setting;
+  }
+
+  state.chaos = { enabled: input.enabled ?? state.chaos.enabled, faults };
+  return state.chaos;
+}
+
+/**
+ * Roll for a fault whose window is open: `probability` per minute spread over
+ * a step of `deltaTime` seconds, or per event when there is no step. Nothing
+ * is drawn while chaos mode is off, so seeded runs without it are unchanged.
+ */
+function strikes(kind: FaultKind, state: SimulationState, deltaTime?: number): boolean {
+  const setting = state.chaos.faults[kind];
+  if (!state.chaos.enabled || setting.probability <= 0) return false;
+  const now = simNow(state);
+  if ((setting.activeFrom !== null && now < setting.activeFrom) || (setting.activeUntil !== null && now >= setting.activeUntil)) {
+    return false;
+  }
+  const chance = deltaTime === undefined ? setting.probability : Math.min(1, setting.probability * deltaTime / 60);
+  return random(state) < chance;
+}
+
+function activeFault(robot: Robot, kind: FaultKind, state: SimulationState): Fault | undefined {
+  for (const fault of state.faults.values()) {
+    if (fault.active && fault.kind === kind && fault.robotId === robot.id) return fault;
+  }
+  return undefined;
+}
+
+/** Log a fault; one with a duration stays active until it ends */
+function recordFault(
+  state: SimulationState,
+  kind: FaultKind,
+  robot: Robot | null,
+  detail: string,
+  options: { durationSeconds?: number; armed?: boolean; obstacleId?: string } = {}
+): Fault {
+  const now = simNow(state);
+  const fault: Fault = {
+    id: generateId(state),
+    kind,
+    robotId: robot?.id ?? null,
+    obstacleId: options.obstacleId ?? null,
+    detail,
+    startedAt: now,
+    endsAt: options.durationSeconds === undefined ? null : now + options.durationSeconds * 1000,
+    active: options.durationSeconds !== undefined || options.armed === true,
+  };
+  state.faults.set(fault.id, fault);
+  state.metrics.faultsInjected++;
+  console.log(`💥 ${detail}`);
+
+  const ended = Array.from(state.faults.values()).filter(f => !f.active);
+  for (const old of ended.slice(0, Math.max(0, ended.length - FAULT_LOG_LIMIT))) state.faults.delete(old.id);
+  return fault;
+}
+
+/** The robot's current task fails (and retries if it has attempts left) */
+function failCurrentTask(robot: Robot, state: SimulationState, reason: string): void {
+  const task = robot.currentTaskId ? state.tasks.get(robot.currentTaskId) : undefined;
+  if (task) failTask(task, robot, state, reason);
+  robot.currentTaskId = null;
+}
+
+// What each robot fault can strike; a robot that is down is out of reach of all of them
+const FAULT_TARGETS: Record<Exclude<FaultKind, 'BLOCKED_AISLE'>, (robot: Robot, state: SimulationState) => boolean> = {
+  BREAKDOWN: () => true,
+  DROPPED_OBJECT: robot => carriedObjects(robot).length > 0 && robot.path.length > 0,
+  PICK_FAILURE: (robot, state) => (robot.gripper !== null || robot.cargo !== null) && !activeFault(robot, 'PICK_FAILURE', state),
+  LIDAR_DROPOUT: (robot, state) => !activeFault(robot, 'LIDAR_DROPOUT', state),
+  BATTERY_CELL_FAILURE: robot => robot.maxBattery * (1 - CELL_FAILURE_LOSS) >= MIN_BATTERY_CAPACITY,
+};
+
+const FAULT_EFFECTS: Record<Exclude<FaultKind, 'BLOCKED_AISLE'>, (robot: Robot, state: SimulationState, code?: FaultCode) => Fault> = {
+  // Raises a fault code (a random one unless given); the robot is down until the code's recovery is done
+  BREAKDOWN: (robot, state, code) => {
+    const codes = Object.keys(FAULT_CODES) as FaultCode[];
+    const fault = raiseRobotFault(robot, code ?? codes[Math.floor(random(state) * codes.length)], state);
+    return recordFault(state, 'BREAKDOWN', robot, `${robot.name} broke down: ${fault.code} ${fault.description}`);
+  },
+  // The load slides off where the robot stands; the retry picks it up from there
+  DROPPED_OBJECT: (robot, state) => {
+    const count = carriedObjects(robot).length;
+    putDownCarried(robot, state);
+    clearRobotPath(robot, state);
+    failCurrentTask(robot, state, `${robot.name} dropped its load`);
+    return recordFault(state, 'DROPPED_OBJECT', robot, `${robot.name} dropped ${count} object(s)`);
+  },
+  // Armed by hand: the robot's next pick fails
+  PICK_FAILURE: (robot, state) =>
+    recordFault(state, 'PICK_FAILURE', robot, `${robot.name} will fail its next pick`, { armed: true }),
+  LIDAR_DROPOUT: (robot, state) =>
+    recordFault(state, 'LIDAR_DROPOUT', robot, `${robot.name} lost its LiDAR`, {
+      durationSeconds: state.chaos.faults.LIDAR_DROPOUT.durationSeconds,
+    }),
+  BATTERY_CELL_FAILURE: (robot, state) => {
+    robot.maxBattery = Math.round(robot.maxBattery * (1 - CELL_FAILURE_LOSS));
+    robot.battery = Math.min(robot.battery, robot.maxBattery);
+    return recordFault(state, 'BATTERY_CELL_FAILURE', robot, `${robot.name} lost a battery cell (capacity ${robot.maxBattery}%)`);
+  },
+};
+
+/** Whether this pick fails: an armed pick failure always does, otherwise it's a roll of PICK_FAILURE */
+function pickFails(robot: Robot, state: SimulationState): boolean {
+  const armed = activeFault(robot, 'PICK_FAILURE', state);
+  if (armed) {
+    armed.active = false;
+    armed.endsAt = simNow(state);
+    return true;
+  }
+  if (!strikes('PICK_FAILURE', state)) return false;
+  recordFault(state, 'PICK_FAILURE', robot, `${robot.name} failed a pick`);
+  return true;
+}
+
+/**
+ * Drop a barrier across an aisle a robot is about to use: a waypoint on its
+ * route outside every zone but one-way lanes, clear of all robots. Robots
+ * routed through it replan, and tasks left without a route fail.
+ */
+function blockAisle(state: SimulationState): Fault | null {
+  const zones = Array.from(state.zones.values()).filter(z => z.type !== 'ONE_WAY_LANE');
+  const spots: Vector2D[] = [];
+  for (const robot of state.robots.values()) {
+    for (let i = robot.pathIndex + AISLE_LOOKAHEAD; i < robot.path.length - 1; i++) {
+      const spot = robot.path[i];
+      if (zones.some(z => isInsideBounds(spot, growBounds(z.bounds, AISLE_BARRIER_SIZE)))) continue;
+      if (Array.from(state.robots.values()).some(r => distance(r.pose, spot) < AISLE_BARRIER_SIZE * 1.5)) continue;
+      spots.push(spot);
+    }
+  }
+  if (spots.length === 0) return null;
+
+  const spot = spots[Math.floor(random(state) * spots.length)];
+  const { obstacle } = createObstacle(state, {
+    type: 'TEMPORARY_BARRIER',
+    pose: { x: spot.x, y: spot.y },
+    dimensions: { width: AISLE_BARRIER_SIZE, height: AISLE_BARRIER_SIZE },
+    isTemporary: true,
+  });
+  return recordFault(state, 'BLOCKED_AISLE', null, `Aisle blocked at (${Math.round(spot.x)}, ${Math.round(spot.y)})`, {
+    durationSeconds: state.chaos.faults.BLOCKED_AISLE.durationSeconds,
+    obstacleId: obstacle.id,
+  });
+}
+
+/** End a temporary fault, clearing away the barrier of a blocked aisle */
+function endFault(fault: Fault, state: SimulationState): void {
+  fault.active = false;
+  if (fault.kind === 'BLOCKED_AISLE' && fault.obstacleId && state.obstacles.has(fault.obstacleId)) {
+    removeObstacle(state, fault.obstacleId);
+  }
+  console.log(`🔧 Cleared: ${fault.detail}`);
+}
+
+/** End faults whose time is up, then roll for new ones */
+function runChaos(state: SimulationState, deltaTime: number): void {
+  const now = simNow(state);
+  for (const fault of state.faults.values()) {
+    if (fault.active && fault.endsAt !== null && now >= fault.endsAt) endFault(fault, state);
+  }
+  if (!state.chaos.enabled) return;
+
+  for (const robot of state.robots.values()) {
+    for (const kind of ['BREAKDOWN', 'DROPPED_OBJECT', 'LIDAR_DROPOUT', 'BATTERY_CELL_FAILURE'] as const) {
+      if (isDown(robot)) break;
+      if (FAULT_TARGETS[kind](robot, state) && strikes(kind, state, deltaTime)) FAULT_EFFECTS[kind](robot, state);
+    }
+  }
+  if (strikes('BLOCKED_AISLE', state, deltaTime)) blockAisle(state);
+}
+
+/** Drop every fault, taking any aisle barriers with them (the site is being rebuilt) */
+function clearFaults(state: SimulationState): void {
+  for (const fault of state.faults.values()) {
+    if (fault.active && fault.obstacleId) state.obstacles.delete(fault.obstacleId);
+  }
+  state.faults.clear();
+}
+
+/**
+ * Inject a fault right now, whether or not chaos mode is on. Without a
+ * robot id a random robot the fault can strike is picked; a BREAKDOWN can
+ * be given the fault code to raise.
+ */
+export function injectFault(state: SimulationState, data: { kind: FaultKind; robotId?: string; code?: FaultCode }): Fault {
+  if (!FAULT_KINDS.includes(data.kind)) throw new Error(`Unknown fault: ${data.kind}`);
+  if (data.code !== undefined && (data.kind !== 'BREAKDOWN' || !(data.code in FAULT_CODES))) {
+    throw new Error(`Unknown breakdown fault code: ${data.code}`);
+  }
+  if (data.kind === 'BLOCKED_AISLE') {
+    const fault = blockAisle(state);
+    if (!fault) throw new Error('No robot is driving through an aisle to block');
+    return fault;
+  }
+
+  const canStrike = (r: Robot) => !isDown(r) && FAULT_TARGETS[data.kind as Exclude<FaultKind, 'BLOCKED_AISLE'>](r, state);
+  let robot: Robot | undefined;
+  if (data.robotId) {
+    robot = state.robots.get(data.robotId);
+    if (!robot) throw new Error(`Robot not found: ${data.robotId}`);
+    if (!canStrike(robot)) throw new Error(`${data.kind} can't strike ${robot.name} right now`);
+  } else {
+    const candidates = Array.from(state.robots.values()).filter(canStrike);
+    if (candidates.length === 0) throw new Error(`No robot ${data.kind} can strike right now`);
+    robot = candidates[Math.floor(random(state) * candidates.length)];
+  }
+  return FAULT_EFFECTS[data.kind](robot, state, data.code);
+}
+
+// ============================================
+// ROBOT HEALTH (fault codes, recovery, maintenance)
+// ============================================
+
+// seconds: until an AUTO_RESET fault clears, or how long a technician takes to repair once on site
+const FAULT_CODES: Record<FaultCode, { description: string; recovery: RecoveryProcedure; seconds: number }> = {
+  E101: { description: 'Drive motor overcurrent', recovery: 'AUTO_RESET', seconds: 30 },
+  E120: { description: 'Controller watchdog reset', recovery: 'AUTO_RESET', seconds: 10 },
+  E205: { description: 'Emergency stop triggered', recovery: 'OPERATOR_ACK', seconds: 0 },
+  E310: { description: 'Localization lost', recovery: 'OPERATOR_ACK', seconds: 0 },
+  E402: { description: 'Safety scanner fault', recovery: 'TECHNICIAN', seconds: 300 },
+  E518: { description: 'Drive wheel encoder failure', recovery: 'TECHNICIAN', seconds: 600 },
+};
+const TECHNICIAN_RESPONSE_SECONDS = 120; // from the fault until a technician reaches the robot
+
+export const DEFAULT_MAINTENANCE: MaintenanceSettings = { intervalHours: 8, intervalDistance: 50000, serviceMinutes: 20 };
+
+/** Health fields of a robot fresh from service */
+function newRobotHealth(): Pick<Robot, 'fault' | 'operatingSeconds' | 'lastService' | 'serviceDue' | 'serviceEndsAt' | 'uptime'> {
+  return {
+    fault: null,
+    operatingSeconds: 0,
+    lastService: { at: null, operatingSeconds: 0, distanceTraveled: 0 },
+    serviceDue: false,
+    serviceEndsAt: null,
+    uptime: { up: 0, fault: 0, maintenance: 0 },
+  };
+}
+
+export function configureMaintenance(state: SimulationState, settings: Partial<MaintenanceSettings>): MaintenanceSettings {
+  for (const [key, value] of Object.entries(settings)) {
+    if (!(key in DEFAULT_MAINTENANCE)) throw new Error(`Unknown maintenance setting: ${key}`);
+    if (typeof value !== 'number' || !(value > 0) || !Number.isFinite(value)) throw new Error(`${key} must be a positive number`);
+  }
+  state.maintenance = { ...state.maintenance, ...settings };
+  return state.maintenance;
+}
+
+/** Broken down or in maintenance: out of reach of dispatch, faults and operator moves */
+function isDown(robot: Robot): boolean {
+  return robot.status === 'ERROR' || robot.status === 'MAINTENANCE';
+}
+
+function getRobot(state: SimulationState, robotId: string): Robot {
+  const robot = state.robots.get(robotId);
+  if (!robot) throw new Error(`Robot not found: ${robotId}`);
+  return robot;
+}
+
+/**
+ * Stop the robot with a fault code: it sets its load down where it stands and
+ * gives up its task and dock. An AUTO_RESET fault clears itself, an
+ * OPERATOR_ACK fault waits for acknowledgement, and a TECHNICIAN fault waits
+ * for a technician to arrive and repair it in MAINTENANCE.
+ */
+function raiseRobotFault(robot: Robot, code: FaultCode, state: SimulationState): RobotFault {
+  const spec = FAULT_CODES[code];
+  putDownCarried(robot, state);
+  failCurrentTask(robot, state, `${robot.name} fault ${code}: ${spec.description}`);
+  releaseDock(robot, state);
+  clearRobotPath(robot, state);
+  robot.status = 'ERROR';
+
+  const now = simNow(state);
+  const waitSeconds = spec.recovery === 'AUTO_RESET' ? spec.seconds : TECHNICIAN_RESPONSE_SECONDS;
+  robot.fault = {
+    code,
+    description: spec.description,
+    recovery: spec.recovery,
+    raisedAt: now,
+    clearsAt: spec.recovery === 'OPERATOR_ACK' ? null : now + waitSeconds * 1000,
+  };
+  state.metrics.faultsRaised++;
+  console.log(`🚨 ${robot.name} fault ${code} (${spec.description}), recovery: ${spec.recovery}`);
+  return robot.fault;
+}
+
+function clearRobotFault(robot: Robot): void {
+  console.log(`🔧 ${robot.name} fault ${robot.fault?.code} cleared`);
+  robot.fault = null;
+  robot.status = 'IDLE';
+}
+
+/** Operator acknowledgement puts a robot with an OPERATOR_ACK fault back in service */
+export function acknowledgeFault(state: SimulationState, robotId: string): Robot {
+  const robot = getRobot(state, robotId);
+  if (!robot.fault) throw new Error(`${robot.name} has no fault to acknowledge`);
+  if (robot.fault.recovery === 'AUTO_RESET') throw new Error(`${robot.fault.code} resets by itself`);
+  if (robot.fault.recovery === 'TECHNICIAN') throw new Error(`${robot.fault.code} needs a technician`);
+  clearRobotFault(robot);
+  return robot;
+}
+
+/** Call a robot in for service ahead of its interval */
+export function requestService(state: SimulationState, robotId: string): Robot {
+  const robot = getRobot(state, robotId);
+  if (robot.serviceDue || robot.serviceEndsAt !== null) throw new Error(`${robot.name} is already due for service`);
+  robot.serviceDue = true;
+  console.log(`🛠️ Service requested for ${robot.name}`);
+  return robot;
+}
+
+/** Why the robot is due for service, once it has run its hours or distance since the last one */
+function serviceReason(robot: Robot, state: SimulationState): string | null {
+  const hours = (robot.operatingSeconds - robot.lastService.operatingSeconds) / 3600;
+  if (hours >= state.maintenance.intervalHours) return `${hours.toFixed(1)} h run`;
+  const travelled = robot.distanceTraveled - robot.lastService.distanceTraveled;
+  if (travelled >= state.maintenance.intervalDistance) return `${Math.round(travelled)} travelled`;
+  return null;
+}
+
+/**
+ * A due robot with nothing left to do drives to the nearest ROBOT_HOME bay and
+ * goes into MAINTENANCE as soon as it is inside, or on the spot when there is
+ * no bay to reach. One holding or waiting for a dock charges first.
+ */
+function sendForService(robot: Robot, state: SimulationState): void {
+  if (robot.currentTaskId || (robot.status !== 'IDLE' && robot.status !== 'MOVING')) return;
+  if (findDock(robot, state) || isQueuedToCharge(robot, state)) return;
+
+  const away = (z: Zone) => distance(robot.pose, getObjectPosition(z.id, state)!);
+  const bays = Array.from(state.zones.values()).filter(z => z.type === 'ROBOT_HOME');
+  const bay = bays.length > 0 ? bays.reduce((a, b) => (away(b) < away(a) ? b : a)) : null;
+  if (bay && !isInsideBounds(robot.pose, bay.bounds)) {
+    if (robot.status === 'MOVING' || robot.path.length > 0) return; // on its way (or on an operator move)
+    const centre = getObjectPosition(bay.id, state)!;
+    robot.targetPose = { ...centre, rotation: 0 };
+    if (planRobotPath(robot, centre, state)) {
+      robot.status = 'MOVING';
+      return;
+    }
+  }
+
+  clearRobotPath(robot, state);
+  robot.status = 'MAINTENANCE';
+  robot.serviceEndsAt = simNow(state) + state.maintenance.serviceMinutes * 60000;
+  console.log(`🛠️ ${robot.name} in maintenance for ${state.maintenance.serviceMinutes} min`);
+}
+
+function finishService(robot: Robot, state: SimulationState): void {
+  robot.lastService = { at: simNow(state), operatingSeconds: robot.operatingSeconds, distanceTraveled: robot.distanceTraveled };
+  robot.serviceDue = false;
+  robot.serviceEndsAt = null;
+  robot.status = 'IDLE';
+  state.metrics.servicesCompleted++;
+  console.log(`✅ ${robot.name} serviced`);
+}
+
+/**
+ * Move each robot through its recovery or service, flag robots whose interval
+ * has run out, and book the step's time as up or down for availability.
+ */
+function runMaintenance(state: SimulationState, deltaTime: number): void {
+  const now = simNow(state);
+  let up = 0;
+  let total = 0;
+  state.metrics.faultDowntime = 0;
+  state.metrics.maintenanceDowntime = 0;
+
+  for (const robot of state.robots.values()) {
+    if (robot.fault) robot.uptime.fault += deltaTime;
+    else if (robot.status === 'MAINTENANCE') robot.uptime.maintenance += deltaTime;
+    else robot.uptime.up += deltaTime;
+    up += robot.uptime.up;
+    total += robot.uptime.up + robot.uptime.fault + robot.uptime.maintenance;
+    state.metrics.faultDowntime += robot.uptime.fault;
+    state.metrics.maintenanceDowntime += robot.uptime.maintenance;
+
+    const fault = robot.fault;
+    if (fault) {
+      if (fault.clearsAt === null || now < fault.clearsAt) continue;
+      if (fault.recovery === 'TECHNICIAN' && robot.status === 'ERROR') {
+        // The technician is on site; the robot is under repair until it's done
+        robot.status = 'MAINTENANCE';
+        fault.clearsAt = now + FAULT_CODES[fault.code].seconds * 1000;
+      } else {
+        clearRobotFault(robot);
+      }
+      continue;
+    }
+
+    if (robot.status === 'MAINTENANCE') {
+      if (robot.serviceEndsAt !== null && now >= robot.serviceEndsAt) finishService(robot, state);
+      continue;
+    }
+    if (!robot.serviceDue) {
+      const reason = serviceReason(robot, state);
+      if (!reason) continue;
+      robot.serviceDue = true;
+      console.log(`🛠️ ${robot.name} due for service (${reason})`);
+    }
+    sendForService(robot, state);
+  }
+
+  state.metrics.fleetAvailability = total > 0 ? up / total : 1;
+}
+
+// ============================================
+// TASK DEPENDENCIES
+// ============================================
+
+function dependentsOf(task: Task, state: SimulationState): Task[] {
+  return Array.from(state.tasks.values()).filter(t => t.dependsOn.includes(task.id));
+}
+
+/** Release BLOCKED tasks whose last outstanding dependency was `task` */
+function unblockDependents(task: Task, state: SimulationState): void {
+  for (const dependent of dependentsOf(task, state)) {
+    if (dependent.status !== 'BLOCKED') continue;
+    if (dependent.dependsOn.every(id => state.tasks.get(id)?.status === 'COMPLETED')) {
+      dependent.status = 'PENDING';
+    }
+  }
+}
+
+/** Fail everything downstream of a task that failed for good or was cancelled */
+function failDependents(task: Task, state: SimulationState): void {
+  for (const dependent of dependentsOf(task, state)) {
+    if (dependent.status !== 'BLOCKED' && dependent.status !== 'PENDING') continue;
+    dependent.status = 'FAILED';
+    dependent.completedAt = simNow(state);
+    dependent.failureReason = `Dependency ${task.id} ${task.status === 'CANCELLED' ? 'was cancelled' : 'failed'}`;
+    state.metrics.totalTasksFailed++;
+    releaseSlots(dependent, state);
+    failDependents(dependent, state);
+  }
+}
+
+/** Whether `from` is reachable from `to` along dependsOn edges, i.e. `from` → `to` would close a cycle */
+function dependsTransitively(to: Task, from: Task, state: SimulationState): boolean {
+  const seen = new Set<string>();
+  const stack = [...to.dependsOn];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === from.id) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(state.tasks.get(id)?.dependsOn ?? []));
+  }
+  return false;
+}
+
+/** Throws unless every id is a task that can still complete */
+function assertDependable(ids: string[], state: SimulationState): void {
+  for (const id of ids) {
+    const dependency = state.tasks.get(id);
+    if (!dependency) throw new Error(`Dependency ${id} not found`);
+    if (dependency.status === 'FAILED' || dependency.status === 'CANCELLED') {
+      throw new Error(`Dependency ${id} already ${dependency.status.toLowerCase()}`);
+    }
+  }
+}
+
+/**
+ * Make `taskId` wait for `dependsOn` (replacing its previous dependencies).
+ * Only tasks that haven't started can gain dependencies; unknown, failed or
+ * cancelled predecessors and cycles are rejected.
+ */
+export function setTaskDependencies(state: SimulationState, taskId: string, dependsOn: string[]): Task {
+  const task = state.tasks.get(taskId);
+  if (!task) throw new Error(`Task ${taskId} not found`);
+  if (task.status !== 'PENDING' && task.status !== 'BLOCKED') {
+    throw new Error(`Task ${taskId} has already started (${task.status})`);
+  }
+  if (task.assignedRobotId) throw new Error(`Task ${taskId} is already assigned`);
+
+  const ids = Array.from(new Set(dependsOn));
+  assertDependable(ids, state);
+  for (const id of ids) {
+    if (id === task.id || dependsTransitively(state.tasks.get(id)!, task, state)) {
+      throw new Error(`Task ${taskId} depending on ${id} would create a cycle`);
+    }
+  }
+
+  task.dependsOn = ids;
+  task.status = ids.every(id => state.tasks.get(id)!.status === 'COMPLETED') ? 'PENDING' : 'BLOCKED';
+  return task;
+}
+
+// ============================================
+// TASK CREATION & ASSIGNMENT
+// ============================================
+
+export function createPickAndPlaceTask(
+  objectId: string, 
+  targetZoneId: string, 
+  state: SimulationState,
+  window: TaskWindowInput = {}
+): Task {
+  const obj = state.objects.get(objectId);
+  const targetZone = state.zones.get(targetZoneId);
+  
+  if (!obj || !targetZone) {
+    throw new Error('Invalid object or zone');
+  }
+  if (!isCarriable([obj], state)) {
+    throw new Error(`No robot can carry ${obj.name} (${obj.weight} kg)`);
+  }
+  const times = taskWindow(window);
+  assertRoom(targetZone, [obj]);
+  
+  const task: Task = {
+    id: generateId(state),
+    type: 'PICK_AND_PLACE',
+    priority: 'NORMAL',
+    status: 'PENDING',
+    assignedRobotId: null,
+    reservedFor: null,
+    objectId,
+    sourceZone: null,
+    targetZone: targetZoneId,
+    steps: [
+      {
+        action: 'MOVE_TO',
+        target: objectId,
+        completed: false,
+        startTime: null,
+        endTime: null
+      },
+      {
+        action: 'PICK_OBJECT',
+        target: objectId,
+        completed: false,
+        startTime: null,
+        endTime: null
+      },
+      {
+        action: 'MOVE_TO',
+        target: targetZoneId,
+        completed: false,
+        startTime: null,
+        endTime: null
+      },
+      {
+        action: 'PLACE_OBJECT',
+        target: targetZoneId,
+        completed: false,
+        startTime: null,
+        endTime: null
+      }
+    ],
+    currentStep: 0,
+    createdAt: simNow(state),
+    startedAt: null,
+    completedAt: null,
+    estimatedDuration: 60,
+    aiScore: 0,
+    aiReasoning: '',
+    retryCount: 0,
+    maxRetries: 3,
+    failureReason: null,
+    dependsOn: [],
+    ...times,
+    patrol: null,
+    inspection: null,
+    disposition: null
+  };
+  
+  state.tasks.set(task.id, task);
+  state.metrics.totalTasksCreated++;
+  reserveSlots(targetZone, [obj], task.id);
+
+  return task;
+}
+
+/** Zone whose bounds contain the object, if any */
+function zoneOfObject(obj: ConstructionObject, state: SimulationState): Zone | null {
+  for (const zone of state.zones.values()) {
+    if (isInsideBounds(obj.pose, zone.bounds)) return zone;
+  }
+  return null;
+}
+
+/**
+ * One trip that collects several objects from the same zone and unloads them
+ * together at the target zone. Only a carrier able to hold the whole load at
+ * once (see carryLimitReason) will take it.
+ */
+export function createBatchPickTask(
+  objectIds: string[],
+  targetZoneId: string,
+  state: SimulationState,
+  window: TaskWindowInput = {}
+): Task {
+  const targetZone = state.zones.get(targetZoneId);
+  if (!targetZone) throw new Error('Invalid target zone');
+
+  const objects = objectIds.map(id => state.objects.get(id));
+  if (objects.length === 0 || objects.some(o => !o || o.status !== 'AVAILABLE')) {
+    throw new Error('Batch pickup needs available objects');
+  }
+  const load = objects as ConstructionObject[];
+  const sourceZone = zoneOfObject(load[0], state);
+  if (!sourceZone || load.some(o => zoneOfObject(o, state)?.id !== sourceZone.id)) {
+    throw new Error('Batch pickup objects must all lie in one zone');
+  }
+  if (!isCarriable(load, state)) {
+    throw new Error(`No robot can carry ${load.length} objects (${load.reduce((sum, o) => sum + o.weight, 0)} kg) in one trip`);
+  }
+  const times = taskWindow(window);
+  assertRoom(targetZone, load);
+
+  const step = (action: TaskStep['action'], target: string): TaskStep => ({
+    action,
+    target,
+    completed: false,
+    startTime: null,
+    endTime: null
+  });
+
+  const task: Task = {
+    id: generateId(state),
+    type: 'PICK_AND_PLACE',
+    priority: 'NORMAL',
+    status: 'PENDING',
+    assignedRobotId: null,
+    reservedFor: null,
+    objectId: load[0].id,
+    sourceZone: sourceZone.id,
+    targetZone: targetZoneId,
+    steps: [
+      ...load.flatMap(o => [step('MOVE_TO', o.id), step('PICK_OBJECT', o.id)]),
+      step('MOVE_TO', targetZoneId),
+      step('PLACE_OBJECT', targetZoneId)
+    ],
+    currentStep: 0,
+    createdAt: simNow(state),
+    startedAt: null,
+    completedAt: null,
+    estimatedDuration: 40 + 20 * load.length,
+    aiScore: 0,
+    aiReasoning: '',
+    retryCount: 0,
+    maxRetries: 3,
+    failureReason: null,
+    dependsOn: [],
+    ...times,
+    patrol: null,
+    inspection: null,
+    disposition: null
+  };
+
+  state.tasks.set(task.id, task);
+  state.metrics.totalTasksCreated++;
+  reserveSlots(targetZone, load, task.id);
+
+  return task;
+}
+
+/**
+ * Split objects into loads for batched pickups: objects in the same zone are
+ * packed greedily while some robot could still carry the whole load. Objects
+ * lying outside any zone each get a load of their own.
+ */
+function planBatchLoads(objectIds: string[], state: SimulationState): string[][] {
+  const loads: string[][] = [];
+  const open = new Map<string, ConstructionObject[]>();
+  for (const objectId of objectIds) {
+    const obj = state.objects.get(objectId);
+    const zone = obj ? zoneOfObject(obj, state) : null;
+    if (!obj || !zone) {
+      loads.push([objectId]);
+      continue;
+    }
+    const current = open.get(zone.id) ?? [];
+    if (current.length > 0 && isCarriable([...current, obj], state)) {
+      current.push(obj);
+      continue;
+    }
+    if (current.length > 0) loads.push(current.map(o => o.id));
+    open.set(zone.id, [obj]);
+  }
+  for (const load of open.values()) loads.push(load.map(o => o.id));
+  return loads;
+}
+
+/** Send a robot to look over a zone */
+export function createInspectTask(zoneId: string, state: SimulationState, window: TaskWindowInput = {}): Task {
+  const zone = state.zones.get(zoneId);
+  if (!zone) throw new Error('Invalid zone');
+  const times = taskWindow(window);
+
+  const task: Task = {
+    id: generateId(state),
+    type: 'INSPECT',
+    priority: 'NORMAL',
+    status: 'PENDING',
+    assignedRobotId: null,
+    reservedFor: null,
+    objectId: null,
+    sourceZone: null,
+    targetZone: zoneId,
+    steps: [
+      { action: 'MOVE_TO', target: zoneId, completed: false, startTime: null, endTime: null },
+      { action: 'INSPECT', target: zoneId, completed: false, startTime: null, endTime: null },
+    ],
+    currentStep: 0,
+    createdAt: simNow(state),
+    startedAt: null,
+    completedAt: null,
+    estimatedDuration: 30,
+    aiScore: 0,
+    aiReasoning: `Inspection of ${zone.name}`,
+    retryCount: 0,
+    maxRetries: 3,
+    failureReason: null,
+    dependsOn: [],
+    ...times,
+    patrol: null,
+    inspection: null,
+    disposition: null,
+  };
+
+  state.tasks.set(task.id, task);
+  state.metrics.totalTasksCreated++;
+  return task;
+}
+
+export function createSortTask(
+  objectIds: string[],
+  targetZoneId: string,
+  state: SimulationState,
+  window: TaskWindowInput = {}
+): Task[] {
+  const targetZone = state.zones.get(targetZoneId);
+  if (!targetZone) throw new Error('Invalid target zone');
+  const times = taskWindow(window);
+
+  // Group objects by type and create one task per object
+  const objects = objectIds
+    .map(id => state.objects.get(id))
+    .filter((obj): obj is ConstructionObject => obj !== undefined && obj.status === 'AVAILABLE' && isCarriable([obj], state));
+  assertRoom(targetZone, objects);
+
+  const tasks: Task[] = [];
+  for (const obj of objects) {
+    const objectId = obj.id;
+    const task: Task = {
+      id: generateId(state),
+      type: 'SORT_MATERIALS',
+      priority: 'NORMAL',
+      status: 'PENDING',
+      assignedRobotId: null,
+      reservedFor: null,
+      objectId,
+      sourceZone: null,
+      targetZone: targetZoneId,
+      steps: [
+        { action: 'MOVE_TO', target: objectId, completed: false, startTime: null, endTime: null },
+        { action: 'INSPECT', target: objectId, completed: false, startTime: null, endTime: null },
+        { action: 'PICK_OBJECT', target: objectId, completed: false, startTime: null, endTime: null },
+        { action: 'MOVE_TO', target: targetZoneId, completed: false, startTime: null, endTime: null },
+        { action: 'PLACE_OBJECT', target: targetZoneId, completed: false, startTime: null, endTime: null },
+      ],
+      currentStep: 0,
+      createdAt: simNow(state),
+      startedAt: null,
+      completedAt: null,
+      estimatedDuration: 45,
+      aiScore: 0,
+      aiReasoning: `Sorting ${obj.type} to ${targetZone.name}`,
+      retryCount: 0,
+      maxRetries: 3,
+      failureReason: null,
+      dependsOn: [],
+      ...times,
+      patrol: null,
+      inspection: null,
+      disposition: null,
+    };
+
+    state.tasks.set(task.id, task);
+    state.metrics.totalTasksCreated++;
+    reserveSlots(targetZone, [obj], task.id);
+    tasks.push(task);
+  }
+  return tasks;
+}
+
+/**
+ * Deliver every part to the assembly zone, then inspect the assembly. The
+ * inspection depends on all deliveries, so it can't start before the last
+ * part arrives; with `sequential` each delivery also waits for the one before
+ * it (rebar before formwork before pour). A part that fails for good fails
+ * everything downstream of it.
+ */
+export function createAssembleTask(
+  objectIds: string[],
+  assemblyZoneId: string,
+  state: SimulationState,
+  sequential = false,
+  window: TaskWindowInput = {}
+): Task[] {
+  const zone = state.zones.get(assemblyZoneId);
+  if (!zone) throw new Error('Invalid assembly zone');
+  if (objectIds.length < 2) throw new Error('Assembly needs at least 2 objects');
+  const times = taskWindow(window);
+
+  const newTask = (fields: Pick<Task, 'type' | 'priority' | 'objectId' | 'steps' | 'estimatedDuration' | 'aiReasoning' | 'dependsOn'>): Task => {
+    const task: Task = {
+      id: generateId(state),
+      status: 'PENDING',
+      assignedRobotId: null,
+      reservedFor: null,
+      sourceZone: null,
+      targetZone: assemblyZoneId,
+      currentStep: 0,
+      createdAt: simNow(state),
+      startedAt: null,
+      completedAt: null,
+      aiScore: 0,
+      retryCount: 0,
+      maxRetries: 3,
+      failureReason: null,
+      ...times,
+      patrol: null,
+      inspection: null,
+      disposition: null,
+      ...fields,
+    };
+    if (task.dependsOn.length > 0) task.status = 'BLOCKED';
+    state.tasks.set(task.id, task);
+    state.metrics.totalTasksCreated++;
+    return task;
+  };
+
+  const deliverable = objectIds
+    .map(id => state.objects.get(id))
+    .filter((obj): obj is ConstructionObject => obj !== undefined && obj.status === 'AVAILABLE' && isCarriable([obj], state));
+  assertRoom(zone, deliverable);
+
+  const parts: Task[] = [];
+  for (let i = 0; i < objectIds.length; i++) {
+    const objectId = objectIds[i];
+    const obj = deliverable.find(o => o.id === objectId);
+    if (!obj) continue;
+
+    const previous = parts[parts.length - 1];
+    parts.push(newTask({
+      type: 'ASSEMBLE',
+      priority: 'NORMAL',
+      objectId,
+      steps: [
+        { action: 'MOVE_TO', target: objectId, completed: false, startTime: null, endTime: null },
+        { action: 'PICK_OBJECT', target: objectId, completed: false, startTime: null, endTime: null },
+        { action: 'MOVE_TO', target: assemblyZoneId, completed: false, startTime: null, endTime: null },
+        { action: 'PLACE_OBJECT', target: assemblyZoneId, completed: false, startTime: null, endTime: null },
+      ],
+      estimatedDuration: 90,
+      aiReasoning: `Assembly part ${i + 1}/${objectIds.length}: ${obj.type} → ${zone.name}`,
+      dependsOn: sequential && previous ? [previous.id] : [],
+    }));
+    reserveSlots(zone, [obj], parts[parts.length - 1].id);
+  }
+  if (parts.length === 0) return [];
+
+  const inspection = newTask({
+    type: 'INSPECT',
+    priority: 'HIGH',
+    objectId: null,
+    steps: [
+      { action: 'MOVE_TO', target: assemblyZoneId, completed: false, startTime: null, endTime: null },
+      { action: 'INSPECT', target: assemblyZoneId, completed: false, startTime: null, endTime: null },
+    ],
+    estimatedDuration: 30,
+    aiReasoning: `Assembly inspection at ${zone.name} once all ${parts.length} parts are in`,
+    dependsOn: parts.map(t => t.id),
+  });
+  return [...parts, inspection];
+}
+
+export function assignTaskToRobot(task: Task, robot: Robot, state: SimulationState): void {
+  task.assignedRobotId = robot.id;
+  task.status = 'IN_PROGRESS';
+  task.startedAt = simNow(state);
+  
+  robot.currentTaskId = task.id;
+  releaseDock(robot, state);
+  
+  // Start executing first step
+  executeTaskStep(robot, task, state);
+}
+
+/** Whether the robot is equipped for the task and can carry its load, whatever it is doing now */
+function isCapableOf(robot: Robot, task: Task, state: SimulationState): boolean {
+  const needsGripper = task.type === 'PICK_AND_PLACE' || task.type === 'SORT_MATERIALS' || task.type === 'ASSEMBLE';
+  return (!needsGripper || robot.gripper !== null || robot.cargo !== null) && // Only robots that can pick or load objects
+    (task.type !== 'TRANSPORT' || robot.cargo !== null) && // Bulk loads need a cargo bay
+    (!task.reservedFor || task.reservedFor === robot.id) &&
+    canCarryTask(robot, task, state);
+}
+
+/** The candidate closest to the task's first target */
+function closestToTask(candidates: Robot[], task: Task, state: SimulationState): Robot | null {
+  if (candidates.length === 0) return null;
+
+  const firstTarget = task.steps[0]?.target;
+  if (!firstTarget) return candidates[0];
+
+  const targetPos = typeof firstTarget === 'string'
+    ? getObjectPosition(firstTarget, state)
+    : firstTarget;
+
+  if (!targetPos) return candidates[0];
+
+  return candidates.reduce((best, robot) => {
+    const distBest = distance(best.pose, targetPos);
+    const distCurrent = distance(robot.pose, targetPos);
+    return distCurrent < distBest ? robot : best;
+  });
+}
+
+export function findBestRobotForTask(task: Task, state: SimulationState): Robot | null {
+  const availableRobots = Array.from(state.robots.values())
+    .filter(r =>
+      r.status === 'IDLE' &&
+      (r.battery > 30 || task.type === 'CHARGE') &&
+      r.currentTaskId === null &&
+      !r.serviceDue &&
+      isCapableOf(r, task, state)
+    );
+
+  return closestToTask(availableRobots, task, state);
+}
+
+// ============================================
+// DISPATCH (priority queue with aging, preemption)
+// ============================================
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { LOW: 0, NORMAL: 1, HIGH: 2, URGENT: 3 };
+const AGING_INTERVAL_MS = 120000; // a waiting task gains one priority level per two minutes
+// Aging lifts LOW/NORMAL work up to HIGH but never to URGENT, so only real emergencies preempt
+const MAX_AGED_RANK = PRIORITY_RANK.HIGH;
+const PREEMPTIBLE_PRIORITIES = new Set<TaskPriority>(['LOW', 'NORMAL']);
+// Loads aren't put down in traffic zones or keep-outs; the preemption waits until the robot is clear
+const NO_PUT_DOWN_ZONES = new Set<ZoneType>(['ONE_WAY_LANE', 'INTERSECTION', 'RESTRICTED_AREA']);
+
+const OPEN_STATUSES = new Set<TaskStatus>(['BLOCKED', 'PENDING', 'ASSIGNED', 'IN_PROGRESS']);
+
+/** When the task would finish if it ran to plan from now (or from its earliest start) */
+function projectedFinish(task: Task, state: SimulationState): number {
+  const start = Math.max(simNow(state), task.earliestStart ?? 0);
+  const remaining = 1 - task.currentStep / Math.max(task.steps.length, 1);
+  return start + task.estimatedDuration * remaining * 1000;
+}
+
+/** An open task with a deadline that it won't make on its estimated duration */
+function isAtRisk(task: Task, state: SimulationState): boolean {
+  return task.dueBy !== null && OPEN_STATUSES.has(task.status) && projectedFinish(task, state) > task.dueBy;
+}
+
+function isStartable(task: Task, state: SimulationState): boolean {
+  return task.earliestStart === null || simNow(state) >= task.earliestStart;
+}
+
+/** Priority level after aging; a task about to miss its deadline counts as at least HIGH */
+function effectivePriority(task: Task, state: SimulationState): number {
+  const rank = PRIORITY_RANK[task.priority];
+  const aged = rank + Math.floor(Math.max(0, simNow(state) - task.createdAt) / AGING_INTERVAL_MS);
+  const level = Math.min(aged, Math.max(rank, MAX_AGED_RANK));
+  return isAtRisk(task, state) ? Math.max(level, PRIORITY_RANK.HIGH) : level;
+}
+
+/**
+ * Unassigned PENDING tasks whose window has opened, highest aged priority
+ * first, then earliest deadline, then oldest
+ */
+export function dispatchQueue(state: SimulationState): Task[] {
+  return Array.from(state.tasks.values())
+    .filter(t => t.status === 'PENDING' && !t.assignedRobotId && isStartable(t, state))
+    .map(task => ({ task, priority: effectivePriority(task, state) }))
+    .sort((a, b) =>
+      b.priority - a.priority ||
+      (a.task.dueBy ?? Infinity) - (b.task.dueBy ?? Infinity) ||
+      a.task.createdAt - b.task.createdAt)
+    .map(entry => entry.task);
+}
+
+/** Count a completed task as on time or late against its dueBy */
+function recordDeadline(task: Task, state: SimulationState): void {
+  if (task.dueBy === null || task.completedAt === null) return;
+  const metrics = state.metrics;
+  const lateness = (task.completedAt - task.dueBy) / 1000;
+  if (lateness > 0) {
+    metrics.lateTasks++;
+    metrics.averageLateness = (metrics.averageLateness * (metrics.lateTasks - 1) + lateness) / metrics.lateTasks;
+    console.log(`⏰ Task ${task.id} completed ${lateness.toFixed(0)}s after its due time`);
+  } else {
+    metrics.onTimeTasks++;
+  }
+  metrics.onTimeRate = metrics.onTimeTasks / (metrics.onTimeTasks + metrics.lateTasks);
+}
+
+/**
+ * A robot is at a safe step boundary when it is driving between steps (not
+ * mid-pick or mid-place) and not inside a zone where a load mustn't be left.
+ */
+function isAtSafeBoundary(robot: Robot, state: SimulationState): boolean {
+  if (robot.status !== 'MOVING' && robot.status !== 'CARRYING') return false;
+  for (const zone of state.zones.values()) {
+    if (NO_PUT_DOWN_ZONES.has(zone.type) && isInsideBounds(robot.pose, zone.bounds)) return false;
+  }
+  return true;
+}
+
+/** Set down everything the robot carries where it stands, available to be picked up again */
+function putDownCarried(robot: Robot, state: SimulationState): void {
+  carriedObjects(robot).forEach((objectId, i) => {
+    const obj = state.objects.get(objectId);
+    if (!obj) return;
+    obj.pose = unloadPose(robot, i);
+    obj.status = 'AVAILABLE';
+    obj.pickedBy = null;
+    settleObject(obj, robot, state);
+  });
+  emptyRobotLoad(robot);
+}
+
+/**
+ * Free a robot for an URGENT task by interrupting the closest suitable robot
+ * running LOW/NORMAL work at a safe step boundary. Its load is put down on the
+ * spot and its task goes back in the queue to start over.
+ */
+function preemptFor(urgent: Task, state: SimulationState): Robot | null {
+  const candidates = Array.from(state.robots.values()).filter(r => {
+    const current = r.currentTaskId ? state.tasks.get(r.currentTaskId) : undefined;
+    return current !== undefined &&
+      PREEMPTIBLE_PRIORITIES.has(current.priority) &&
+      r.battery > 30 &&
+      !r.serviceDue &&
+      isAtSafeBoundary(r, state) &&
+      isCapableOf(r, urgent, state);
+  });
+  const robot = closestToTask(candidates, urgent, state);
+  if (!robot) return null;
+
+  const preempted = state.tasks.get(robot.currentTaskId!)!;
+  console.log(`⏸️ Task ${preempted.id} (${preempted.priority}) preempted on ${robot.name} for URGENT task ${urgent.id}`);
+  putDownCarried(robot, state);
+  clearRobotPath(robot, state);
+  requeueTask(preempted);
+  robot.currentTaskId = null;
+  robot.status = 'IDLE';
+  return robot;
+}
+
+/** Hand queued tasks to idle robots in priority order, preempting routine work for URGENT ones */
+function dispatchTasks(state: SimulationState): void {
+  for (const task of dispatchQueue(state)) {
+    const robot = findBestRobotForTask(task, state) ?? (task.priority === 'URGENT' ? preemptFor(task, state) : null);
+    if (robot) {
+      assignTaskToRobot(task, robot, state);
+    }
+  }
+}
+
+// ============================================
+// RECURRING SCHEDULES (cron rules on the sim clock)
+// ============================================
+
+const MINUTE_MS = 60000;
+// Far enough ahead to find any valid date, e.g. "0 0 29 2 *" from just after a leap day
+const CRON_SEARCH_LIMIT_MS = 8 * 366 * 24 * 60 * MINUTE_MS;
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }, // 0 and 7 are both Sunday
+] as const;
+
+interface CronSpec {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // As in cron, when both day fields are restricted a date matching either one fires
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+/** One field: `*`, `n`, `a-b`, any of those with `/step`, or a comma list of them */
+function parseCronField(text: string, field: typeof CRON_FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new Error(`Invalid ${field.name} "${part}"`);
+
+    const start = match[1] === '*' ? field.min : Number(match[2]);
+    const end = match[1] === '*' ? field.max : match[3] !== undefined ? Number(match[3]) : match[4] !== undefined ? field.max : start;
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+    if (start < field.min || end > field.max || start > end || step < 1) {
+      throw new Error(`Invalid ${field.name} "${part}" (allowed ${field.min}-${field.max})`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+/** Parse a five-field cron expression: minute hour day-of-month month day-of-week */
+export function parseCron(expression: string): CronSpec {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== CRON_FIELDS.length) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+  try {
+    const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseCronField(part, CRON_FIELDS[i]));
+    if (weekdays.delete(7)) weekdays.add(0);
+    return { minutes, hours, days, months, weekdays, anyDay: parts[2] === '*', anyWeekday: parts[4] === '*' };
+  } catch (error) {
+    throw new Error(`Invalid cron expression "${expression}": ${(error as Error).message}`);
+  }
+}
+
+function cronDayMatches(spec: CronSpec, date: Date): boolean {
+  const day = spec.days.has(date.getUTCDate());
+  const weekday = spec.weekdays.has(date.getUTCDay());
+  if (spec.anyDay) return weekday;
+  if (spec.anyWeekday) return day;
+  return day || weekday;
+}
+
+/** First minute after `after` (sim clock ms, read as UTC) that matches, or null if none ever does */
+export function nextCronTime(spec: CronSpec, after: number): number | null {
+  const limit = after + CRON_SEARCH_LIMIT_MS;
+  let t = Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  while (t <= limit) {
+    const date = new Date(t);
+    const [year, month, day, hour] = [date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours()];
+    // Skip whole months, days and hours that can't match before stepping by the minute
+    if (!spec.months.has(month + 1)) t = Date.UTC(year, month + 1, 1);
+    else if (!cronDayMatches(spec, date)) t = Date.UTC(year, month, day + 1);
+    else if (!spec.hours.has(hour)) t = Date.UTC(year, month, day, hour + 1);
+    else if (!spec.minutes.has(date.getUTCMinutes())) t += MINUTE_MS;
+    else return t;
+  }
+  return null;
+}
+
+function assertScheduleTemplate(template: ScheduleTemplate, state: SimulationState): void {
+  const { startInMinutes = null, dueInMinutes = null } = template ?? {};
+  if ([startInMinutes, dueInMinutes].some(m => m !== null && (typeof m !== 'number' || !Number.isFinite(m) || m < 0))) {
+    throw new Error('Schedule start and due times must be zero or more minutes');
+  }
+  if (startInMinutes !== null && dueInMinutes !== null && dueInMinutes <= startInMinutes) {
+    throw new Error('Scheduled tasks would be due before they may start');
+  }
+  switch (template?.kind) {
+    case 'RESTOCK':
+      if (!(template.objectType in OBJECT_TYPE_CONFIGS)) throw new Error(`Unknown object type: ${template.objectType}`);
+      if (!Number.isInteger(template.quantity) || template.quantity < 1) throw new Error('Restock quantity must be a positive whole number');
+      if (!state.zones.has(template.targetZoneId)) throw new Error(`Zone not found: ${template.targetZoneId}`);
+      if (template.sourceZoneId && !state.zones.has(template.sourceZoneId)) throw new Error(`Zone not found: ${template.sourceZoneId}`);
+      return;
+    case 'INSPECT':
+      if (!state.zones.has(template.zoneId)) throw new Error(`Zone not found: ${template.zoneId}`);
+      return;
+    case 'PATROL':
+      patrolCheckpoints(state, template);
+      return;
+    case 'TRANSPORT':
+      if (!state.zones.has(template.sourceZoneId)) throw new Error(`Zone not found: ${template.sourceZoneId}`);
+      if (!state.zones.has(template.targetZoneId)) throw new Error(`Zone not found: ${template.targetZoneId}`);
+      if (template.objectType && !(template.objectType in OBJECT_TYPE_CONFIGS)) throw new Error(`Unknown object type: ${template.objectType}`);
+      return;
+    case 'CHARGE':
+      if (template.robotId && !state.robots.has(template.robotId)) throw new Error(`Robot not found: ${template.robotId}`);
+      return;
+    default:
+      throw new Error('Schedule template must be RESTOCK, INSPECT, PATROL, TRANSPORT or CHARGE');
+  }
+}
+
+/** Add a schedule, or replace the rule of an existing one while keeping its run history */
+export function upsertSchedule(state: SimulationState, input: ScheduleInput): TaskSchedule {
+  if (!input.name?.trim()) throw new Error('Schedule name is required');
+  const spec = parseCron(input.cron);
+  assertScheduleTemplate(input.template, state);
+  if (input.priority !== undefined && !(input.priority in PRIORITY_RANK)) {
+    throw new Error(`Unknown task priority: ${input.priority}`);
+  }
+
+  const nextRunAt = nextCronTime(spec, simNow(state));
+  if (nextRunAt === null) throw new Error(`Cron expression "${input.cron}" never fires`);
+
+  const existing = input.id ? state.schedules.get(input.id) : undefined;
+  const enabled = input.enabled ?? true;
+  const schedule: TaskSchedule = {
+    id: input.id ?? generateId(state),
+    name: input.name.trim(),
+    cron: input.cron.trim(),
+    enabled,
+    priority: input.priority ?? 'NORMAL',
+    template: input.template,
+    nextRunAt: enabled ? nextRunAt : null,
+    lastRunAt: existing?.lastRunAt ?? null,
+    taskIds: existing?.taskIds ?? [],
+  };
+  state.schedules.set(schedule.id, schedule);
+  return schedule;
+}
+
+export function removeSchedule(state: SimulationState, scheduleId: string): TaskSchedule | null {
+  const schedule = state.schedules.get(scheduleId);
+  if (!schedule) return null;
+  state.schedules.delete(scheduleId);
+  return schedule;
+}
+
+/** AVAILABLE objects of the template's type outside its target zone that no open task already moves */
+function restockCandidates(template: Extract<ScheduleTemplate, { kind: 'RESTOCK' }>, state: SimulationState): ConstructionObject[] {
+  const claimed = new Set<string>();
+  for (const task of state.tasks.values()) {
+    if (OPEN_STATUSES.has(task.status)) taskObjects(task, state).forEach(obj => claimed.add(obj.id));
+  }
+  return Array.from(state.objects.values()).filter(obj => {
+    if (obj.type !== template.objectType || obj.status !== 'AVAILABLE' || claimed.has(obj.id)) return false;
+    const zoneId = zoneOfObject(obj, state)?.id ?? null;
+    return zoneId !== template.targetZoneId &&
+      (!template.sourceZoneId || zoneId === template.sourceZoneId) &&
+      isCarriable([obj], state);
+  });
+}
+
+function createScheduledTasks(schedule: TaskSchedule, state: SimulationState): Task[] {
+  const template = schedule.template;
+  const { startInMinutes = null, dueInMinutes = null } = template;
+  const now = simNow(state);
+  const window: TaskWindowInput = {
+    earliestStart: startInMinutes === null ? null : now + startInMinutes * MINUTE_MS,
+    dueBy: dueInMinutes === null ? null : now + dueInMinutes * MINUTE_MS,
+  };
+  let tasks: Task[];
+  switch (template.kind) {
+    case 'INSPECT':
+      tasks = [createInspectTask(template.zoneId, state, window)];
+      break;
+    case 'PATROL':
+      tasks = [createPatrolTask(state, { ...template, ...window })];
+      break;
+    case 'TRANSPORT':
+      tasks = createTransportTasks(state, { ...template, ...window });
+      break;
+    case 'CHARGE':
+      tasks = [createChargeTask(state, { ...template, ...window })];
+      break;
+    default: {
+      // Restock as far as the target zone has room
+      const zone = state.zones.get(template.targetZoneId);
+      tasks = [];
+      for (const obj of restockCandidates(template, state).slice(0, template.quantity)) {
+        if (zone && tasks.length > 0 && slotLimitReason(zone, [obj])) break;
+        tasks.push(createPickAndPlaceTask(obj.id, template.targetZoneId, state, window));
+      }
+    }
+  }
+
+  for (const task of tasks) {
+    task.priority = schedule.priority;
+    task.aiReasoning = `Scheduled by "${schedule.name}" (${schedule.cron})`;
+  }
+  return tasks;
+}
+
+/**
+ * Fire every enabled schedule that is due. A firing is skipped while tasks
+ * from the previous one are still open, so a slow fleet doesn't pile up
+ * duplicates, and a clock that jumped past several runs fires only once.
+ */
+function runSchedules(state: SimulationState): void {
+  const now = simNow(state);
+  for (const schedule of state.schedules.values()) {
+    if (!schedule.enabled || schedule.nextRunAt === null || now < schedule.nextRunAt) continue;
+
+    const pending = schedule.taskIds.filter(id => OPEN_STATUSES.has(state.tasks.get(id)?.status ?? 'CANCELLED'));
+    if (pending.length > 0) {
+      console.log(`⏭️ Schedule "${schedule.name}" skipped: ${pending.length} task(s) from its last run still open`);
+    } else {
+      try {
+        schedule.taskIds = createScheduledTasks(schedule, state).map(t => t.id);
+        console.log(`🗓️ Schedule "${schedule.name}" created ${schedule.taskIds.length} task(s)`);
+      } catch (error) {
+        console.warn(`⚠️ Schedule "${schedule.name}" failed: ${(error as Error).message}`);
+      }
+    }
+    schedule.lastRunAt = now;
+    schedule.nextRunAt = nextCronTime(parseCron(schedule.cron), now);
+  }
+}
+
+// ============================================
+// SIMULATION STATE INITIALIZATION
+// ============================================
+
+/** `clockStart` is what the sim clock reads at the start; a seeded run reproduces only with the same one */
+export function createInitialState(seed: number | null = null, clockStart = Date.now()): SimulationState {
+  const state: SimulationState = {
+    id: '',
+    name: 'Construction Site Alpha',
+    status: 'STOPPED',
+    environmentType: 'CONSTRUCTION_SITE',
+    dimensions: { width: 1000, height: 800 },
+    robots: new Map(),
+    objects: new Map(),
+    zones: new Map(),
+    obstacles: new Map(),
+    tasks: new Map(),
+    schedules: new Map(),
+    quality: { ...DEFAULT_QUALITY },
+    chaos: defaultChaos(),
+    faults: new Map(),
+    maintenance: { ...DEFAULT_MAINTENANCE },
+    movements: [],
+    movementSeq: 0,
+    tick: 0,
+    startTime: 0,
+    timeMultiplier: 1,
+    simTime: 0,
+    clockStart,
+    seed,
+    rngState: seed ?? 0,
+    metrics: {
+      totalTasksCreated: 0,
+      totalTasksCompleted: 0,
+      totalTasksFailed: 0,
+      averageTaskTime: 0,
+      fleetEfficiency: 0,
+      pickSuccessRate: 0,
+      nearMisses: 0,
+      restrictedAreaViolations: 0,
+      onTimeTasks: 0,
+      lateTasks: 0,
+      onTimeRate: 1,
+      averageLateness: 0,
+      atRiskTasks: 0,
+      inspectionsPassed: 0,
+      inspectionsFailed: 0,
+      defectsDetected: 0,
+      defectsMissed: 0,
+      faultsInjected: 0,
+      taskRetries: 0,
+      faultsRaised: 0,
+      servicesCompleted: 0,
+      faultDowntime: 0,
+      maintenanceDowntime: 0,
+      fleetAvailability: 1
+    }
+  };
+  state.id = generateId(state);
+  
+  // Create zones
+  const zones: Zone[] = [
+    {
+      id: 'zone-material-storage',
+      name: 'Material Storage',
+      type: 'MATERIAL_STORAGE',
+      bounds: { x: 50, y: 50, width: 200, height: 150 },
+      color: '#6366f1',
+      capacity: 20,
+      currentOccupancy: 0,
+      objects: [],
+      slots: [],
+      robots: [],
+      queue: []
+    },
+    {
+      id: 'zone-assembly',
+      name: 'Assembly Area',
+      type: 'ASSEMBLY_AREA',
+      bounds: { x: 400, y: 300, width: 250, height: 200 },
+      color: '#22c55e',
+      capacity: 10,
+      currentOccupancy: 0,
+      objects: [],
+      slots: [],
+      robots: [],
+      queue: []
+    },
+    {
+      id: 'zone-staging',
+      name: 'Staging Zone',
+      type: 'STAGING_ZONE',
+      bounds: { x: 700, y: 100, width: 180, height: 150 },
+      color: '#f59e0b',
+      capacity: 15,
+      currentOccupancy: 0,
+      objects: [],
+      slots: [],
+      robots: [],
+      queue: []
+    },
+    {
+      id: 'zone-charging',
+      name: 'Charging Station',
+      type: 'CHARGING_STATION',
+      bounds: { x: 800, y: 600, width: 150, height: 150 },
+      color: '#06b6d4',
+      capacity: 4,
+      currentOccupancy: 0,
+      objects: [],
+      slots: [],
+      robots: [],
+      queue: [],
+      docks: [null, null],
+      chargeQueue: [],
+      chargingPower: DEFAULT_CHARGING_POWER
+    },
+    {
+      id: 'zone-work-1',
+      name: 'Work Zone A',
+      type: 'WORK_ZONE',
+      bounds: { x: 200, y: 500, width: 200, height: 150 },
+      color: '#8b5cf6',
+      capacity: 8,
+      currentOccupancy: 0,
+      objects: [],
+      slots: [],
+      robots: [],
+      queue: []
+    },
+    {
+      id: 'zone-inspection',
+      name: 'Inspection Point',
+      type: 'INSPECTION_POINT',
+      bounds: { x: 500, y: 600, width: 100, height: 100 },
+      color: '#ef4444',
+      capacity: 5,
+      currentOccupancy: 0,
+      objects: [],
+      slots: [],
+      robots: [],
+      queue: []
+    }
+  ];
+  
+  for (const zone of zones) {
+    state.zones.set(zone.id, zone);
+  }
+  
+  // Create obstacles
+  const obstacles: Obstacle[] = [
+    {
+      id: 'wall-1',
+      type: 'WALL',
+      pose: { x: 350, y: 200, rotation: 0 },
+      dimensions: { width: 10, height: 200 },
+      isTemporary: false
+    },
+    {
+      id: 'pillar-1',
+      type: 'PILLAR',
+      pose: { x: 500, y: 150, rotation: 0 },
+      dimensions: { width: 40, height: 40 },
+      isTemporary: false
+    },
+    {
+      id: 'pillar-2',
+      type: 'PILLAR',
+      pose: { x: 500, y: 500, rotation: 0 },
+      dimensions: { width: 40, height: 40 },
+      isTemporary: false
+    },
+    {
+      id: 'scaffolding-1',
+      type: 'SCAFFOLDING',
+      pose: { x: 650, y: 400, rotation: 0 },
+      dimensions: { width: 100, height: 60 },
+      isTemporary: true
+    },
+    {
+      id: 'equipment-1',
+      type: 'EQUIPMENT',
+      pose: { x: 150, y: 350, rotation: 0 },
+      dimensions: { width: 80, height: 60 },
+      isTemporary: true
+    }
+  ];
+  
+  for (const obstacle of obstacles) {
+    state.obstacles.set(obstacle.id, obstacle);
+  }
+  
+  // Create construction objects - now with more realistic materials
+  const objectTypes: Array<{ type: ObjectType; color: string; weight: number; shape: string; dimensions: { width: number; height: number; depth: number } }> = [
+    // Original heavy materials
+    { type: 'STEEL_BEAM', color: '#64748b', weight: 50, shape: 'beam', dimensions: { width: 60, height: 15, depth: 15 } },
+    { type: 'CONCRETE_BLOCK', color: '#78716c', weight: 30, shape: 'block', dimensions: { width: 30, height: 20, depth: 20 } },
+    { type: 'PIPE_SECTION', color: '#0ea5e9', weight: 15, shape: 'cylinder', dimensions: { width: 50, height: 12, depth: 12 } },
+    { type: 'ELECTRICAL_PANEL', color: '#eab308', weight: 20, shape: 'box', dimensions: { width: 25, height: 35, depth: 15 } },
+    { type: 'HVAC_UNIT', color: '#22c55e', weight: 40, shape: 'box', dimensions: { width: 40, height: 30, depth: 30 } },
+    { type: 'TOOL_BOX', color: '#ef4444', weight: 10, shape: 'box', dimensions: { width: 25, height: 15, depth: 15 } },
+    { type: 'SAFETY_EQUIPMENT', color: '#f97316', weight: 5, shape: 'box', dimensions: { width: 20, height: 20, depth: 15 } },
+    { type: 'SCAFFOLDING_PART', color: '#a855f7', weight: 25, shape: 'beam', dimensions: { width: 50, height: 10, depth: 10 } },
+    // NEW: Construction site lightweight materials
+    { type: 'CEMENT_BAG', color: '#94a3b8', weight: 50, shape: 'bag', dimensions: { width: 35, height: 20, depth: 15 } },
+    { type: 'SAND_BAG', color: '#d4a574', weight: 30, shape: 'bag', dimensions: { width: 35, height: 18, depth: 12 } },
+    { type: 'CARDBOARD_BOX', color: '#c9a66b', weight: 8, shape: 'box', dimensions: { width: 30, height: 25, depth: 25 } },
+    { type: 'BRICK_PALLET', color: '#b45309', weight: 45, shape: 'pallet', dimensions: { width: 50, height: 30, depth: 30 } },
+    { type: 'GRAVEL_BAG', color: '#6b7280', weight: 25, shape: 'bag', dimensions: { width: 30, height: 18, depth: 12 } },
+    { type: 'TILE_STACK', color: '#f5f5f4', weight: 35, shape: 'stack', dimensions: { width: 40, height: 25, depth: 20 } },
+    { type: 'WOOD_PLANK', color: '#a16207', weight: 12, shape: 'plank', dimensions: { width: 70, height: 8, depth: 15 } },
+    { type: 'REBAR_BUNDLE', color: '#44403c', weight: 60, shape: 'bundle', dimensions: { width: 80, height: 15, depth: 15 } },
+    { type: 'MIXED_MATERIAL', color: '#71717a', weight: 20, shape: 'mixed', dimensions: { width: 35, height: 25, depth: 20 } }
+  ];
+  
+  // Helper function to generate descriptive object names
+  const objectNamePrefixes: Record<ObjectType, string[]> = {
+    STEEL_BEAM: ['Main', 'Support', 'Cross', 'Frame'],
+    CONCRETE_BLOCK: ['Foundation', 'Wall', 'Pillar', 'Corner'],
+    PIPE_SECTION: ['Plumbing', 'Drain', 'Supply', 'Vent'],
+    ELECTRICAL_PANEL: ['Main', 'Sub', 'Circuit', 'Control'],
+    HVAC_UNIT: ['AC', 'Ventilation', 'Exhaust', 'Supply'],
+    TOOL_BOX: ['Red', 'Blue', 'Yellow', 'Green'],
+    SAFETY_EQUIPMENT: ['Fire', 'First Aid', 'PPE', 'Emergency'],
+    SCAFFOLDING_PART: ['Tower', 'Bridge', 'Platform', 'Frame'],
+    CEMENT_BAG: ['Portland', 'Quick', 'White', 'Gray'],
+    SAND_BAG: ['Fine', 'Coarse', 'River', 'Beach'],
+    CARDBOARD_BOX: ['Large', 'Medium', 'Small', 'Heavy'],
+    BRICK_PALLET: ['Red', 'Clay', 'Concrete', 'Fire'],
+    GRAVEL_BAG: ['Pea', 'Crushed', 'River', 'Decorative'],
+    TILE_STACK: ['Ceramic', 'Porcelain', 'Marble', 'Granite'],
+    WOOD_PLANK: ['Oak', 'Pine', 'Cedar', 'Plywood'],
+    REBAR_BUNDLE: ['#4', '#5', '#6', '#8'],
+    MIXED_MATERIAL: ['Batch', 'Set', 'Kit', 'Package']
+  };
+  
+  const generateObjectName = (type: ObjectType, index: number, zonePrefix: string): string => {
+    const prefixes = objectNamePrefixes[type] || ['Item'];
+    const prefix = prefixes[index % prefixes.length];
+    const typeLabel = type.replace(/_/g, ' ').split(' ').map(w => w[0]).join('');
+    return `${prefix} ${type.replace(/_/g, ' ')} ${zonePrefix}${String(index + 1).padStart(2, '0')}`;
+  };
+  
+  // Fill material storage with varied materials until it is full or the next one doesn't fit
+  const materialZone = state.zones.get('zone-material-storage')!;
+  for (let i = 0; materialZone.slots.length < materialZone.capacity; i++) {
+    const objType = objectTypes[i % objectTypes.length];
+    const obj: ConstructionObject = {
+      id: `obj-mat-${generateId(state)}`,
+      type: objType.type,
+      name: generateObjectName(objType.type, i, 'M'),
+      pose: { x: 0, y: 0, rotation: 0 }, // lined up in its slot by stowObject
+      dimensions: objType.dimensions, // Use realistic dimensions
+      weight: objType.weight,
+      status: 'AVAILABLE',
+      pickedBy: null,
+      targetZone: null,
+      color: objType.color,
+      ...rollCondition(state),
+    };
+    if (!receiveObject(obj, materialZone, state)) break;
+  }
+
+  // Add more objects in staging zone (to be sorted)
+  const stagingZone = state.zones.get('zone-staging')!;
+  for (let i = 0; i < 10; i++) {
+    const objType = objectTypes[Math.floor(random(state) * objectTypes.length)];
+    const obj: ConstructionObject = {
+      id: `obj-stg-${generateId(state)}`,
+      type: objType.type,
+      name: generateObjectName(objType.type, i, 'S'),
+      pose: { x: 0, y: 0, rotation: 0 },
+      dimensions: { width: 25, height: 25, depth: 20 },
+      weight: objType.weight,
+      status: 'AVAILABLE',
+      pickedBy: null,
+      targetZone: null,
+      color: objType.color,
+      ...rollCondition(state),
+    };
+    receiveObject(obj, stagingZone, state);
+  }
+
+  // Add some objects in work zone
+  const workZone = state.zones.get('zone-work-1')!;
+  if (workZone) {
+    for (let i = 0; i < 5; i++) {
+      const objType = objectTypes[Math.floor(random(state) * objectTypes.length)];
+      const obj: ConstructionObject = {
+        id: `obj-wrk-${generateId(state)}`,
+        type: objType.type,
+        name: generateObjectName(objType.type, i, 'W'),
+        pose: { x: 0, y: 0, rotation: 0 },
+        dimensions: { width: 25, height: 25, depth: 20 },
+        weight: objType.weight,
+        status: 'AVAILABLE',
+        pickedBy: null,
+        targetZone: null,
+        color: objType.color,
+        ...rollCondition(state),
+      };
+
+      receiveObject(obj, workZone, state);
+    }
+  }
+  
+  // Create robots
+  const robots: Robot[] = [
+    {
+      id: 'robot-mm-01',
+      name: 'Mobile Manipulator 01',
+      type: 'MOBILE_MANIPULATOR',
+      pose: { x: 100, y: 250, rotation: 0 },
+      targetPose: null,
+      speed: 2,
+      maxSpeed: 3,
+      angularSpeed: 90,
+      acceleration: 1,
+      currentSpeed: 0,
+      payloadCapacity: 35,
+      battery: 100,
+      maxBattery: 100,
+      batteryDrainRate: 0.01,
+      arm: {
+        joints: [0, -45, 90, 0, 45, 0],
+        endEffectorPose: { x: 30, y: 0 },
+        isMoving: false,
+        targetPose: null
+      },
+      gripper: {
+        isOpen: true,
+        heldObject: null,
+        gripForce: 50
+      },
+      cargo: null,
+      status: 'IDLE',
+      currentTaskId: null,
+      path: [],
+      pathIndex: 0,
+      pathDepartures: [],
+      waitingSince: null,
+      tasksCompleted: 0,
+      distanceTraveled: 0,
+      pickSuccessRate: 0,
+      ...newRobotHealth(),
+      lidarPoints: [],
+      cameraView: null
+    },
+    {
+      id: 'robot-mm-02',
+      name: 'Mobile Manipulator 02',
+      type: 'MOBILE_MANIPULATOR',
+      pose: { x: 300, y: 450, rotation: 90 },
+      targetPose: null,
+      speed: 2,
+      maxSpeed: 3,
+      angularSpeed: 90,
+      acceleration: 1,
+      currentSpeed: 0,
+      payloadCapacity: 35,
+      battery: 85,
+      maxBattery: 100,
+      batteryDrainRate: 0.01,
+      arm: {
+        joints: [0, -45, 90, 0, 45, 0],
+        endEffectorPose: { x: 30, y: 0 },
+        isMoving: false,
+        targetPose: null
+      },
+      gripper: {
+        isOpen: true,
+        heldObject: null,
+        gripForce: 50
+      },
+      cargo: null,
+      status: 'IDLE',
+      currentTaskId: null,
+      path: [],
+      pathIndex: 0,
+      pathDepartures: [],
+      waitingSince: null,
+      tasksCompleted: 0,
+      distanceTraveled: 0,
+      pickSuccessRate: 0,
+      ...newRobotHealth(),
+      lidarPoints: [],
+      cameraView: null
+    },
+    {
+      id: 'robot-forklift-01',
+      name: 'Forklift 01',
+      type: 'FORKLIFT',
+      pose: { x: 600, y: 250, rotation: 180 },
+      targetPose: null,
+      speed: 1.5,
+      maxSpeed: 2,
+      angularSpeed: 60,
+      acceleration: 0.5,
+      currentSpeed: 0,
+      payloadCapacity: 500,
+      battery: 90,
+      maxBattery: 100,
+      batteryDrainRate: 0.015,
+      arm: null,
+      gripper: {
+        isOpen: true,
+        heldObject: null,
+        gripForce: 100
+      },
+      cargo: { objects: [], slots: 6, maxVolume: 150000 }, // pallet forks
+      status: 'IDLE',
+      currentTaskId: null,
+      path: [],
+      pathIndex: 0,
+      pathDepartures: [],
+      waitingSince: null,
+      tasksCompleted: 0,
+      distanceTraveled: 0,
+      pickSuccessRate: 0,
+      ...newRobotHealth(),
+      lidarPoints: [],
+      cameraView: null
+    },
+    {
+      id: 'robot-transport-01',
+      name: 'Transport Robot 01',
+      type: 'AMR_TRANSPORT',
+      pose: { x: 750, y: 400, rotation: 270 },
+      targetPose: null,
+      speed: 3,
+      maxSpeed: 4,
+      angularSpeed: 120,
+      acceleration: 1.5,
+      currentSpeed: 0,
+      payloadCapacity: 100,
+      battery: 75,
+      maxBattery: 100,
+      batteryDrainRate: 0.008,
+      arm: null,
+      gripper: null,
+      cargo: { objects: [], slots: 4, maxVolume: 60000 },
+      status: 'IDLE',
+      currentTaskId: null,
+      path: [],
+      pathIndex: 0,
+      pathDepartures: [],
+      waitingSince: null,
+      tasksCompleted: 0,
+      distanceTraveled: 0,
+      pickSuccessRate: 0,
+      ...newRobotHealth(),
+      lidarPoints: [],
+      cameraView: null
+    }
+  ];
+  
+  for (const robot of robots) {
+    state.robots.set(robot.id, robot);
+  }
+  
+  return state;
+}
+
+// ============================================
+// STEPPING & SERIALIZATION
+// ============================================
+
+/** Parse a seed from an env var, CLI flag or socket payload; null means unseeded */
+export function parseSeed(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const seed = Number(value);
+  return Number.isFinite(seed) ? seed >>> 0 : null;
+}
+
+export function serializeState(state: SimulationState) {
+  return {
+    id: state.id,
+    name: state.name,
+    status: state.status,
+    environmentType: state.environmentType,
+    dimensions: state.dimensions,
+    tick: state.tick,
+    timeMultiplier: state.timeMultiplier,
+    simTime: state.simTime,
+    clockStart: state.clockStart,
+    seed: state.seed,
+    robots: Array.from(state.robots.values()),
+    objects: Array.from(state.objects.values()),
+    zones: Array.from(state.zones.values()),
+    obstacles: Array.from(state.obstacles.values()),
+    tasks: Array.from(state.tasks.values()),
+    schedules: Array.from(state.schedules.values()),
+    quality: state.quality,
+    chaos: state.chaos,
+    faults: Array.from(state.faults.values()),
+    maintenance: state.maintenance,
+    movements: state.movements.slice(-STREAMED_MOVEMENTS),
+    metrics: state.metrics
+  };
+}
+
+/** SimulationState with its entity Maps flattened to arrays, for checkpoints on disk */
+export type StateCheckpoint = Omit<SimulationState, 'robots' | 'objects' | 'zones' | 'obstacles' | 'tasks' | 'schedules' | 'faults'> & {
+  robots: Robot[];
+  objects: ConstructionObject[];
+  zones: Zone[];
+  obstacles: Obstacle[];
+  tasks: Task[];
+  schedules: TaskSchedule[];
+  faults: Fault[];
+};
+
+/**
+ * Everything needed to continue a run exactly where it stopped, including
+ * the PRNG position, in-flight task steps and held objects. LiDAR points are
+ * dropped — they are regenerated on the next step.
+ */
+export function checkpointState(state: SimulationState): StateCheckpoint {
+  return {
+    ...state,
+    robots: Array.from(state.robots.values(), r => ({ ...r, lidarPoints: [] })),
+    objects: Array.from(state.objects.values()),
+    zones: Array.from(state.zones.values()),
+    obstacles: Array.from(state.obstacles.values()),
+    tasks: Array.from(state.tasks.values()),
+    schedules: Array.from(state.schedules.values()),
+    faults: Array.from(state.faults.values()),
+  };
+}
+
+export function restoreState(checkpoint: StateCheckpoint): SimulationState {
+  const byId = <T extends { id: string }>(items: T[]) => new Map(items.map(item => [item.id, item]));
+  return {
+    ...checkpoint,
+    robots: byId(checkpoint.robots),
+    objects: byId(checkpoint.objects),
+    zones: byId(checkpoint.zones),
+    obstacles: byId(checkpoint.obstacles),
+    tasks: byId(checkpoint.tasks),
+    schedules: byId(checkpoint.schedules),
+    faults: byId(checkpoint.faults),
+  };
+}
+
+/**
+ * Advance the world by one step of `deltaTime` simulated seconds.
+ * Pure engine code — no sockets, no wall clock — so the same state and
+ * step sequence always yields the same result.
+ */
+export function stepSimulation(state: SimulationState, deltaTime: number): void {
+  state.tick++;
+  state.simTime += deltaTime * 1000;
+  
+  // Update all robots
+  pruneReservations(state);
+  updateRestrictedAreas(state);
+  updateZoneTraffic(state);
+  runChaos(state, deltaTime);
+  runMaintenance(state, deltaTime);
+  for (const robot of state.robots.values()) {
+    updateRobot(robot, state, deltaTime);
+  }
+  trackNearMisses(state);
+  runSchedules(state);
+  
+  // Auto-assign pending tasks, most urgent first
+  dispatchTasks(state);
+
+  state.metrics.atRiskTasks = Array.from(state.tasks.values()).filter(t => isAtRisk(t, state)).length;
+}
+
+// ============================================
+// COMMANDS (shared by socket handlers and the batch runner)
+// ============================================
+
+export interface ZoneInput {
+  id: string;
+  name: string;
+  type: string;
+  bounds: { x: number; y: number; width: number; height: number };
+  color: string;
+  capacity?: number;
+  maxRobots?: number | null;
+  direction?: LaneDirection | null;
+  activeFrom?: number | null;
+  activeUntil?: number | null;
+  chargingDocks?: number | null;
+  chargingPower?: number | null;
+}
+
+function getAvailableRobots(state: SimulationState): Robot[] {
+  return Array.from(state.robots.values())
+    .filter(r => r.status === 'IDLE' && r.battery > 30 && !r.currentTaskId && !r.serviceDue);
+}
+
+export function setSpeed(state: SimulationState, multiplier: number): number {
+  state.timeMultiplier = clamp(multiplier, 0.1, 10);
+  return state.timeMultiplier;
+}
+
+/**
+ * Create a pick-and-place task, assigning it immediately if a specific idle
+ * robot is requested and it isn't waiting on `dependsOn` or `earliestStart`.
+ * Unassigned tasks are dispatched by `priority` (NORMAL by default) and
+ * `dueBy`; both times are on the sim clock.
+ */
+export function createTask(
+  state: SimulationState,
+  data: {
+    objectId: string;
+    targetZoneId: string;
+    robotId?: string;
+    dependsOn?: string[];
+    priority?: TaskPriority;
+  } & TaskWindowInput
+): { task: Task; assignedRobot: Robot | null } {
+  if (data.priority !== undefined && !(data.priority in PRIORITY_RANK)) {
+    throw new Error(`Unknown task priority: ${data.priority}`);
+  }
+  if (data.dependsOn) assertDependable(data.dependsOn, state);
+  const task = createPickAndPlaceTask(data.objectId, data.targetZoneId, state, data);
+  if (data.priority) task.priority = data.priority;
+  if (data.dependsOn?.length) setTaskDependencies(state, task.id, data.dependsOn);
+  
+  if (task.status === 'PENDING' && isStartable(task, state) && data.robotId && data.robotId !== 'auto') {
+    const robot = state.robots.get(data.robotId);
+    if (robot && robot.status === 'IDLE' && robot.battery > 30 && !robot.currentTaskId && !robot.serviceDue && canCarryTask(robot, task, state)) {
+      assignTaskToRobot(task, robot, state);
+      return { task, assignedRobot: robot };
+    }
+  }
+  
+  return { task, assignedRobot: null };
+}
+
+/** Remove and return the first robot in `robots` that can carry the task's load */
+function takeRobotFor(task: Task, robots: Robot[], state: SimulationState): Robot | null {
+  const index = robots.findIndex(r => !r.currentTaskId && canCarryTask(r, task, state));
+  return index === -1 ? null : robots.splice(index, 1)[0];
+}
+
+/**
+ * Create tasks for multiple objects at once, assigning to idle robots in order.
+ * With `batch`, objects in the same zone are combined into multi-object pickups.
+ */
+export function createBulkTasks(
+  state: SimulationState,
+  data: { objectIds: string[]; targetZoneId: string; autoAssign?: boolean; batch?: boolean } & TaskWindowInput
+): { tasks: Task[]; assignedCount: number } {
+  const tasks: Task[] = [];
+  const availableRobots = getAvailableRobots(state);
+  
+  let assignedCount = 0;
+  
+  const loads = data.batch ? planBatchLoads(data.objectIds, state) : data.objectIds.map(id => [id]);
+
+  // Check the whole batch before creating any task, so an object that can't go doesn't leave the rest half queued
+  const targetZone = state.zones.get(data.targetZoneId);
+  const objects = loads.flat().map(id => state.objects.get(id));
+  if (!targetZone || objects.some(obj => !obj)) throw new Error('Invalid object or zone');
+  const heavy = (objects as ConstructionObject[]).find(obj => !isCarriable([obj], state));
+  if (heavy) throw new Error(`No robot can carry ${heavy.name} (${heavy.weight} kg)`);
+  assertRoom(targetZone, objects as ConstructionObject[]);
+  taskWindow(data);
+
+  for (const load of loads) {
+    const task = load.length === 1
+      ? createPickAndPlaceTask(load[0], data.targetZoneId, state, data)
+      : createBatchPickTask(load, data.targetZoneId, state, data);
+    tasks.push(task);
+    
+    if (data.autoAssign !== false && isStartable(task, state)) {
+      const robot = takeRobotFor(task, availableRobots, state);
+      if (robot) {
+        assignTaskToRobot(task, robot, state);
+        assignedCount++;
+      }
+    }
+  }
+  
+  return { tasks, assignedCount };
+}
+
+/** Assign freshly created tasks that may start now to idle robots in order (skipping robots too weak for a task) */
+function assignToAvailableRobots(tasks: Task[], state: SimulationState): number {
+  const availableRobots = getAvailableRobots(state);
+  let assigned = 0;
+  for (const task of tasks) {
+    if (task.status !== 'PENDING' || !isStartable(task, state)) continue;
+    const robot = takeRobotFor(task, availableRobots, state);
+    if (robot) {
+      assignTaskToRobot(task, robot, state);
+      assigned++;
+    }
+  }
+  return assigned;
+}
+
+export function sortObjects(
+  state: SimulationState,
+  data: { objectIds: string[]; targetZoneId: string } & TaskWindowInput
+): { tasks: Task[]; assignedCount: number } {
+  const tasks = createSortTask(data.objectIds, data.targetZoneId, state, data);
+  return { tasks, assignedCount: assignToAvailableRobots(tasks, state) };
+}
+
+export function assembleObjects(
+  state: SimulationState,
+  data: { objectIds: string[]; assemblyZoneId: string; sequential?: boolean } & TaskWindowInput
+): { tasks: Task[]; assignedCount: number } {
+  const tasks = createAssembleTask(data.objectIds, data.assemblyZoneId, state, data.sequential, data);
+  return { tasks, assignedCount: assignToAvailableRobots(tasks, state) };
+}
+
+export function cancelTask(state: SimulationState, taskId: string): Task | null {
+  const task = state.tasks.get(taskId);
+  if (!task) return null;
+  if (!OPEN_STATUSES.has(task.status)) throw new Error(`Task ${task.id} is already ${task.status.toLowerCase()}`);
+  
+  task.status = 'CANCELLED';
+  releaseSlots(task, state);
+  failDependents(task, state);
+  if (task.assignedRobotId) {
+    // A finished or failed attempt leaves the robot named on the task, by now maybe on other work
+    const robot = state.robots.get(task.assignedRobotId);
+    if (robot?.currentTaskId === task.id) {
+      robot.currentTaskId = null;
+      robot.status = 'IDLE';
+      clearRobotPath(robot, state);
+      releaseCarried(robot, state);
+      releaseDock(robot, state); // a cancelled CHARGE task gives up its dock or queue place
+    }
+  }
+  return task;
+}
+
+export function moveRobot(state: SimulationState, robotId: string, target: Vector2D): void {
+  const robot = state.robots.get(robotId);
+  if (robot && isDown(robot)) throw new Error(`${robot.name} is ${robot.status === 'ERROR' ? 'broken down' : 'in maintenance'}`);
+  if (robot && !robot.currentTaskId) {
+    releaseDock(robot, state);
+    if (!planRobotPath(robot, target, state)) {
+      robot.status = 'IDLE';
+      throw new Error(`No path for ${robot.name} to (${Math.round(target.x)}, ${Math.round(target.y)})`);
+    }
+    robot.status = 'MOVING';
+  }
+}
+
+export function stopRobot(state: SimulationState, robotId: string): void {
+  const robot = state.robots.get(robotId);
+  if (robot && !isDown(robot)) {
+    clearRobotPath(robot, state);
+    releaseDock(robot, state);
+    robot.status = 'IDLE';
+  }
+}
+
+/** AI auto-scheduling: create tasks for idle robots if none are pending, then assign */
+export function aiSchedule(state: SimulationState): { tasksCreated: number; tasksAssigned: number } {
+  // Find all pending tasks and available robots
+  let pendingTasks = dispatchQueue(state);
+  let tasksCreated = 0;
+
+  const availableRobots = Array.from(state.robots.values())
+    .filter(r => r.status === 'IDLE' && r.battery > 30 && r.currentTaskId === null && !r.serviceDue);
+
+  // If no pending tasks exist, auto-create pick-and-place tasks for available objects
+  if (pendingTasks.length === 0 && availableRobots.length > 0) {
+    const availableObjects = Array.from(state.objects.values())
+      .filter(o => o.status === 'AVAILABLE');
+    const targetZones = Array.from(state.zones.values())
+      .filter(z => z.type === 'ASSEMBLY_AREA' || z.type === 'STAGING_ZONE' || z.type === 'WORK_ZONE');
+
+    if (availableObjects.length > 0 && targetZones.length > 0) {
+      const tasksToCreate = Math.min(availableObjects.length, availableRobots.length);
+      const createdTasks: Task[] = [];
+
+      for (let i = 0; i < tasksToCreate; i++) {
+        const obj = availableObjects[i];
+        // Pick a target zone different from where the object currently is
+        let targetZone = targetZones[i % targetZones.length];
+        // Avoid placing in same zone — find a different one with room
+        for (const z of targetZones) {
+          if (!isInsideBounds(obj.pose, z.bounds) && !slotLimitReason(z, [obj])) {
+            targetZone = z;
+            break;
+          }
+        }
+        try {
+          const task = createPickAndPlaceTask(obj.id, targetZone.id, state);
+          task.aiScore = 0.9;
+          task.aiReasoning = `AI auto-created: Move ${obj.name} → ${targetZone.name}`;
+          createdTasks.push(task);
+        } catch {
+          continue;
+        }
+      }
+
+      pendingTasks = createdTasks;
+      tasksCreated = createdTasks.length;
+    }
+  }
+
+  // Assign pending tasks to best available robots
+  let tasksAssigned = 0;
+  for (const task of pendingTasks) {
+    const robot = findBestRobotForTask(task, state);
+    if (robot) {
+      task.aiScore = task.aiScore || 0.85;
+      task.aiReasoning = task.aiReasoning || `Assigned to ${robot.name}: Battery ${Math.round(robot.battery)}%, Distance optimal`;
+      assignTaskToRobot(task, robot, state);
+      tasksAssigned++;
+    }
+  }
+
+  return { tasksCreated, tasksAssigned };
+}
+
+export function createObject(
+  state: SimulationState,
+  data: { type: ObjectType; zoneId: string }
+): ConstructionObject {
+  const zone = state.zones.get(data.zoneId);
+  if (!zone) {
+    throw new Error('Invalid zone');
+  }
+
+  const objConfig = OBJECT_TYPE_CONFIGS[data.type];
+  if (!objConfig) {
+    throw new Error('Invalid object type');
+  }
+  
+  const obj: ConstructionObject = {
+    id: `obj-${generateId(state)}`,
+    type: data.type,
+    name: `${data.type.replace(/_/g, ' ')}`,
+    pose: { x: 0, y: 0, rotation: 0 }, // lined up in its slot by stowObject
+    dimensions: objConfig.dimensions,
+    weight: objConfig.weight,
+    status: 'AVAILABLE',
+    pickedBy: null,
+    targetZone: null,
+    color: objConfig.color,
+    ...rollCondition(state),
+  };
+  
+  assertRoom(zone, [obj]);
+  receiveObject(obj, zone, state);
+  
+  return obj;
+}
+
+/** Replace the site layout with user-provided zones, regenerate materials and respawn robots */
+export interface ObstacleInput {
+  type?: Obstacle['type'];
+  pose: { x: number; y: number; rotation?: number };
+  dimensions: { width: number; height: number };
+  isTemporary?: boolean;
+}
+
+const OBSTACLE_TYPES: Obstacle['type'][] = ['WALL', 'PILLAR', 'EQUIPMENT', 'SCAFFOLDING', 'TEMPORARY_BARRIER'];
+
+function validateObstacle(obstacle: Obstacle): void {
+  if (!OBSTACLE_TYPES.includes(obstacle.type)) {
+    throw new Error(`Invalid obstacle type: ${obstacle.type}`);
+  }
+  if (!(obstacle.dimensions.width > 0) || !(obstacle.dimensions.height > 0)) {
+    throw new Error('Obstacle width and height must be positive');
+  }
+  if (!Number.isFinite(obstacle.pose.x) || !Number.isFinite(obstacle.pose.y)) {
+    throw new Error('Obstacle position is invalid');
+  }
+}
+
+/** Axis-aligned bounds of an obstacle */
+function obstacleBounds(obstacle: Obstacle): Zone['bounds'] {
+  return {
+    x: obstacle.pose.x - obstacle.dimensions.width / 2,
+    y: obstacle.pose.y - obstacle.dimensions.height / 2,
+    width: obstacle.dimensions.width,
+    height: obstacle.dimensions.height
+  };
+}
+
+/** `bounds` grown by `margin` on every side */
+function growBounds(bounds: Zone['bounds'], margin: number): Zone['bounds'] {
+  return {
+    x: bounds.x - margin,
+    y: bounds.y - margin,
+    width: bounds.width + margin * 2,
+    height: bounds.height + margin * 2
+  };
+}
+
+/** Liang–Barsky: whether segment a→b passes through `rect` */
+function segmentIntersectsRect(a: Vector2D, b: Vector2D, rect: { x: number; y: number; width: number; height: number }): boolean {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  let t0 = 0;
+  let t1 = 1;
+  const edges: Array<[number, number]> = [
+    [-dx, a.x - rect.x],
+    [dx, rect.x + rect.width - a.x],
+    [-dy, a.y - rect.y],
+    [dy, rect.y + rect.height - a.y]
+  ];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return false;
+    } else {
+      const t = q / p;
+      if (p < 0) t0 = Math.max(t0, t);
+      else t1 = Math.min(t1, t);
+      if (t0 > t1) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Replan every robot whose remaining path runs through any of the `changed`
+ * areas (e.g. old and new footprints of an edited obstacle), or within `slack`
+ * px of one. A robot that can no longer reach its destination fails its task
+ * (the reason names the `change`), or stops if it had none. Returns the ids of
+ * the robots that replanned.
+ */
+function replanThrough(state: SimulationState, changed: Array<Zone['bounds']>, change: string, slack = 0): string[] {
+  const replanned: string[] = [];
+
+  for (const robot of state.robots.values()) {
+    if (robot.path.length === 0 || robot.pathIndex >= robot.path.length) continue;
+
+    const margin = ROBOT_FOOTPRINT_RADIUS[robot.type] + slack;
+    const remaining = [robot.pose, ...robot.path.slice(robot.pathIndex)];
+    const crosses = changed.some(area => {
+      const bounds = growBounds(area, margin);
+      return remaining.some((point, i) => i > 0 && segmentIntersectsRect(remaining[i - 1], point, bounds));
+    });
+    if (!crosses) continue;
+
+    const destination = robot.path[robot.path.length - 1];
+    replanned.push(robot.id);
+    if (!planRobotPath(robot, destination, state)) {
+      const task = robot.currentTaskId ? state.tasks.get(robot.currentTaskId) : null;
+      if (task) {
+        failTask(task, robot, state, `No path to (${Math.round(destination.x)}, ${Math.round(destination.y)}) after ${change}`);
+      } else {
+        robot.status = 'IDLE';
+      }
+    }
+  }
+
+  return replanned;
+}
+
+export function createObstacle(state: SimulationState, data: ObstacleInput): { obstacle: Obstacle; replanned: string[] } {
+  const obstacle: Obstacle = {
+    id: `obstacle-${generateId(state)}`,
+    type: data.type ?? 'TEMPORARY_BARRIER',
+    pose: { x: data.pose?.x, y: data.pose?.y, rotation: data.pose?.rotation ?? 0 },
+    dimensions: { width: data.dimensions?.width, height: data.dimensions?.height },
+    isTemporary: data.isTemporary ?? true
+  };
+  validateObstacle(obstacle);
+
+  state.obstacles.set(obstacle.id, obstacle);
+  return { obstacle, replanned: replanThrough(state, [obstacleBounds(obstacle)], 'obstacle change') };
+}
+
+export function updateObstacle(
+  state: SimulationState,
+  data: { id: string } & Partial<ObstacleInput>
+): { obstacle: Obstacle; replanned: string[] } {
+  const existing = state.obstacles.get(data.id);
+  if (!existing) {
+    throw new Error(`Obstacle ${data.id} not found`);
+  }
+
+  const obstacle: Obstacle = {
+    ...existing,
+    type: data.type ?? existing.type,
+    pose: { ...existing.pose, ...data.pose },
+    dimensions: { ...existing.dimensions, ...data.dimensions },
+    isTemporary: data.isTemporary ?? existing.isTemporary
+  };
+  validateObstacle(obstacle);
+
+  state.obstacles.set(obstacle.id, obstacle);
+  return { obstacle, replanned: replanThrough(state, [obstacleBounds(existing), obstacleBounds(obstacle)], 'obstacle change') };
+}
+
+export function removeObstacle(state: SimulationState, obstacleId: string): { obstacleId: string; replanned: string[] } {
+  const existing = state.obstacles.get(obstacleId);
+  if (!existing) {
+    throw new Error(`Obstacle ${obstacleId} not found`);
+  }
+
+  state.obstacles.delete(obstacleId);
+  // Paths hugging it were likely detours that now have a shorter way through
+  return { obstacleId, replanned: replanThrough(state, [obstacleBounds(existing)], 'obstacle change', PATH_GRID) };
+}
+
+export function updateZones(state: SimulationState, zones: ZoneInput[]): void {
+  if (!zones || zones.length === 0) {
+    throw new Error('No zones provided');
+  }
+
+  // Stop any active tasks. Robots let go of their loads without setting them
+  // down, as the objects they hold don't outlive the regeneration below
+  for (const robot of state.robots.values()) {
+    emptyRobotLoad(robot);
+    clearRobotPath(robot, state);
+    robot.currentTaskId = null;
+  }
+  for (const [, task] of state.tasks) {
+    if (task.status === 'IN_PROGRESS' || task.status === 'ASSIGNED') {
+      task.status = 'FAILED';
+    }
+  }
+  state.tasks.clear();
+  clearFaults(state);
+
+  // Clear existing zones and objects
+  state.zones.clear();
+  state.objects.clear();
+
+  // Set new zones from client
+  for (const zoneData of zones) {
+    const zone: Zone = {
+      id: zoneData.id,
+      name: zoneData.name,
+      type: zoneData.type as ZoneType,
+      bounds: zoneData.bounds,
+      color: zoneData.color,
+      capacity: zoneData.capacity || 15,
+      currentOccupancy: 0,
+      objects: [],
+      slots: [],
+      maxRobots: zoneData.maxRobots ?? null,
+      direction: zoneData.direction ?? null,
+      activeFrom: zoneData.activeFrom ?? null,
+      activeUntil: zoneData.activeUntil ?? null,
+      robots: [],
+      queue: []
+    };
+    if (zone.type === 'CHARGING_STATION') {
+      zone.docks = new Array<string | null>(Math.max(1, zoneData.chargingDocks ?? DEFAULT_CHARGING_DOCKS)).fill(null);
+      zone.chargeQueue = [];
+      zone.chargingPower = zoneData.chargingPower ?? DEFAULT_CHARGING_POWER;
+    }
+    state.zones.set(zone.id, zone);
+  }
+
+  // Generate objects for material zones; the ledger starts over with them
+  state.movements = [];
+  generateObjectsForZones(state);
+
+  // Reposition robots to ROBOT_HOME or CHARGING_STATION zone
+  const homeZone = Array.from(state.zones.values()).find(z => z.type === 'ROBOT_HOME');
+  const chargingZone = Array.from(state.zones.values()).find(z => z.type === 'CHARGING_STATION');
+  const spawnZone = homeZone || chargingZone;
+
+  for (const [, robot] of state.robots) {
+    // Reset robot state; wear carries over, so a due robot still goes for service
+    robot.status = 'IDLE';
+    robot.fault = null;
+    robot.serviceEndsAt = null;
+    robot.uptime = { up: 0, fault: 0, maintenance: 0 };
+
+    if (spawnZone) {
+      robot.pose.x = spawnZone.bounds.x + 20 + random(state) * Math.max(10, spawnZone.bounds.width - 40);
+      robot.pose.y = spawnZone.bounds.y + 20 + random(state) * Math.max(10, spawnZone.bounds.height - 40);
+    } else {
+      // Fallback to center of canvas
+      robot.pose.x = 500 + random(state) * 100 - 50;
+      robot.pose.y = 400 + random(state) * 100 - 50;
+    }
+  }
+
+  // Update dimensions based on zones
+  const maxX = Math.max(...zones.map(z => z.bounds.x + z.bounds.width), 1000);
+  const maxY = Math.max(...zones.map(z => z.bounds.y + z.bounds.height), 800);
+  state.dimensions.width = maxX;
+  state.dimensions.height = maxY;
+
+  // Reset metrics
+  state.metrics = {
+    totalTasksCreated: 0,
+    totalTasksCompleted: 0,
+    totalTasksFailed: 0,
+    averageTaskTime: 0,
+    fleetEfficiency: 0,
+    pickSuccessRate: 0,
+    nearMisses: 0,
+    restrictedAreaViolations: 0,
+    onTimeTasks: 0,
+    lateTasks: 0,
+    onTimeRate: 1,
+    averageLateness: 0,
+    atRiskTasks: 0,
+    inspectionsPassed: 0,
+    inspectionsFailed: 0,
+    defectsDetected: 0,
+    defectsMissed: 0,
+    faultsInjected: 0,
+    taskRetries: 0,
+    faultsRaised: 0,
+    servicesCompleted: 0,
+    faultDowntime: 0,
+    maintenanceDowntime: 0,
+    fleetAvailability: 1
+  };
+}
+
+/** Payload of each inbound command, by its socket event name */
+export interface CommandPayloads {
+  'simulation:speed': { multiplier: number };
+  'task:create': Parameters<typeof createTask>[1];
+  'task:create-bulk': Parameters<typeof createBulkTasks>[1];
+  'task:cancel': { taskId: string };
+  'task:set-dependencies': { taskId: string; dependsOn: string[] };
+  'task:sort': Parameters<typeof sortObjects>[1];
+  'task:assemble': Parameters<typeof assembleObjects>[1];
+  'task:patrol': PatrolInput;
+  'task:transport': TransportInput;
+  'task:charge': ChargeInput;
+  'quality:configure': Partial<QualitySettings>;
+  'chaos:configure': ChaosInput;
+  'fault:inject': Parameters<typeof injectFault>[1];
+  'maintenance:configure': Partial<MaintenanceSettings>;
+  'robot:acknowledge-fault': { robotId: string };
+  'robot:service': { robotId: string };
+  'schedule:upsert': ScheduleInput;
+  'schedule:remove': { scheduleId: string };
+  'robot:move': { robotId: string; target: Vector2D };
+  'robot:stop': { robotId: string };
+  'ai:schedule': Record<string, never>;
+  'object:create': Parameters<typeof createObject>[1];
+  'obstacle:create': ObstacleInput;
+  'obstacle:update': Parameters<typeof updateObstacle>[1];
+  'obstacle:remove': { obstacleId: string };
+  'zones:update': { zones: ZoneInput[] };
+}
+
+export type CommandEvent = keyof CommandPayloads;
+
+export type Command = { [E in CommandEvent]: { event: E; payload: CommandPayloads[E] } }[CommandEvent];
+
+type PayloadField = 'string' | 'number' | 'array' | 'object';
+
+// Fields each command can't do without; the handlers check values and optional fields
+const COMMAND_FIELDS: Record<CommandEvent, Record<string, PayloadField>> = {
+  'simulation:speed': { multiplier: 'number' },
+  'task:create': { objectId: 'string', targetZoneId: 'string' },
+  'task:create-bulk': { objectIds: 'array', targetZoneId: 'string' },
+  'task:cancel': { taskId: 'string' },
+  'task:set-dependencies': { taskId: 'string', dependsOn: 'array' },
+  'task:sort': { objectIds: 'array', targetZoneId: 'string' },
+  'task:assemble': { objectIds: 'array', assemblyZoneId: 'string' },
+  'task:patrol': { checkpoints: 'array' },
+  'task:transport': { sourceZoneId: 'string', targetZoneId: 'string' },
+  'task:charge': {},
+  'quality:configure': {},
+  'chaos:configure': {},
+  'fault:inject': { kind: 'string' },
+  'maintenance:configure': {},
+  'robot:acknowledge-fault': { robotId: 'string' },
+  'robot:service': { robotId: 'string' },
+  'schedule:upsert': { name: 'string', cron: 'string', template: 'object' },
+  'schedule:remove': { scheduleId: 'string' },
+  'robot:move': { robotId: 'string', target: 'object' },
+  'robot:stop': { robotId: 'string' },
+  'ai:schedule': {},
+  'object:create': { type: 'string', zoneId: 'string' },
+  'obstacle:create': { pose: 'object', dimensions: 'object' },
+  'obstacle:update': { id: 'string' },
+  'obstacle:remove': { obstacleId: 'string' },
+  'zones:update': { zones: 'array' },
+};
+
+function isPayloadField(value: unknown, field: PayloadField): boolean {
+  if (field === 'array') return Array.isArray(value);
+  if (field === 'object') return typeof value === 'object' && value !== null && !Array.isArray(value);
+  return typeof value === field && (field !== 'number' || Number.isFinite(value));
+}
+
+/**
+ * Check a command from outside the type system (a batch scenario file): the
+ * event must be known and the payload must carry the fields it needs, so a
+ * bad command is refused by name instead of failing inside its handler.
+ */
+export function parseCommand(event: unknown, payload: unknown = {}): Command {
+  if (typeof event !== 'string' || !(event in COMMAND_FIELDS)) {
+    throw new Error(`Unknown command: ${String(event)}`);
+  }
+  if (!isPayloadField(payload, 'object')) throw new Error(`${event} payload must be an object`);
+  for (const [name, field] of Object.entries(COMMAND_FIELDS[event as CommandEvent])) {
+    if (!isPayloadField((payload as Record<string, unknown>)[name], field)) {
+      throw new Error(`${event} payload needs ${name} (${field})`);
+    }
+  }
+  return { event, payload } as Command;
+}
+
+/**
+ * Apply an inbound command by its socket event name. Lets non-socket
+ * callers (batch scenarios) drive the engine with the same payloads.
+ */
+export function applyCommand(state: SimulationState, command: Command): unknown {
+  const { event, payload } = command;
+  switch (event) {
+    case 'simulation:speed':
+      return setSpeed(state, payload.multiplier);
+    case 'task:create':
+      return createTask(state, payload);
+    case 'task:create-bulk':
+      return createBulkTasks(state, payload);
+    case 'task:cancel':
+      return cancelTask(state, payload.taskId);
+    case 'task:set-dependencies':
+      return setTaskDependencies(state, payload.taskId, payload.dependsOn);
+    case 'task:sort':
+      return sortObjects(state, payload);
+    case 'task:assemble':
+      return assembleObjects(state, payload);
+    case 'task:patrol':
+      return createPatrolTask(state, payload);
+    case 'task:transport':
+      return createTransportTasks(state, payload);
+    case 'task:charge':
+      return createChargeTask(state, payload);
+    case 'quality:configure':
+      return configureQuality(state, payload);
+    case 'chaos:configure':
+      return configureChaos(state, payload);
+    case 'fault:inject':
+      return injectFault(state, payload);
+    case 'maintenance:configure':
+      return configureMaintenance(state, payload);
+    case 'robot:acknowledge-fault':
+      return acknowledgeFault(state, payload.robotId);
+    case 'robot:service':
+      return requestService(state, payload.robotId);
+    case 'schedule:upsert':
+      return upsertSchedule(state, payload);
+    case 'schedule:remove':
+      return removeSchedule(state, payload.scheduleId);
+    case 'robot:move':
+      return moveRobot(state, payload.robotId, payload.target);
+    case 'robot:stop':
+      return stopRobot(state, payload.robotId);
+    case 'ai:schedule':
+      return aiSchedule(state);
+    case 'object:create':
+      return createObject(state, payload);
+    case 'obstacle:create':
+      return createObstacle(state, payload);
+    case 'obstacle:update':
+      return updateObstacle(state, payload);
+    case 'obstacle:remove':
+      return removeObstacle(state, payload.obstacleId);
+    case 'zones:update':
+      return updateZones(state, payload.zones);
+    default:
+      throw new Error(`Unknown command: ${event}`);
+  }
+}
@@ -0,0 +1,345 @@
+/**
+ * ArcSpatial Intelligence - Simulation Instance
+ * One independent simulation per Environment: its own state, tick loop,
+ * session log, checkpoint, delta streams and Socket.IO room. Commands from a
+ * client only ever touch the instance that client joined.
+ */
+
+import { Server, Socket } from 'socket.io';
+import {
+  TICK_INTERVAL,
+  FIXED_TIMESTEP,
+  SimulationState,
+  createInitialState,
+  restoreState,
+  serializeState,
+  simNow,
+  stepSimulation,
+  updateZones,
+  upsertSchedule,
+} from './simulation-engine';
+import { EnvironmentBlueprint } from './environment-loader';
+import { SessionRecorder } from './session-recorder';
+import { CheckpointFile, saveCheckpoint, saveCheckpointSync } from './checkpoint-store';
+import { InventorySync } from './inventory-sync';
+import {
+  DeltaEncoder,
+  FULL_STATE_ROOM,
+  StateEncoding,
+  StateSnapshot,
+  SubscribeOptions,
+  deltaRoom,
+  encodeDelta,
+} from './state-stream';
+
+/** Instance used by clients that connect without an environment id */
+export const DEFAULT_ENVIRONMENT_ID = 'default';
+
+const STATE_ENCODINGS: StateEncoding[] = ['json', 'msgpack'];
+
+export class SimulationInstance {
+  state: SimulationState;
+  private interval: NodeJS.Timeout | null = null;
+  private lastTickTime = Date.now();
+  private stepAccumulator = 0;
+  private recorder: SessionRecorder;
+  private checkpointTick = -1;
+  private checkpointDirty = false;
+  private checkpointing = false;
+  private inventory: InventorySync | null = null; // stored environments only
+  private inventorySyncing = false;
+  // One encoder per delta stream variant; the encoding only changes the wire format
+  private deltaEncoders = [new DeltaEncoder(false), new DeltaEncoder(true)];
+
+  /**
+   * `blueprint` is the stored Environment the world is built from; null for the built-in site.
+   * With a `checkpoint` the instance continues that run (and its session log) instead,
+   * and picks its tick loop back up if it was running.
+   */
+  constructor(
+    private io: Server,
+    readonly environmentId: string,
+    private blueprint: EnvironmentBlueprint | null,
+    seed: number | null,
+    checkpoint: CheckpointFile | null = null,
+  ) {
+    if (checkpoint) {
+      this.state = restoreState(checkpoint.state);
+      this.recorder = new SessionRecorder(this.state, environmentId, checkpoint.sessionId);
+      this.checkpointTick = this.state.tick;
+      if (this.state.status === 'RUNNING') this.startLoop();
+    } else {
+      this.state = this.buildState(seed);
+      this.recorder = new SessionRecorder(this.state, environmentId);
+    }
+    if (blueprint && blueprint.zones.length > 0) {
+      this.inventory = new InventorySync(environmentId, new Set(blueprint.zones.map(z => z.id)), !checkpoint);
+    }
+  }
+
+  /** Socket.IO room shared by every client of this environment */
+  get room(): string {
+    return `env:${this.environmentId}`;
+  }
+
+  get clientCount(): number {
+    return this.roomSize(this.room);
+  }
+
+  emit(event: string, payload?: unknown): void {
+    this.io.to(this.room).emit(event, payload);
+  }
+
+  // ============================================
+  // CLIENTS
+  // ============================================
+
+  addClient(socket: Socket, options: SubscribeOptions = {}): void {
+    socket.join(this.room);
+    this.subscribe(socket, options);
+  }
+
+  removeClient(socket: Socket): void {
+    this.leaveStateRooms(socket);
+    socket.leave(this.room);
+  }
+
+  /** Switch a client between the full-state and delta streams */
+  subscribe(socket: Socket, options: SubscribeOptions = {}): void {
+    this.leaveStateRooms(socket);
+
+    if (options.mode !== 'delta') {
+      socket.join(this.stateRoom(FULL_STATE_ROOM));
+      socket.emit('simulation:state', serializeState(this.state));
+      return;
+    }
+
+    const encoding: StateEncoding = options.encoding === 'msgpack' ? 'msgpack' : 'json';
+    const encoder = this.deltaEncoders.find(e => e.lidar === Boolean(options.lidar))!;
+
+    // Bring the stream up to date first so the snapshot is the current state
+    this.publishDelta(encoder, serializeState(this.state));
+    socket.join(this.stateRoom(deltaRoom(encoding, encoder.lidar)));
+    socket.emit('simulation:snapshot', encoder.snapshot());
+  }
+
+  recordCommand(event: string, payload: unknown, socketId: string): void {
+    this.recorder.recordCommand(this.state, event, payload, socketId);
+    this.checkpointDirty = true;
+  }
+
+  // ============================================
+  // LIFECYCLE
+  // ============================================
+
+  /** Returns false if the simulation was already running */
+  start(): boolean {
+    if (this.state.status === 'RUNNING') return false;
+
+    this.state.status = 'RUNNING';
+    this.state.startTime = Date.now();
+    this.startLoop();
+    return true;
+  }
+
+  /** Returns false if the simulation was not running */
+  pause(): boolean {
+    if (this.state.status !== 'RUNNING') return false;
+    this.state.status = 'PAUSED';
+    return true;
+  }
+
+  stop(): void {
+    this.state.status = 'STOPPED';
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  reset(seed: number | null): void {
+    this.state = this.buildState(seed);
+    this.stepAccumulator = 0;
+    this.recorder.close();
+    this.recorder = new SessionRecorder(this.state, this.environmentId);
+    this.checkpointDirty = true;
+    this.inventory?.startRun();
+    this.broadcastState();
+  }
+
+  /** Force a session frame, e.g. after the world was rebuilt outside the tick loop */
+  recordFrame(): void {
+    this.recorder.recordFrame(this.state, true);
+  }
+
+  /** Release an idle instance; its checkpoint lets it pick up again on the next join */
+  dispose(): void {
+    this.stop();
+    this.checkpointSync();
+    this.recorder.close();
+  }
+
+  /** Process exit: save without changing status so a running simulation resumes on boot */
+  shutdown(): Promise<void> {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    this.checkpointSync();
+    return this.recorder.close();
+  }
+
+  // ============================================
+  // CHECKPOINTS
+  // ============================================
+
+  /** Save if anything changed since the last checkpoint; skipped while a save is still in flight */
+  async checkpoint(): Promise<void> {
+    if (this.checkpointing) return;
+    if (!this.checkpointDirty && this.state.tick === this.checkpointTick) return;
+
+    this.checkpointing = true;
+    this.checkpointDirty = false;
+    this.checkpointTick = this.state.tick;
+    try {
+      await saveCheckpoint(this.environmentId, this.state, this.recorder.header.id, this.blueprint);
+    } catch (error) {
+      this.checkpointDirty = true;
+      console.error(`Error saving checkpoint for ${this.environmentId}:`, error);
+    } finally {
+      this.checkpointing = false;
+    }
+  }
+
+  /** Write changed objects, zone occupancy and new ledger entries to the database; skipped while a sync is in flight */
+  async syncInventory(): Promise<void> {
+    if (!this.inventory || this.inventorySyncing) return;
+
+    this.inventorySyncing = true;
+    try {
+      await this.inventory.sync(this.state);
+    } catch (error) {
+      console.error(`Error syncing inventory for ${this.environmentId}:`, error);
+    } finally {
+      this.inventorySyncing = false;
+    }
+  }
+
+  private checkpointSync(): void {
+    try {
+      saveCheckpointSync(this.environmentId, this.state, this.recorder.header.id, this.blueprint);
+    } catch (error) {
+      console.error(`Error saving checkpoint for ${this.environmentId}:`, error);
+    }
+  }
+
+  private startLoop(): void {
+    this.lastTickTime = Date.now();
+    this.stepAccumulator = 0;
+    if (!this.interval) {
+      this.interval = setInterval(() => this.tick(), TICK_INTERVAL);
+    }
+  }
+
+  private buildState(seed: number | null): SimulationState {
+    const state = createInitialState(seed);
+    if (this.blueprint) {
+      state.name = this.blueprint.name;
+      if (this.blueprint.zones.length > 0) {
+        updateZones(state, this.blueprint.zones);
+      }
+      for (const schedule of this.blueprint.schedules) {
+        try {
+          upsertSchedule(state, schedule);
+        } catch (error) {
+          console.warn(`⚠️ Skipping schedule "${schedule.name}" of ${this.environmentId}:`, (error as Error).message);
+        }
+      }
+    }
+    return state;
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastTickTime) / 1000;
+    this.lastTickTime = now;
+
+    if (this.state.status !== 'RUNNING') return;
+
+    const tickStartedAt = simNow(this.state);
+
+    if (this.state.seed === null) {
+      // Real-time mode: one variable step scaled by the wall-clock delta
+      stepSimulation(this.state, elapsed * this.state.timeMultiplier);
+    } else {
+      // Seeded mode: fixed steps only; speed changes how many steps run per tick
+      this.stepAccumulator += this.state.timeMultiplier;
+      while (this.stepAccumulator >= 1) {
+        stepSimulation(this.state, FIXED_TIMESTEP);
+        this.stepAccumulator -= 1;
+      }
+    }
+
+    this.recorder.recordFrame(this.state);
+
+    // Emit failure events for tasks that failed during this tick
+    for (const task of this.state.tasks.values()) {
+      if (task.status === 'FAILED' && task.completedAt !== null && task.completedAt >= tickStartedAt) {
+        this.emit('task:failed', {
+          taskId: task.id,
+          reason: task.failureReason,
+          retryCount: task.retryCount,
+          objectId: task.objectId
+        });
+      }
+    }
+
+    this.broadcastState();
+  }
+
+  // ============================================
+  // STATE BROADCAST
+  // ============================================
+
+  /** Full state to legacy clients, deltas to subscribed ones */
+  broadcastState(): void {
+    const snapshot = serializeState(this.state);
+    const fullRoom = this.stateRoom(FULL_STATE_ROOM);
+    if (this.roomSize(fullRoom) > 0) {
+      this.io.to(fullRoom).emit('simulation:state', snapshot);
+    }
+    for (const encoder of this.deltaEncoders) {
+      this.publishDelta(encoder, snapshot);
+    }
+  }
+
+  /** Send the next delta of one stream to every subscriber of that stream */
+  private publishDelta(encoder: DeltaEncoder, snapshot: StateSnapshot): void {
+    const rooms = STATE_ENCODINGS
+      .map(encoding => ({ encoding, room: this.stateRoom(deltaRoom(encoding, encoder.lidar)) }))
+      .filter(({ room }) => this.roomSize(room) > 0);
+    if (rooms.length === 0) return;
+
+    const delta = encoder.encode(snapshot);
+    for (const { encoding, room } of rooms) {
+      this.io.to(room).emit('simulation:delta', encodeDelta(delta, encoding));
+    }
+  }
+
+  private stateRoom(stream: string): string {
+    return `${this.room}:${stream}`;
+  }
+
+  private leaveStateRooms(socket: Socket): void {
+    socket.leave(this.stateRoom(FULL_STATE_ROOM));
+    for (const encoder of this.deltaEncoders) {
+      for (const encoding of STATE_ENCODINGS) {
+        socket.leave(this.stateRoom(deltaRoom(encoding, encoder.lidar)));
+      }
+    }
+  }
+
+  private roomSize(room: string): number {
+    return this.io.sockets.adapter.rooms.get(room)?.size ?? 0;
+  }
+}
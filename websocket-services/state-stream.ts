@@ -0,0 +1,172 @@
+/**
+ * ArcSpatial Intelligence - Delta State Stream
+ * Turns consecutive serialized states into per-tick deltas so clients only
+ * receive the entities that changed, instead of the full world every tick.
+ *
+ * Protocol:
+ *   client → simulation:subscribe { mode: 'delta', encoding?: 'json' | 'msgpack', lidar?: boolean }
+ *   server → simulation:snapshot  { seq, state }     baseline for the stream
+ *   server → simulation:delta     StateDelta          one per broadcast, seq + 1 each time
+ *
+ * A client that sees a gap in `seq` re-sends simulation:subscribe to get a
+ * fresh snapshot. Clients that never subscribe keep receiving simulation:state.
+ */
+
+import { encode } from '@msgpack/msgpack';
+import { serializeState } from './simulation-engine';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type StateSnapshot = ReturnType<typeof serializeState>;
+
+export type StateEncoding = 'json' | 'msgpack';
+
+const ENTITY_KEYS = ['robots', 'objects', 'zones', 'obstacles', 'tasks', 'schedules', 'faults', 'movements'] as const;
+type EntityKey = typeof ENTITY_KEYS[number];
+
+export type StateMeta = Omit<StateSnapshot, EntityKey | 'metrics' | 'tick' | 'simTime'>;
+
+export interface EntityDelta<T> {
+  upsert: T[];
+  remove: string[];
+}
+
+export interface StateDelta {
+  seq: number;
+  tick: number;
+  simTime: number;
+  meta?: StateMeta;
+  metrics?: StateSnapshot['metrics'];
+  robots?: EntityDelta<StateSnapshot['robots'][number]>;
+  objects?: EntityDelta<StateSnapshot['objects'][number]>;
+  zones?: EntityDelta<StateSnapshot['zones'][number]>;
+  obstacles?: EntityDelta<StateSnapshot['obstacles'][number]>;
+  tasks?: EntityDelta<StateSnapshot['tasks'][number]>;
+  schedules?: EntityDelta<StateSnapshot['schedules'][number]>;
+  faults?: EntityDelta<StateSnapshot['faults'][number]>;
+  movements?: EntityDelta<StateSnapshot['movements'][number]>;
+}
+
+export interface SubscribeOptions {
+  mode?: 'full' | 'delta';
+  encoding?: StateEncoding;
+  lidar?: boolean;
+}
+
+// ============================================
+// ENCODER
+// ============================================
+
+/**
+ * Tracks what was last sent on one stream and diffs the next state against
+ * it. Entities are compared by their JSON form, which is also what a
+ * subscriber's snapshot is rebuilt from, so snapshot + deltas always agree.
+ */
+export class DeltaEncoder {
+  private seq = 0;
+  private tick = 0;
+  private simTime = 0;
+  private meta = '';
+  private metrics = '';
+  private entities: Record<EntityKey, Map<string, string>> = {
+    robots: new Map(),
+    objects: new Map(),
+    zones: new Map(),
+    obstacles: new Map(),
+    tasks: new Map(),
+    schedules: new Map(),
+    faults: new Map(),
+    movements: new Map(),
+  };
+
+  /** `lidar: false` strips robot scan points, which change every tick and dominate the payload */
+  constructor(readonly lidar: boolean) {}
+
+  encode(snapshot: StateSnapshot): StateDelta {
+    const { tick, simTime } = snapshot;
+    const delta: StateDelta = { seq: ++this.seq, tick, simTime };
+    this.tick = tick;
+    this.simTime = simTime;
+
+    const meta = JSON.stringify(pickMeta(snapshot));
+    if (meta !== this.meta) {
+      this.meta = meta;
+      delta.meta = JSON.parse(meta);
+    }
+
+    const metrics = JSON.stringify(snapshot.metrics);
+    if (metrics !== this.metrics) {
+      this.metrics = metrics;
+      delta.metrics = snapshot.metrics;
+    }
+
+    for (const key of ENTITY_KEYS) {
+      const entities: Array<{ id: string }> = key === 'robots' && !this.lidar
+        ? snapshot.robots.map(r => ({ ...r, lidarPoints: [] }))
+        : snapshot[key];
+      const changes = diffEntities(this.entities[key], entities);
+      if (changes) {
+        (delta as unknown as Record<EntityKey, EntityDelta<unknown>>)[key] = changes;
+      }
+    }
+
+    return delta;
+  }
+
+  /** The state as of the last delta sent — the baseline a new subscriber applies deltas to */
+  snapshot(): { seq: number; state: StateSnapshot } {
+    const state = {
+      ...(this.meta ? JSON.parse(this.meta) : {}),
+      tick: this.tick,
+      simTime: this.simTime,
+      metrics: this.metrics ? JSON.parse(this.metrics) : {},
+    };
+    for (const key of ENTITY_KEYS) {
+      state[key] = Array.from(this.entities[key].values(), json => JSON.parse(json));
+    }
+    return { seq: this.seq, state: state as StateSnapshot };
+  }
+}
+
+function pickMeta(snapshot: StateSnapshot): StateMeta {
+  const { id, name, status, environmentType, dimensions, timeMultiplier, clockStart, seed, quality, chaos, maintenance } = snapshot;
+  return { id, name, status, environmentType, dimensions, timeMultiplier, clockStart, seed, quality, chaos, maintenance };
+}
+
+function diffEntities<T extends { id: string }>(previous: Map<string, string>, entities: T[]): EntityDelta<T> | null {
+  const upsert: T[] = [];
+  const remove: string[] = [];
+  const seen = new Set<string>();
+
+  for (const entity of entities) {
+    seen.add(entity.id);
+    const json = JSON.stringify(entity);
+    if (previous.get(entity.id) !== json) {
+      previous.set(entity.id, json);
+      upsert.push(entity);
+    }
+  }
+
+  for (const id of previous.keys()) {
+    if (!seen.has(id)) {
+      previous.delete(id);
+      remove.push(id);
+    }
+  }
+
+  return upsert.length > 0 || remove.length > 0 ? { upsert, remove } : null;
+}
+
+/** Wire form of a delta for the given encoding */
+export function encodeDelta(delta: StateDelta, encoding: StateEncoding): StateDelta | Uint8Array {
+  return encoding === 'msgpack' ? encode(delta, { ignoreUndefined: true }) : delta;
+}
+
+/** Socket.IO room for a delta stream variant */
+export function deltaRoom(encoding: StateEncoding, lidar: boolean): string {
+  return `state:delta:${encoding}:${lidar ? 'lidar' : 'nolidar'}`;
+}
+
+export const FULL_STATE_ROOM = 'state:full';